@@ -0,0 +1,549 @@
+import type { BotContext } from '../types';
+import type { MeetingSlots } from '../services/intentExtractor';
+import { logoutUser, revokeUserAccess } from '../services/authService';
+import type { CalendarInfo } from '../services/calendarProvider';
+import { getCalendarTimeZone, isUserAuthorized, listCalendars } from '../services/calendarService';
+import { addContact, getContacts, isEmail, removeContact, resolveContact } from '../services/contacts';
+import {
+  DEFAULT_MIN_NOTICE_MINUTES,
+  DEFAULT_WORKING_HOURS,
+  getDefaultCalendar,
+  getListedCalendars,
+  getUserPreferences,
+  getUserTimeZone,
+  updateUserPreferences
+} from '../services/userPreferences';
+import { handleCommandIntent, stopWizard } from './messageHandler';
+import { isGroupChat } from './groupHandler';
+import { startPoll } from './pollHandler';
+import { ParseOptions, bestGuess, parseDate, parseDateRange, parseTime, parseTimeRange, toIsoDate } from '../utils/dateParser';
+import { analyzeMeetingRequest } from '../utils/meetingParser';
+import { atTime, formatTime, fromIsoDate, normalizeTimeZone } from '../utils/timezone';
+import { currentTime } from '../utils/clock';
+
+function getCommandArgs(ctx: BotContext): string {
+  const text = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+  return text.replace(/^\/\S+\s*/, '').trim();
+}
+
+export async function handleLogoutCommand(ctx: BotContext): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  if (!logoutUser(userId)) {
+    await ctx.reply("You're not connected to a calendar, so there's nothing to log out of. 🙂");
+    return;
+  }
+
+  await ctx.reply(
+    "👋 You're logged out. I've deleted your stored calendar credentials.\n\n" +
+    "Remo still appears under your Google account's third-party access. " +
+    "Use /revoke if you also want to remove that permission."
+  );
+}
+
+export async function handleRevokeCommand(ctx: BotContext): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const result = await revokeUserAccess(userId);
+  switch (result) {
+    case 'not_linked':
+      await ctx.reply("You haven't connected a calendar, so there's nothing to revoke. 🙂");
+      break;
+    case 'revoked':
+      await ctx.reply(
+        "🔒 Done! I've revoked Remo's access to your Google Calendar and deleted your stored credentials."
+      );
+      break;
+    case 'deleted_only':
+      await ctx.reply(
+        "I deleted your stored credentials, but Google didn't confirm the revocation. " +
+        "You can remove Remo manually at https://myaccount.google.com/permissions"
+      );
+      break;
+  }
+}
+
+export async function handleTimezoneCommand(ctx: BotContext): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  await setTimeZone(ctx, userId, getCommandArgs(ctx));
+}
+
+async function setTimeZone(ctx: BotContext, userId: number, input: string): Promise<void> {
+  if (!input) {
+    const timeZone = await getUserTimeZone(userId);
+    await ctx.reply(
+      `🌍 Your time zone is ${timeZone} (it's ${formatTime(currentTime(), timeZone)} there now).\n\n` +
+      "To change it, send /timezone followed by a zone name, e.g.:\n" +
+      "• /timezone Asia/Kolkata\n" +
+      "• /timezone Europe/Berlin\n" +
+      "• /timezone America/New_York"
+    );
+    return;
+  }
+
+  const timeZone = normalizeTimeZone(input);
+  if (!timeZone) {
+    await ctx.reply(
+      `I don't recognise "${input}" as a time zone. 🤔\n\n` +
+      "Please use a region/city name like Asia/Kolkata, Europe/London or America/Los_Angeles."
+    );
+    return;
+  }
+
+  await updateUserPreferences(userId, { timeZone });
+  await ctx.reply(`✅ Time zone set to ${timeZone}. It's ${formatTime(currentTime(), timeZone)} there right now.`);
+}
+
+// After the first authorization, adopt the calendar's own zone unless the user already picked one
+export async function getTimeZoneOnboardingMessage(userId: number): Promise<string | null> {
+  const preferences = await getUserPreferences(userId);
+  if (preferences.timeZone) return null;
+
+  const calendarZone = await getCalendarTimeZone(userId);
+  if (!calendarZone) return null;
+
+  await updateUserPreferences(userId, { timeZone: calendarZone });
+  return `🌍 Your Google Calendar uses ${calendarZone}, so I'll show and schedule your meetings in that time zone. ` +
+    "Send /timezone <Region/City> any time to change it.";
+}
+
+const CONTACTS_USAGE =
+  "📇 Manage your contacts:\n" +
+  "• /contacts list\n" +
+  "• /contacts add John Smith john@example.com\n" +
+  "• /contacts remove John Smith (or their email)\n\n" +
+  "I also remember the people you meet with, so you can just say 'schedule a meeting with John'.";
+
+export async function handleContactsCommand(ctx: BotContext): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const [subcommand = 'list', ...rest] = getCommandArgs(ctx).split(/\s+/).filter(Boolean);
+  const args = rest.join(' ');
+
+  switch (subcommand.toLowerCase()) {
+    case 'list': {
+      const contacts = await getContacts(userId);
+      if (!contacts.length) {
+        await ctx.reply("Your contacts book is empty.\n\n" + CONTACTS_USAGE);
+        return;
+      }
+      await ctx.reply(
+        `📇 Your contacts (${contacts.length}):\n\n` +
+        contacts.map(contact => `• ${contact.name} - ${contact.email}`).join('\n')
+      );
+      break;
+    }
+
+    case 'add': {
+      const email = rest.find(isEmail);
+      const name = rest.filter(part => part !== email).join(' ');
+      if (!email || !name) {
+        await ctx.reply("Please give a name and an email, e.g. /contacts add John Smith john@example.com");
+        return;
+      }
+      const contact = await addContact(userId, name, email);
+      await ctx.reply(`✅ Saved ${contact.name} (${contact.email}).`);
+      break;
+    }
+
+    case 'remove': {
+      if (!args) {
+        await ctx.reply("Who should I remove? e.g. /contacts remove John Smith");
+        return;
+      }
+      const removed = await removeContact(userId, args);
+      await ctx.reply(removed.length ?
+        `🗑️ Removed ${removed.map(contact => `${contact.name} (${contact.email})`).join(', ')}.` :
+        `I couldn't find "${args}" in your contacts. Use /contacts list to see them.`
+      );
+      break;
+    }
+
+    default:
+      await ctx.reply(CONTACTS_USAGE);
+  }
+}
+
+const HELP_MESSAGE =
+  "I can help you manage your meetings:\n\n" +
+  "📅 Meeting Management:\n" +
+  "• Schedule a new meeting\n" +
+  "• Update meeting details\n" +
+  "• Reschedule meetings\n" +
+  "• Cancel meetings\n\n" +
+  "Examples:\n" +
+  "• 'Schedule a meeting tomorrow at 2pm'\n" +
+  "• 'Update the description of today's 3pm meeting'\n" +
+  "• 'Reschedule tomorrow's meeting to Friday'\n" +
+  "• 'Cancel my 4pm meeting'\n\n" +
+  "⌨️ Commands:\n" +
+  "• /schedule tomorrow 3pm 30m alice@example.com \"Design review\"\n" +
+  "• /today, /tomorrow or /week to see your meetings\n" +
+  "• /agenda friday to see any other day\n" +
+  "• /poll tue 3pm; wed 10am; thu 2pm to let attendees vote on a time, in Telegram or on a web page\n" +
+  "• /cancel or /reschedule, optionally with the meeting, e.g. /cancel 4pm. While I'm asking you something, /cancel stops that first\n" +
+  "• /settings for your time zone, working hours and notice\n" +
+  "• /calendars to pick where meetings go and which calendars you see\n\n" +
+  "👥 In a group, mention me and I'll find a time that works for everyone who has linked a calendar, " +
+  "e.g. '@remo find us 30 minutes tomorrow'.\n\n" +
+  "Use /timezone to set your time zone and /contacts to manage the people you meet with.\n" +
+  "Use /logout to forget your calendar credentials or /revoke to also remove my Google access.";
+
+export async function handleStartCommand(ctx: BotContext): Promise<void> {
+  await ctx.reply("Hello! I'm Remo, your personal AI assistant. 👋\n\n" + HELP_MESSAGE + "\n\nHow can I assist you today?");
+}
+
+export async function handleHelpCommand(ctx: BotContext): Promise<void> {
+  await ctx.reply(HELP_MESSAGE);
+}
+
+function parseOptions(timeZone: string): ParseOptions {
+  return { now: currentTime(), timeZone };
+}
+
+const QUOTED_TITLE = /["“]([^"”]+)["”]/;
+// 30m, 45 min, 2h, 1h30m, 1 hour 15 minutes
+const DURATION = /\b(\d+)\s*(?:h|hrs?|hours?)(?:\s*(\d+)\s*(?:m|mins?|minutes?))?\b|\b(\d+)\s*(?:m|mins?|minutes?)\b/i;
+
+// Reads `/schedule tomorrow 3pm 30m alice@example.com "Design review"`. The quoted title,
+// emails and duration are taken out first, so what's left is just the day and time.
+export function parseScheduleArgs(args: string, options: ParseOptions): MeetingSlots {
+  const title = args.match(QUOTED_TITLE)?.[1].trim();
+  const words = args.replace(QUOTED_TITLE, ' ').split(/\s+/).filter(Boolean);
+  const emails = words.filter(isEmail);
+
+  let rest = words.filter(word => !isEmail(word)).join(' ');
+  let duration: number | undefined;
+  const durationMatch = rest.match(DURATION);
+  if (durationMatch) {
+    const [, hours, extraMinutes, minutes] = durationMatch;
+    duration = hours ? parseInt(hours) * 60 + parseInt(extraMinutes || '0') : parseInt(minutes);
+    rest = rest.replace(DURATION, ' ');
+  }
+
+  const range = bestGuess(parseTimeRange(rest));
+  const time = range ? range.start : bestGuess(parseTime(rest));
+  if (range && !duration) {
+    const [startHour, startMinute] = range.start.split(':').map(Number);
+    const [endHour, endMinute] = range.end.split(':').map(Number);
+    duration = endHour * 60 + endMinute - (startHour * 60 + startMinute);
+  }
+
+  const day = bestGuess(parseDate(rest, options));
+  const { extractedInfo } = analyzeMeetingRequest(rest);
+  const name = emails.length ? undefined : extractedInfo.name;
+  const attendees = name ? [name] : emails;
+
+  return {
+    date: day ? toIsoDate(day, options.timeZone) : undefined,
+    time: time || undefined,
+    duration: duration || undefined,
+    attendees: attendees.length ? attendees : undefined,
+    title,
+    location: extractedInfo.location,
+    conference: extractedInfo.videoCall || undefined,
+    calendar: extractedInfo.calendar
+  };
+}
+
+export async function handleScheduleCommand(ctx: BotContext): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const args = getCommandArgs(ctx);
+  const slots = parseScheduleArgs(args, parseOptions(await getUserTimeZone(userId)));
+  await handleCommandIntent(ctx, args, { intent: 'create', slots });
+}
+
+const POLL_USAGE =
+  "Give me the candidate times separated by semicolons, and I'll post a poll everyone can vote on:\n" +
+  "• /poll \"Design review\" 45m alice@example.com; tue 3pm; wed 10am; thu 2pm\n\n" +
+  "A time without a day falls on the same day as the one before it, e.g. /poll tue 3pm; 5pm.";
+
+// Reads `/poll "Design review" 45m alice@example.com; tue 3pm; wed 10am`. Each part is read like
+// /schedule arguments, so the title, length and attendees may come with any of them.
+export function parsePollArgs(args: string, options: ParseOptions) {
+  const request: { title?: string; duration?: number; attendees: string[]; times: Date[] } = { attendees: [], times: [] };
+  let day: string | undefined;
+
+  for (const part of args.split(/[;\n]/)) {
+    const slots = parseScheduleArgs(part, options);
+    request.title = request.title || slots.title;
+    request.duration = request.duration || slots.duration;
+    request.attendees.push(...(slots.attendees || []));
+
+    day = slots.date || day;
+    if (!slots.time || !day) continue;
+    const [hours, minutes] = slots.time.split(':').map(Number);
+    request.times.push(atTime(fromIsoDate(day, options.timeZone), hours, minutes, options.timeZone));
+  }
+  return request;
+}
+
+export async function handlePollCommand(ctx: BotContext): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  if (!isUserAuthorized(userId)) {
+    await ctx.reply(isGroupChat(ctx)
+      ? "Connect your calendar in a private chat with me first, then start the poll again."
+      : "I need access to your calendar first, so I can book the winning time. Ask me to schedule something and I'll send you a link.");
+    return;
+  }
+
+  const timeZone = await getUserTimeZone(userId);
+  const request = parsePollArgs(getCommandArgs(ctx), parseOptions(timeZone));
+  const times = Array.from(new Set(request.times.map(time => time.getTime())))
+    .filter(time => time > currentTime().getTime())
+    .map(time => new Date(time));
+  if (times.length < 2) {
+    await ctx.reply((request.times.length >= 2 ? "Some of those times have already passed. " : '') + POLL_USAGE);
+    return;
+  }
+
+  // Names go through the contact book; only people with a known email can be invited
+  const attendees: string[] = [];
+  const unknown: string[] = [];
+  for (const attendee of request.attendees) {
+    if (isEmail(attendee)) {
+      attendees.push(attendee);
+      continue;
+    }
+    const matches = await resolveContact(userId, attendee);
+    if (matches.length === 1) attendees.push(matches[0].email);
+    else unknown.push(attendee);
+  }
+  if (unknown.length) {
+    await ctx.reply(`⚠️ I don't have a single email for ${unknown.join(', ')}, so they won't get the invite.`);
+  }
+
+  await startPoll(ctx, userId, {
+    title: request.title || 'Meeting',
+    durationMinutes: request.duration || 30,
+    attendees,
+    options: times
+  });
+}
+
+// /today, /tomorrow and /week are /agenda with the range filled in
+function agendaCommand(range: string) {
+  return (ctx: BotContext) => handleCommandIntent(ctx, range, { intent: 'list', slots: {} });
+}
+
+export const handleTodayCommand = agendaCommand('today');
+export const handleTomorrowCommand = agendaCommand('tomorrow');
+export const handleWeekCommand = agendaCommand('this week');
+
+export async function handleAgendaCommand(ctx: BotContext): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const args = getCommandArgs(ctx);
+  if (args && parseDateRange(args, parseOptions(await getUserTimeZone(userId))).status === 'none') {
+    await ctx.reply(
+      `I couldn't work out which day "${args}" is. 🤔\n\n` +
+      "Try /agenda friday, /agenda 25 march or /agenda next week."
+    );
+    return;
+  }
+  await handleCommandIntent(ctx, args || 'today', { intent: 'list', slots: {} });
+}
+
+// The arguments describe the meeting ("/cancel 4pm", "/reschedule standup to friday").
+// /cancel during a wizard stops the wizard, like typing 'cancel' does.
+export async function handleCancelCommand(ctx: BotContext): Promise<void> {
+  const userId = ctx.from?.id;
+  const command = `/cancel ${getCommandArgs(ctx)}`.trim();
+  if (userId && await stopWizard(ctx, userId, `\n\nTo cancel a meeting instead, send ${command} again.`)) return;
+  await handleCommandIntent(ctx, getCommandArgs(ctx), { intent: 'cancel', slots: {} });
+}
+
+export async function handleRescheduleCommand(ctx: BotContext): Promise<void> {
+  await handleCommandIntent(ctx, getCommandArgs(ctx), { intent: 'reschedule', slots: {} });
+}
+
+const SETTINGS_USAGE =
+  "To change a setting:\n" +
+  "• /settings timezone Europe/Berlin\n" +
+  "• /settings hours 9-18\n" +
+  "• /settings notice 30 (minutes of notice before a new meeting)";
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export async function handleSettingsCommand(ctx: BotContext): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const [setting = '', ...rest] = getCommandArgs(ctx).split(/\s+/).filter(Boolean);
+  const value = rest.join(' ');
+
+  switch (setting.toLowerCase()) {
+    case '': {
+      const preferences = await getUserPreferences(userId);
+      const timeZone = await getUserTimeZone(userId);
+      const hours = preferences.workingHours || DEFAULT_WORKING_HOURS;
+      await ctx.reply(
+        "⚙️ Your settings:\n\n" +
+        `🌍 Time zone: ${timeZone}\n` +
+        `🕘 Working hours: ${hours.start}:00-${hours.end}:00, ${hours.days.map(day => DAY_NAMES[day]).join(' ')}\n` +
+        `⏳ Minimum notice: ${preferences.minNoticeMinutes ?? DEFAULT_MIN_NOTICE_MINUTES} minutes\n\n` +
+        SETTINGS_USAGE
+      );
+      break;
+    }
+
+    case 'timezone':
+    case 'tz':
+      await setTimeZone(ctx, userId, value);
+      break;
+
+    case 'hours': {
+      const match = value.match(/^(\d{1,2})\s*(?:-|to)\s*(\d{1,2})$/);
+      const start = match ? parseInt(match[1]) : NaN;
+      const end = match ? parseInt(match[2]) : NaN;
+      if (!(start >= 0 && end <= 24 && start < end)) {
+        await ctx.reply("Please give whole hours in 24-hour time, e.g. /settings hours 9-18");
+        return;
+      }
+      const { workingHours = DEFAULT_WORKING_HOURS } = await getUserPreferences(userId);
+      await updateUserPreferences(userId, { workingHours: { ...workingHours, start, end } });
+      await ctx.reply(`✅ Working hours set to ${start}:00-${end}:00.`);
+      break;
+    }
+
+    case 'notice': {
+      const minutes = parseInt(value);
+      if (!/^\d+$/.test(value) || minutes > 7 * 24 * 60) {
+        await ctx.reply("Please give the notice in minutes, e.g. /settings notice 30");
+        return;
+      }
+      await updateUserPreferences(userId, { minNoticeMinutes: minutes });
+      await ctx.reply(`✅ I'll suggest times at least ${minutes} minutes from now.`);
+      break;
+    }
+
+    default:
+      await ctx.reply(SETTINGS_USAGE);
+  }
+}
+
+const CALENDARS_USAGE =
+  "To change them:\n" +
+  "• /calendars default 2 (or its name) - where new meetings go\n" +
+  "• /calendars show 1 3 (or all) - which calendars your listings include\n\n" +
+  "You can also name a calendar in a request, e.g. 'add it to the Team calendar'.";
+
+// Calendars picked by number ("1 3") or by name ("Team, Family"), or every one of them for "all"
+function pickCalendars(calendars: CalendarInfo[], input: string): CalendarInfo[] | null {
+  if (input.toLowerCase() === 'all') return calendars;
+  const numbered = /^[\d\s,]+$/.test(input);
+  const picks = input.split(numbered ? /[\s,]+/ : /\s*,\s*/).filter(Boolean).map(pick => {
+    if (numbered) return calendars[parseInt(pick) - 1];
+    const wanted = pick.toLowerCase();
+    return calendars.find(calendar => calendar.name.toLowerCase() === wanted) ||
+      calendars.find(calendar => calendar.name.toLowerCase().includes(wanted));
+  });
+  return picks.length && picks.every(Boolean) ? Array.from(new Set(picks as CalendarInfo[])) : null;
+}
+
+export async function handleCalendarsCommand(ctx: BotContext): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  if (!isUserAuthorized(userId)) {
+    await ctx.reply("Connect your Google Calendar first - just ask me to schedule or list a meeting. 🙂");
+    return;
+  }
+
+  const calendars = await listCalendars(userId);
+  if (!calendars.length) {
+    await ctx.reply("❌ I couldn't load your calendar list. Please try again later.");
+    return;
+  }
+
+  const [subcommand = '', ...rest] = getCommandArgs(ctx).split(/\s+/).filter(Boolean);
+  const value = rest.join(' ');
+
+  switch (subcommand.toLowerCase()) {
+    case '': {
+      const defaultId = (await getDefaultCalendar(userId)).id;
+      const listedIds = (await getListedCalendars(userId)).map(calendar => calendar.id);
+      const lines = calendars.map((calendar, index) =>
+        `${index + 1}. ${calendar.name}` +
+        (calendar.id === defaultId ? ' ⭐' : '') +
+        (listedIds.includes(calendar.id) ? ' 👁️' : '') +
+        (calendar.writable ? '' : ' 🔒')
+      );
+      await ctx.reply(
+        "📂 Your calendars:\n\n" + lines.join('\n') + "\n\n" +
+        "⭐ new meetings go here · 👁️ shown in your listings · 🔒 read-only\n\n" +
+        CALENDARS_USAGE
+      );
+      break;
+    }
+
+    case 'default': {
+      const picked = value ? pickCalendars(calendars, value) : null;
+      if (!picked || picked.length !== 1) {
+        await ctx.reply("Which calendar? Give its number or name from /calendars, e.g. /calendars default 2");
+        return;
+      }
+      const [calendar] = picked;
+      if (!calendar.writable) {
+        await ctx.reply(`🔒 ${calendar.name} is read-only for you, so I can't add meetings to it.`);
+        return;
+      }
+      await updateUserPreferences(userId, { defaultCalendar: { id: calendar.id, name: calendar.name } });
+      await ctx.reply(`✅ New meetings will go to ${calendar.name}.`);
+      break;
+    }
+
+    case 'show': {
+      const picked = value ? pickCalendars(calendars, value) : null;
+      if (!picked) {
+        await ctx.reply("Which calendars? Give their numbers or names from /calendars, e.g. /calendars show 1 3");
+        return;
+      }
+      await updateUserPreferences(userId, {
+        listedCalendars: picked.map(calendar => ({ id: calendar.id, name: calendar.name }))
+      });
+      await ctx.reply(`✅ Your listings will show ${picked.map(calendar => calendar.name).join(', ')}.`);
+      break;
+    }
+
+    default:
+      await ctx.reply(CALENDARS_USAGE);
+  }
+}
+
+export interface BotCommandSpec {
+  command: string;
+  // Shown in Telegram's command menu
+  description: string;
+  handle: (ctx: BotContext) => Promise<void>;
+}
+
+// Everything registered with the bot; the order is the order of the command menu
+export const COMMANDS: BotCommandSpec[] = [
+  { command: 'schedule', description: 'Schedule a meeting, e.g. /schedule tomorrow 3pm 30m', handle: handleScheduleCommand },
+  { command: 'today', description: "Today's meetings", handle: handleTodayCommand },
+  { command: 'tomorrow', description: "Tomorrow's meetings", handle: handleTomorrowCommand },
+  { command: 'week', description: "This week's meetings", handle: handleWeekCommand },
+  { command: 'agenda', description: 'Meetings on a day, e.g. /agenda friday', handle: handleAgendaCommand },
+  { command: 'poll', description: 'Let attendees vote on a time, e.g. /poll tue 3pm; wed 10am', handle: handlePollCommand },
+  { command: 'cancel', description: 'Cancel a meeting', handle: handleCancelCommand },
+  { command: 'reschedule', description: 'Move a meeting', handle: handleRescheduleCommand },
+  { command: 'calendars', description: 'Choose your default and listed calendars', handle: handleCalendarsCommand },
+  { command: 'settings', description: 'Time zone, working hours and notice', handle: handleSettingsCommand },
+  { command: 'timezone', description: 'Show or set your time zone', handle: handleTimezoneCommand },
+  { command: 'contacts', description: 'Manage your contacts', handle: handleContactsCommand },
+  { command: 'help', description: 'What I can do', handle: handleHelpCommand },
+  { command: 'logout', description: 'Forget your calendar credentials', handle: handleLogoutCommand },
+  { command: 'revoke', description: 'Remove my Google Calendar access', handle: handleRevokeCommand },
+  { command: 'start', description: 'Say hello', handle: handleStartCommand }
+];
@@ -0,0 +1,179 @@
+import type { BotContext } from '../types';
+import { isUserAuthorized } from '../services/calendarService';
+import { findMeetingSlots } from '../services/availabilityService';
+import {
+  GroupMember,
+  GroupProposal,
+  answerProposal,
+  createProposal,
+  getGroupMembers,
+  rememberGroupMember
+} from '../services/groupService';
+import { getUserTimeZone } from '../services/userPreferences';
+import { formatDate, formatTime } from '../utils/timezone';
+import { analyzeMeetingRequest } from '../utils/meetingParser';
+import { proposalKeyboard, proposalRetryKeyboard } from './keyboards';
+
+// Enough slots that a couple of declines don't end the search
+const PROPOSAL_SLOT_COUNT = 5;
+
+export function isGroupChat(ctx: BotContext): boolean {
+  return ctx.chat?.type === 'group' || ctx.chat?.type === 'supergroup';
+}
+
+// In a group the bot only answers messages meant for it: ones mentioning it and replies to
+// its own messages. Returns the text without the mention, or null when it wasn't addressed.
+export function getGroupRequest(ctx: BotContext, text: string): string | null {
+  const username = ctx.botInfo?.username;
+  const mention = username ? new RegExp(`@${username}\\b`, 'gi') : null;
+  const mentioned = !!mention && text.search(mention) !== -1;
+  const repliedTo = !!ctx.message && 'reply_to_message' in ctx.message &&
+    ctx.message.reply_to_message?.from?.id === ctx.botInfo?.id;
+  if (!mentioned && !repliedTo) return null;
+
+  return (mention ? text.replace(mention, ' ') : text).replace(/\s+/g, ' ').trim();
+}
+
+// Everyone who talks to the bot in a group becomes someone it can find times with
+export async function rememberSender(ctx: BotContext): Promise<void> {
+  if (!ctx.chat || !ctx.from) return;
+  await rememberGroupMember(ctx.chat.id, { userId: ctx.from.id, name: ctx.from.first_name });
+}
+
+function formatSlot(proposal: GroupProposal, timeZone: string): string {
+  return `${formatDate(proposal.slot.start, timeZone, { weekday: 'short', month: 'short', day: 'numeric' })} ` +
+    `${formatTime(proposal.slot.start, timeZone)}–${formatTime(proposal.slot.end, timeZone)} (${timeZone})`;
+}
+
+function describeProposal(proposal: GroupProposal, timeZone: string): string {
+  const answers = proposal.participants
+    .map(participant => `${participant.name} ${proposal.confirmed.includes(participant.userId) ? '✅' : '⏳'}`)
+    .join(', ');
+  return `📅 How about ${formatSlot(proposal, timeZone)} for "${proposal.title}"?\n\n` +
+    `👥 ${answers}\n\n` +
+    "Everyone is free then. Tap below to confirm - I'll add it to everyone's calendar once you all have.";
+}
+
+// "@remo find us 30 minutes tomorrow": finds a slot where every member with a linked calendar
+// is free and posts it for each of them to confirm
+export async function handleGroupFindTime(
+  ctx: BotContext,
+  userId: number,
+  userMessage: string,
+  range: { start: Date; end: Date }
+): Promise<void> {
+  const chatId = ctx.chat!.id;
+  const members = await getGroupMembers(chatId);
+  const organizer = members.find(member => member.userId === userId) ||
+    { userId, name: ctx.from?.first_name || 'You' };
+  const others = members.filter(member => member.userId !== userId);
+  const linked = others.filter(member => isUserAuthorized(member.userId));
+  const unlinked = others.filter(member => !isUserAuthorized(member.userId));
+
+  if (!linked.length) {
+    await ctx.reply(
+      "I don't know anyone else here with a linked calendar yet. 🤔\n\n" +
+      "Everyone who wants in should mention me once in this group and connect their calendar " +
+      "in a private chat with me. Then ask me again!"
+    );
+    return;
+  }
+
+  const timeZone = await getUserTimeZone(userId);
+  const analysis = analyzeMeetingRequest(userMessage);
+  const duration = analysis.extractedInfo.duration || 30;
+  const slots = await findMeetingSlots(userId, {
+    attendees: [],
+    members: linked.map(member => member.userId),
+    durationMinutes: duration,
+    rangeStart: range.start,
+    rangeEnd: range.end,
+    count: PROPOSAL_SLOT_COUNT
+  });
+
+  if (!slots.length) {
+    await ctx.reply(
+      `I couldn't find a free ${duration}-minute slot for all of you between ` +
+      `${formatDate(range.start, timeZone)} and ${formatDate(range.end, timeZone)}. 😕\n\n` +
+      "Try a longer date range or a shorter meeting."
+    );
+    return;
+  }
+
+  const chatTitle = ctx.chat && 'title' in ctx.chat ? ctx.chat.title : undefined;
+  const title = analysis.extractedInfo.description || (chatTitle ? `${chatTitle} meeting` : 'Group meeting');
+  const proposal = await createProposal(
+    chatId,
+    userId,
+    title,
+    [organizer, ...linked],
+    slots.map(slot => ({ start: slot.start, end: slot.end }))
+  );
+
+  let response = describeProposal(proposal, timeZone);
+  if (unlinked.length) {
+    response += `\n\n⚠️ I couldn't check ${unlinked.map(member => member.name).join(', ')} - ` +
+      "they haven't connected a calendar with me.";
+  }
+  await ctx.reply(response, proposalKeyboard(proposal.id));
+}
+
+function describeBooking(proposal: GroupProposal, failed: GroupMember[], timeZone: string): string {
+  let response = `🎉 Everyone's in! "${proposal.title}" is booked for ${formatSlot(proposal, timeZone)}.`;
+  if (failed.length) {
+    response += `\n\n⚠️ I couldn't add it to ${failed.map(member => member.name).join(', ')}'s calendar. ` +
+      "Tap below to try again, or add it by hand.";
+  } else {
+    response += " It's on all your calendars.";
+  }
+  return response;
+}
+
+// A tap on a proposal's buttons. Everyone answers on the same message, which is kept up to date.
+export async function handleProposalAnswer(
+  ctx: BotContext,
+  userId: number,
+  proposalId: string,
+  accepted: boolean
+): Promise<void> {
+  const answer = await answerProposal(proposalId, userId, accepted);
+  if (answer.kind === 'expired') {
+    await ctx.editMessageReplyMarkup(undefined).catch(() => undefined);
+    await ctx.answerCbQuery('This proposal has expired.');
+    return;
+  }
+  if (answer.kind === 'not_invited') {
+    await ctx.answerCbQuery("This one is for the people listed. Mention me to find a time of your own!");
+    return;
+  }
+
+  const timeZone = await getUserTimeZone(answer.proposal.organizerId);
+  switch (answer.kind) {
+    case 'waiting':
+      await ctx.answerCbQuery('Got it! ✅');
+      await ctx.editMessageText(describeProposal(answer.proposal, timeZone), proposalKeyboard(answer.proposal.id));
+      break;
+    case 'moved':
+      await ctx.answerCbQuery();
+      await ctx.editMessageText(
+        `${answer.declinedBy.name} can't make it, so here's the next free slot.\n\n` +
+        describeProposal(answer.proposal, timeZone),
+        proposalKeyboard(answer.proposal.id)
+      );
+      break;
+    case 'no_slots':
+      await ctx.answerCbQuery();
+      await ctx.editMessageText(
+        `${answer.declinedBy.name} can't make it, and that was the last slot everyone had free. 😕\n\n` +
+        "Mention me with another day or a shorter meeting to try again."
+      );
+      break;
+    case 'booked':
+      await ctx.answerCbQuery(answer.failed.length ? "Some calendars couldn't be updated." : 'Booked! 🎉');
+      await ctx.editMessageText(
+        describeBooking(answer.proposal, answer.failed, timeZone),
+        answer.failed.length ? proposalRetryKeyboard(answer.proposal.id) : undefined
+      );
+      break;
+  }
+}
@@ -0,0 +1,220 @@
+import { createHash } from 'crypto';
+import { Markup } from 'telegraf';
+import type { InlineKeyboardButton } from 'telegraf/types';
+import { PRIMARY_CALENDAR } from '../services/userPreferences';
+import { formatDate, formatTime, getZonedParts } from '../utils/timezone';
+import { currentTime } from '../utils/clock';
+
+// Buttons "type" their answer for the user: the callback data carries the same text a user
+// could send, so the wizard handles taps and free text through one code path.
+const INPUT_PREFIX = 'in:';
+const MONTH_PREFIX = 'cal:';
+// Notifications sent outside any wizard carry the meeting they're about
+const MEETING_PREFIX = 'mtg:';
+// Answers to a time proposed in a group chat, which every member taps on the same message
+const PROPOSAL_PREFIX = 'grp:';
+// Votes on a meeting-time poll, and the organizer's tap that books the winner
+const POLL_PREFIX = 'poll:';
+const NOOP = 'noop';
+
+export type MeetingAction = 'reschedule' | 'cancel';
+
+export type CallbackAction =
+  | { type: 'input'; input: string }
+  | { type: 'month'; year: number; month: number }
+  | { type: 'meeting'; action: MeetingAction; meetingId: string; calendarRef?: string }
+  | { type: 'proposal'; accepted: boolean; proposalId: string }
+  | { type: 'poll'; action: 'vote'; pollId: string; option: number }
+  | { type: 'poll'; action: 'book'; pollId: string }
+  | { type: 'noop' };
+
+// Telegram caps callback data at 64 bytes, so actions are one letter
+const MEETING_ACTIONS: Record<string, MeetingAction> = { r: 'reschedule', c: 'cancel' };
+
+export function parseCallbackData(data: string): CallbackAction {
+  if (data.startsWith(INPUT_PREFIX)) {
+    return { type: 'input', input: data.slice(INPUT_PREFIX.length) };
+  }
+
+  const month = data.match(/^cal:(\d{4})-(\d{1,2})$/);
+  if (month) {
+    return { type: 'month', year: parseInt(month[1]), month: parseInt(month[2]) };
+  }
+
+  const meeting = data.match(/^mtg:([rc]):([^:]+)(?::([0-9a-f]{8}))?$/);
+  if (meeting) {
+    return { type: 'meeting', action: MEETING_ACTIONS[meeting[1]], meetingId: meeting[2], calendarRef: meeting[3] };
+  }
+
+  const proposal = data.match(/^grp:([yn]):(.+)$/);
+  if (proposal) {
+    return { type: 'proposal', accepted: proposal[1] === 'y', proposalId: proposal[2] };
+  }
+
+  const vote = data.match(/^poll:v:([0-9a-f]+):(\d+)$/);
+  if (vote) {
+    return { type: 'poll', action: 'vote', pollId: vote[1], option: parseInt(vote[2]) };
+  }
+
+  const booking = data.match(/^poll:b:([0-9a-f]+)$/);
+  if (booking) {
+    return { type: 'poll', action: 'book', pollId: booking[1] };
+  }
+
+  return { type: 'noop' };
+}
+
+function inputButton(text: string, input: string): InlineKeyboardButton.CallbackButton {
+  return Markup.button.callback(text, `${INPUT_PREFIX}${input}`);
+}
+
+function noopButton(text: string): InlineKeyboardButton.CallbackButton {
+  return Markup.button.callback(text, NOOP);
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const rows: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    rows.push(items.slice(i, i + size));
+  }
+  return rows;
+}
+
+const cancelButton = (label: string = '❌ Cancel') => inputButton(label, 'cancel');
+
+export function confirmKeyboard(confirmLabel: string = '✅ Confirm', cancelLabel?: string) {
+  return Markup.inlineKeyboard([[inputButton(confirmLabel, 'yes'), cancelButton(cancelLabel)]]);
+}
+
+// Save, keep editing, or drop the pending changes to a meeting
+export function editConfirmKeyboard(saveLabel: string = '💾 Save changes') {
+  return Markup.inlineKeyboard([
+    [inputButton(saveLabel, 'yes'), inputButton('✏️ Change more', 'more')],
+    [cancelButton()]
+  ]);
+}
+
+export function skipKeyboard() {
+  return Markup.inlineKeyboard([[inputButton('⏭️ Skip', 'skip'), cancelButton()]]);
+}
+
+// A place is typed; the button asks for a video link instead
+export function locationKeyboard() {
+  return Markup.inlineKeyboard([
+    [inputButton('🎥 Google Meet', 'google meet')],
+    [inputButton('⏭️ Skip', 'skip'), cancelButton()]
+  ]);
+}
+
+// Calendar ids don't fit in callback data next to an event id, so buttons carry a short hash
+// that is matched against the user's calendars when tapped
+export function calendarRef(calendarId: string): string {
+  return createHash('sha256').update(calendarId).digest('hex').slice(0, 8);
+}
+
+// One-tap follow-ups for a meeting someone declined or asked to move. Meetings on the primary
+// calendar leave the calendar out.
+export function meetingActionKeyboard(meetingId: string, calendarId?: string) {
+  const target = calendarId && calendarId !== PRIMARY_CALENDAR.id ? `${meetingId}:${calendarRef(calendarId)}` : meetingId;
+  return Markup.inlineKeyboard([[
+    Markup.button.callback('🔄 Reschedule', `${MEETING_PREFIX}r:${target}`),
+    Markup.button.callback('🗑️ Cancel meeting', `${MEETING_PREFIX}c:${target}`)
+  ]]);
+}
+
+export function proposalKeyboard(proposalId: string) {
+  return Markup.inlineKeyboard([[
+    Markup.button.callback('✅ Works for me', `${PROPOSAL_PREFIX}y:${proposalId}`),
+    Markup.button.callback("❌ Can't make it", `${PROPOSAL_PREFIX}n:${proposalId}`)
+  ]]);
+}
+
+// Books a settled proposal again for the calendars it couldn't be added to
+export function proposalRetryKeyboard(proposalId: string) {
+  return Markup.inlineKeyboard([[Markup.button.callback('🔁 Try again', `${PROPOSAL_PREFIX}y:${proposalId}`)]]);
+}
+
+// One button per candidate time, each showing its votes so far
+export function pollKeyboard(pollId: string, labels: string[], bookLabel: string) {
+  const rows = labels.map((label, index) => [Markup.button.callback(label, `${POLL_PREFIX}v:${pollId}:${index}`)]);
+  return Markup.inlineKeyboard([...rows, [Markup.button.callback(bookLabel, `${POLL_PREFIX}b:${pollId}`)]]);
+}
+
+export function pollBookingKeyboard(pollId: string, bookLabel: string) {
+  return Markup.inlineKeyboard([[Markup.button.callback(bookLabel, `${POLL_PREFIX}b:${pollId}`)]]);
+}
+
+// One button per numbered option, answering with its 1-based number
+export function choiceKeyboard(labels: string[], extraButtons: InlineKeyboardButton.CallbackButton[] = []) {
+  const rows = labels.map((label, index) => [inputButton(`${index + 1}. ${label}`, `${index + 1}`)]);
+  return Markup.inlineKeyboard([...rows, [...extraButtons, cancelButton()]]);
+}
+
+// The readings of an ambiguous answer ("4" -> 4 AM / 4 PM), each typing an unambiguous form
+export function clarifyKeyboard(options: Array<{ label: string; input: string }>) {
+  return Markup.inlineKeyboard([options.map(option => inputButton(option.label, option.input)), [cancelButton()]]);
+}
+
+export function slotKeyboard(slots: Date[], timeZone: string, keepLabel?: string, pollLabel?: string) {
+  const labels = slots.map(slot => `${formatDate(slot, timeZone, { weekday: 'short' })} ${formatTime(slot, timeZone)}`);
+  return choiceKeyboard(labels, [
+    ...(keepLabel ? [inputButton(keepLabel, 'keep')] : []),
+    ...(pollLabel ? [inputButton(pollLabel, 'poll')] : [])
+  ]);
+}
+
+export function durationKeyboard() {
+  const durations = [15, 30, 45, 60, 90, 120];
+  const buttons = durations.map(minutes =>
+    inputButton(minutes < 60 || minutes % 60 ? `${minutes} min` : `${minutes / 60} h`, `${minutes}`));
+  return Markup.inlineKeyboard([...chunk(buttons, 3), [cancelButton()]]);
+}
+
+// Half-hour slots across the working day, answering with "HH:MM"
+export function timeSlotKeyboard(startHour: number, endHour: number) {
+  const buttons: InlineKeyboardButton.CallbackButton[] = [];
+  for (let minutes = startHour * 60; minutes < endHour * 60; minutes += 30) {
+    const time = `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+    buttons.push(inputButton(time, time));
+  }
+  return Markup.inlineKeyboard([...chunk(buttons, 4), [cancelButton()]]);
+}
+
+// Month grid starting on Monday. Past days are blanked out and the month can't go before the current one.
+export function calendarKeyboard(year: number, month: number, timeZone: string) {
+  const today = getZonedParts(currentTime(), timeZone);
+  const isCurrentMonth = year === today.year && month === today.month;
+  const isPastMonth = year < today.year || (year === today.year && month < today.month);
+  const previous = month === 1 ? { year: year - 1, month: 12 } : { year, month: month - 1 };
+  const next = month === 12 ? { year: year + 1, month: 1 } : { year, month: month + 1 };
+  const title = new Date(Date.UTC(year, month - 1, 1))
+    .toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+  const rows: InlineKeyboardButton.CallbackButton[][] = [[
+    isCurrentMonth || isPastMonth
+      ? noopButton(' ')
+      : Markup.button.callback('‹', `${MONTH_PREFIX}${previous.year}-${previous.month}`),
+    noopButton(title),
+    Markup.button.callback('›', `${MONTH_PREFIX}${next.year}-${next.month}`)
+  ]];
+  rows.push(['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'].map(noopButton));
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const leadingBlanks = (new Date(Date.UTC(year, month - 1, 1)).getUTCDay() + 6) % 7;
+  const cells: InlineKeyboardButton.CallbackButton[] = Array.from({ length: leadingBlanks }, () => noopButton(' '));
+
+  for (let day = 1; day <= daysInMonth; day++) {
+    const isPast = isPastMonth || (isCurrentMonth && day < today.day);
+    // dd-mm-yyyy is one of the formats the date step already understands
+    cells.push(isPast ? noopButton('·') : inputButton(`${day}`, `${day}-${month}-${year}`));
+  }
+  while (cells.length % 7) cells.push(noopButton(' '));
+
+  rows.push(...chunk(cells, 7), [cancelButton()]);
+  return Markup.inlineKeyboard(rows);
+}
+
+export function currentMonthKeyboard(timeZone: string) {
+  const { year, month } = getZonedParts(currentTime(), timeZone);
+  return calendarKeyboard(year, month, timeZone);
+}
@@ -1,17 +1,87 @@
-import { OpenAIApi, Configuration } from 'openai';
-import type { BotContext, MeetingState, CalendarEvent } from '../types';
-import { REMO_PERSONALITY } from '../index';
+import type {
+  BotContext,
+  CalendarEvent,
+  EditableField,
+  MeetingState,
+  RecurrenceScope,
+  UpdateMeetingState
+} from '../types';
+import { REMO_PERSONALITY } from '../personality';
 import { 
   createMeeting, 
+  findCalendar,
+  getMeeting,
   isUserAuthorized, 
-  startAuthProcess,
-  oauth2Client,
-  userTokens,
-  listUpcomingEvents 
+  listCalendars,
+  listUpcomingEvents,
+  rescheduleMeeting,
+  cancelMeeting,
+  updateMeeting
 } from '../services/calendarService';
-import { google } from 'googleapis';
-
-const openai = new OpenAIApi(new Configuration({ apiKey: process.env.OPENAI_API_KEY }));
+import { ReauthorizationRequiredError, startAuthProcess } from '../services/authService';
+import { getStateStore, StateMap } from '../services/stateStore';
+import {
+  DEFAULT_WORKING_HOURS,
+  PRIMARY_CALENDAR,
+  getDefaultCalendar,
+  getListedCalendars,
+  getUserPreferences,
+  getUserTimeZone
+} from '../services/userPreferences';
+import { addContact, formatName, getContacts, resolveContact } from '../services/contacts';
+import { AvailabilityCheck, checkAvailability, findMeetingSlots } from '../services/availabilityService';
+import {
+  addDays,
+  atTime,
+  endOfDay,
+  formatDate,
+  formatTime,
+  getZonedParts,
+  startOfDay,
+  toWallClockTime
+} from '../utils/timezone';
+import { currentTime } from '../utils/clock';
+import {
+  calendarKeyboard,
+  calendarRef,
+  choiceKeyboard,
+  clarifyKeyboard,
+  confirmKeyboard,
+  currentMonthKeyboard,
+  durationKeyboard,
+  editConfirmKeyboard,
+  locationKeyboard,
+  MeetingAction,
+  parseCallbackData,
+  skipKeyboard,
+  slotKeyboard,
+  timeSlotKeyboard
+} from './keyboards';
+import { NAME_STOPWORDS, analyzeMeetingRequest } from '../utils/meetingParser';
+import {
+  ParseOptions,
+  TimeRange,
+  bestGuess,
+  parseDate,
+  parseDateRange,
+  parseTime,
+  parseTimeRange
+} from '../utils/dateParser';
+import type { IntentResult, MeetingSlots } from '../services/intentExtractor';
+import { extractIntent } from '../services/intentService';
+import { getChatModel } from '../services/chatModel';
+import { RuleBasedIntentExtractor } from '../services/extractors/ruleBasedIntentExtractor';
+import { MessageRouter } from './router';
+import { handlePollAction, startPoll } from './pollHandler';
+import { getGroupRequest, handleGroupFindTime, handleProposalAnswer, isGroupChat, rememberSender } from './groupHandler';
+import {
+  applyRecurrenceLimit,
+  describeRecurrence,
+  formatRRule,
+  getFirstOccurrenceDate,
+  getRecurrenceRule,
+  parseRecurrencePattern
+} from '../utils/recurrence';
 
 // Store conversation history
 interface Conversation {
@@ -19,8 +89,35 @@ interface Conversation {
   lastUpdate: number;
 }
 
-const conversations = new Map<number, Conversation>();
-const userMeetingStates = new Map<number, MeetingState>();
+// Idle conversations are forgotten after an hour, unfinished wizards after a day
+const CONVERSATION_TTL = parseInt(process.env.CONVERSATION_TTL_MINUTES || '60') * 60 * 1000;
+const MEETING_STATE_TTL = parseInt(process.env.MEETING_STATE_TTL_MINUTES || '1440') * 60 * 1000;
+
+const stateStore = getStateStore();
+const conversations = new StateMap<Conversation>(stateStore, 'conversations', CONVERSATION_TTL);
+const userMeetingStates = new StateMap<MeetingState>(stateStore, 'meetingStates', MEETING_STATE_TTL);
+const userUpdateStates = new StateMap<UpdateMeetingState>(stateStore, 'updateStates', MEETING_STATE_TTL);
+// Who a wizard's buttons in a group belong to, by '<chat id>:<message id>'
+const keyboardOwners = new StateMap<number>(stateStore, 'keyboardOwners', MEETING_STATE_TTL);
+
+type StateKey = number | string;
+
+// Conversations and wizards are kept per chat, so a meeting started in a group doesn't take
+// over the private chat. Private chats share the user's id and keep it as their key.
+function stateKey(ctx: BotContext, userId: number): StateKey {
+  return isGroupChat(ctx) ? `${ctx.chat!.id}:${userId}` : userId;
+}
+
+// In a group, remembers who each message with buttons was sent to, so other members can't answer it
+function trackKeyboardOwner(ctx: BotContext, userId: number): void {
+  if (!isGroupChat(ctx)) return;
+  const reply = ctx.reply.bind(ctx);
+  ctx.reply = (async (...args: Parameters<BotContext['reply']>) => {
+    const sent = await reply(...args);
+    if (args[1]?.reply_markup) await keyboardOwners.set(`${ctx.chat!.id}:${sent.message_id}`, userId);
+    return sent;
+  }) as BotContext['reply'];
+}
 
 // Greeting variations
 const greetings = [
@@ -32,9 +129,9 @@ const greetings = [
   "Hello there! What can I do for you today? 🌟",
 ];
 
-async function handleChat(userId: number, userMessage: string): Promise<string> {
+async function handleChat(key: StateKey, userMessage: string): Promise<string> {
   // Get or initialize conversation
-  let conversation = conversations.get(userId);
+  let conversation = await conversations.get(key);
   if (!conversation) {
     conversation = {
       messages: [{ role: 'system', content: REMO_PERSONALITY }],
@@ -42,11 +139,6 @@ async function handleChat(userId: number, userMessage: string): Promise<string>
     };
   }
 
-  // Don't handle meeting-related messages
-  if (isMeetingRequest(userMessage)) {
-    return "I'll help you schedule a meeting. Please provide the details.";
-  }
-
   // Add user message
   conversation.messages.push({ role: 'user', content: userMessage });
 
@@ -66,7 +158,7 @@ async function handleChat(userId: number, userMessage: string): Promise<string>
         response = getRandomGreeting();
       }
       conversation.messages.push({ role: 'assistant', content: response });
-      conversations.set(userId, conversation);
+      await conversations.set(key, conversation);
       return response;
     }
 
@@ -79,12 +171,12 @@ async function handleChat(userId: number, userMessage: string): Promise<string>
         response = getRandomHowAreYouResponse();
       }
       conversation.messages.push({ role: 'assistant', content: response });
-      conversations.set(userId, conversation);
+      await conversations.set(key, conversation);
       return response;
     }
 
     // Get AI response for other messages
-    const completion = await openai.createChatCompletion({
+    const completion = await getChatModel().createChatCompletion({
       model: "gpt-3.5-turbo",
       messages: [
         ...conversation.messages,
@@ -103,7 +195,7 @@ async function handleChat(userId: number, userMessage: string): Promise<string>
 
     conversation.messages.push({ role: 'assistant', content: response });
     conversation.lastUpdate = Date.now();
-    conversations.set(userId, conversation);
+    await conversations.set(key, conversation);
 
     return response;
   } catch (error) {
@@ -174,111 +266,24 @@ function getRepetitiveGreetingResponse(count: number): string {
   }
 }
 
-// Clean up old conversations every hour
-setInterval(() => {
-  const now = Date.now();
-  for (const [userId, conversation] of conversations.entries()) {
-    if (now - conversation.lastUpdate > 3600000) { // 1 hour
-      conversations.delete(userId);
-    }
-  }
-}, 3600000);
-
-// Training data for meeting intent recognition
-const MEETING_TRAINING_DATA = [
-  // Format: [user input, extracted info]
-  
-  // Complete requests
-  ["schedule a meeting with John at 3pm", { has: ['name', 'time'] }],
-  ["set up call with Sarah tomorrow 2:30pm", { has: ['name', 'time', 'date'] }],
-  
-  // Partial requests - missing time
-  ["schedule meeting with Alex", { has: ['name'] }],
-  ["book a call with team", { has: ['name'] }],
-  
-  // Partial requests - missing attendee
-  ["schedule meeting for 3pm", { has: ['time'] }],
-  ["set up call at 15:00", { has: ['time'] }],
-  
-  // Minimal requests
-  ["schedule a meeting", { has: [] }],
-  ["set up a call", { has: [] }],
-  
-  // Add more examples as needed...
-];
-
-function analyzeMeetingRequest(message: string): {
-  hasTime: boolean;
-  hasName: boolean;
-  hasDate: boolean;
-  hasDuration: boolean;
-  hasEmail: boolean;
-  extractedInfo: {
-    time?: string;
-    name?: string;
-    date?: string;
-    duration?: number;
-    emails?: string[];
-    description?: string;
-  };
-} {
-  const timePattern = /(\d{1,2})(?::(\d{2}))?\s*(am|pm|AM|PM)?/;
-  const namePattern = /(?:with|for)\s+([A-Za-z]+)/i;
-  const datePattern = /(?:on|for|next|today|tomorrow)\s*(monday|tuesday|wednesday|thursday|friday|saturday|sunday|tomorrow|today)?/i;
-  const durationPattern = /(\d+)\s*(?:min|minutes?|hrs?|hours?)/i;
-  const emailPattern = /[\w\.-]+@[\w\.-]+\.\w+/g;  // Global flag to find all emails
-  const descPattern = /(?:with description|description:?|about|regarding)\s*["']?([^"']+)["']?/i;
-
-  const timeMatch = message.match(timePattern);
-  const nameMatch = message.match(namePattern);
-  const dateMatch = message.match(datePattern);
-  const durationMatch = message.match(durationPattern);
-  const emailMatches = message.match(emailPattern) || [];
-  const descMatch = message.match(descPattern);
-  const hasToday = message.toLowerCase().includes('today');
-  const noDesc = message.toLowerCase().includes('no description');
-
-  // Convert duration to minutes
-  let duration: number | undefined;
-  if (durationMatch) {
-    const num = parseInt(durationMatch[1]);
-    const unit = durationMatch[0].toLowerCase();
-    duration = unit.includes('hour') ? num * 60 : num;
-  }
-
-  return {
-    hasTime: !!timeMatch,
-    hasName: !!nameMatch,
-    hasDate: hasToday || !!dateMatch,
-    hasDuration: !!durationMatch,
-    hasEmail: emailMatches.length > 0,
-    extractedInfo: {
-      time: timeMatch ? extractTime(timeMatch[0]) || undefined : undefined,
-      name: nameMatch ? nameMatch[1] : undefined,
-      date: hasToday ? 'today' : dateMatch?.[1] || undefined,
-      duration,
-      emails: emailMatches,
-      description: noDesc ? undefined : descMatch?.[1]
-    }
-  };
-}
-
-async function handleMeetingRequest(ctx: BotContext, userId: number, userMessage: string): Promise<void> {
+async function handleMeetingRequest(
+  ctx: BotContext,
+  userId: number,
+  userMessage: string,
+  slots: MeetingSlots = {}
+): Promise<void> {
   try {
-    let state = userMeetingStates.get(userId) as MeetingState | undefined;
+    let state = await userMeetingStates.get(stateKey(ctx, userId));
+    const timeZone = await getUserTimeZone(userId);
     
     // Check for cancellation requests first
-    const cancelKeywords = ['cancel', 'stop', 'no', 'quit', 'exit', 'nevermind', 'never mind'];
-    if (cancelKeywords.some(keyword => userMessage.toLowerCase().includes(keyword))) {
-      if (state) {
-        userMeetingStates.delete(userId);
-        await ctx.reply("I've cancelled the meeting scheduling. Let me know if you want to schedule another meeting!");
-        return;
-      }
+    if (state && isStopRequest(userMessage, state)) {
+      await userMeetingStates.delete(stateKey(ctx, userId));
+      await ctx.reply(getStopReply(state));
+      return;
     }
     
     if (!state) {
-      const analysis = analyzeMeetingRequest(userMessage);
       state = {
         step: 'date',
         details: {
@@ -289,35 +294,20 @@ async function handleMeetingRequest(ctx: BotContext, userId: number, userMessage
           description: undefined
         }
       };
-
-      // Extract all available information from initial message
-      if (analysis.extractedInfo.time) {
-        state.details.time = analysis.extractedInfo.time;
-      }
-      if (analysis.extractedInfo.date) {
-        const parsedDate = parseDateInput(analysis.extractedInfo.date);
-        if (parsedDate) {
-          state.details.date = parsedDate;
-        }
-      }
-      if (analysis.extractedInfo.duration) {
-        state.details.duration = analysis.extractedInfo.duration;
-      }
-      if (analysis.extractedInfo.emails && analysis.extractedInfo.emails.length > 0) {
-        state.details.attendees = analysis.extractedInfo.emails;
-      }
-      if (analysis.extractedInfo.description !== undefined) {
-        state.details.description = analysis.extractedInfo.description;
-      }
+      await applySlots(userId, state, slots, timeZone);
+      const calendarWarning = await applyCalendar(userId, state, slots.calendar);
 
       // If today is mentioned, set the date to today
       if (userMessage.toLowerCase().includes('today')) {
-        state.details.date = new Date();
+        state.details.date = startOfDay(currentTime(), timeZone);
       }
+      applyRecurrence(state, userMessage, timeZone);
 
       // Determine which information is missing and set next step
       if (!state.details.date) {
         state.step = 'date';
+      } else if (state.details.allDay) {
+        state.step = state.details.title === undefined ? 'title' : 'confirm';
       } else if (!state.details.time) {
         state.step = 'time';
       } else if (!state.details.attendees.length) {
@@ -329,13 +319,19 @@ async function handleMeetingRequest(ctx: BotContext, userId: number, userMessage
       }
 
       let response = "I'll help you schedule a meeting. Here's what I understood:\n\n";
-      if (state.details.date) response += `📅 Date: ${state.details.date.toLocaleDateString()}\n`;
+      if (state.details.title) response += `📌 Title: ${state.details.title}\n`;
+      if (state.details.allDay && state.details.date) response += describeAllDay(state, timeZone);
+      else if (state.details.date) response += `📅 Date: ${formatDate(state.details.date, timeZone)}\n`;
       if (state.details.time) response += `⏰ Time: ${state.details.time}\n`;
+      response += describeMeetingRecurrence(state, timeZone);
       if (state.details.duration) response += `⏱️ Duration: ${state.details.duration} minutes\n`;
+      if (state.details.location) response += `📍 Location: ${state.details.location}\n`;
+      if (state.details.conference) response += "🎥 Google Meet: a link will be added\n";
       if (state.details.attendees.length) response += `👥 Attendees: ${state.details.attendees.join(', ')}\n`;
       if (state.details.description) response += `📝 Description: ${state.details.description}\n`;
+      response += describeCalendar(state);
       
-      response += "\n";
+      response += "\n" + (calendarWarning ? calendarWarning + "\n" : '');
 
       switch (state.step) {
         case 'date':
@@ -345,32 +341,35 @@ async function handleMeetingRequest(ctx: BotContext, userId: number, userMessage
           response += "What time would you like to schedule it for? (e.g., 2:30 PM, 14:30)";
           break;
         case 'email':
-          response += "Please provide Susmitha's email address";
+          response += attendeeQuestion(state);
           break;
         case 'duration':
           response += "How long should the meeting be? (in minutes)";
           break;
-        case 'confirm':
-          response = "Please confirm these meeting details:\n\n" +
-            `📅 Date: ${state.details.date?.toLocaleDateString()}\n` +
-            `⏰ Time: ${state.details.time}\n` +
-            `⏱️ Duration: ${state.details.duration} minutes\n` +
-            `👥 Attendees: ${state.details.attendees.join(', ')}\n` +
-            `📝 Description: ${state.details.description || 'No description'}\n\n` +
-            "Is this correct? (Yes/No)";
+        case 'title':
+          response += MEETING_STEP_QUESTIONS.title;
           break;
       }
 
-      userMeetingStates.set(userId, state);
-      await ctx.reply(response);
+      if (state.step === 'confirm') {
+        if (calendarWarning) await ctx.reply(calendarWarning.trim());
+        await promptConfirmation(ctx, userId, state, timeZone);
+      } else {
+        await ctx.reply(response, await getStepKeyboard(userId, state.step, timeZone, state));
+      }
+      await userMeetingStates.set(stateKey(ctx, userId), state);
       return;
     }
 
     // Handle each step
     switch (state.step) {
       case 'date':
-        const parsedDate = parseDateInput(userMessage);
-        if (!parsedDate) {
+        const parsedDate = await readDateAnswer(ctx, userMessage, timeZone);
+        if (parsedDate === 'asked') return;
+        if (parsedDate) state.details.date = parsedDate;
+        // "every Monday" works as an answer too; the series starts on the next matching day
+        const recurring = applyRecurrence(state, userMessage, timeZone);
+        if (!parsedDate && !recurring) {
           await ctx.reply(
             "I couldn't understand that date format. Please use a format like:\n" +
             "• tomorrow\n" +
@@ -378,55 +377,61 @@ async function handleMeetingRequest(ctx: BotContext, userId: number, userMessage
             "• 25-03-2024\n" +
             "• 25/03\n" +
             "Remember, the date should be in the future.\n\n" +
-            "Or type 'cancel' to stop scheduling."
+            "Or type 'cancel' to stop scheduling.",
+            currentMonthKeyboard(timeZone)
           );
           return;
         }
-        state.details.date = parsedDate;
+        if (state.details.allDay) {
+          await askNextDetail(ctx, userId, state, timeZone);
+          break;
+        }
         state.step = state.details.time ? 'email' : 'time';
         await ctx.reply(
           state.details.time ? 
-            "Please provide the attendee's email address (or type 'cancel' to stop)" :
-            "What time would you like to schedule it for? (e.g., 2:30 PM, 14:30)\n\nOr type 'cancel' to stop scheduling."
+            attendeeQuestion(state) :
+            "What time would you like to schedule it for? (e.g., 2:30 PM, 14:30)\n\nOr type 'cancel' to stop scheduling.",
+          await getStepKeyboard(userId, state.step, timeZone, state)
         );
         break;
 
       case 'time':
-        const timeDetails = extractTime(userMessage);
+        const timeDetails = await readTimeAnswer(ctx, userMessage, timeZone);
+        if (timeDetails === 'asked') return;
         if (!timeDetails) {
           await ctx.reply(
             "Please provide a valid time format like:\n" +
             "• 2:30 PM\n" +
             "• 14:30\n" +
             "• 2 PM\n\n" +
-            "Or type 'cancel' to stop scheduling."
+            "Or type 'cancel' to stop scheduling.",
+            await getStepKeyboard(userId, 'time', timeZone)
           );
           return;
         }
-        state.details.time = timeDetails;
+        state.details.time = timeDetails.time;
+        if (timeDetails.duration) state.details.duration = timeDetails.duration;
         state.step = state.details.attendees.length ? 'duration' : 'email';
         await ctx.reply(
           state.details.attendees.length ?
             "How long should the meeting be? (in minutes)\n\nOr type 'cancel' to stop scheduling." :
-            "Please provide the attendee's email address (or type 'cancel' to stop)"
+            attendeeQuestion(state),
+          await getStepKeyboard(userId, state.step, timeZone, state)
         );
         break;
 
       case 'email':
-        const email = validateEmail(userMessage);
-        if (!email) {
-          await ctx.reply(
-            "Please provide a valid email address (e.g., name@domain.com)\n\n" +
-            "Or type 'cancel' to stop scheduling."
-          );
-          return;
-        }
+        const email = await pickAttendee(ctx, userId, state, userMessage);
+        if (!email) return;
         state.details.attendees = [email];
-        state.step = state.details.duration ? 'description' : 'duration';
+        if (state.details.duration) {
+          await askNextDetail(ctx, userId, state, timeZone);
+          break;
+        }
+        state.step = 'duration';
         await ctx.reply(
-          state.details.duration ?
-            "Would you like to add a description for the meeting? (Type 'skip' to skip or 'cancel' to stop)" :
-            "How long should the meeting be? (in minutes)\n\nOr type 'cancel' to stop scheduling."
+          "How long should the meeting be? (in minutes)\n\nOr type 'cancel' to stop scheduling.",
+          await getStepKeyboard(userId, state.step, timeZone)
         );
         break;
 
@@ -435,39 +440,174 @@ async function handleMeetingRequest(ctx: BotContext, userId: number, userMessage
         if (isNaN(duration) || duration <= 0 || duration > 480) {
           await ctx.reply(
             "Please provide a valid duration between 1 and 480 minutes\n\n" +
-            "Or type 'cancel' to stop scheduling."
+            "Or type 'cancel' to stop scheduling.",
+            durationKeyboard()
           );
           return;
         }
         state.details.duration = duration;
-        state.step = 'description';
-        await ctx.reply(
-          "Would you like to add a description for the meeting?\n" +
-          "(Type 'skip' to skip or 'cancel' to stop scheduling)"
-        );
+        await askNextDetail(ctx, userId, state, timeZone);
+        break;
+
+      case 'title':
+        state.details.title = isSkip(userMessage) ? '' : userMessage.trim();
+        await askNextDetail(ctx, userId, state, timeZone);
+        break;
+
+      case 'location':
+        if (VIDEO_ANSWER.test(userMessage.trim())) {
+          state.details.conference = true;
+        } else {
+          state.details.location = isSkip(userMessage) ? '' : userMessage.trim();
+        }
+        await askNextDetail(ctx, userId, state, timeZone);
         break;
 
       case 'description':
         if (userMessage.toLowerCase() !== 'skip') {
           state.details.description = userMessage;
         }
+        await promptConfirmation(ctx, userId, state, timeZone);
+        break;
+
+      case 'pick_slot': {
+        const choice = parseInt(userMessage);
+        const slots = state.details.alternatives || [];
+        // Let the attendees vote instead when their calendars couldn't be checked
+        if (/^poll\b/i.test(userMessage) && slots.length > 1) {
+          await userMeetingStates.delete(stateKey(ctx, userId));
+          await startPoll(ctx, userId, {
+            title: state.details.title || 'Meeting',
+            durationMinutes: state.details.duration || 30,
+            attendees: state.details.attendees,
+            options: slots.map(slot => new Date(slot))
+          });
+          return;
+        }
+        if (isNaN(choice) || choice < 1 || choice > slots.length) {
+          await ctx.reply(
+            "Please reply with one of the slot numbers above, or 'cancel' to stop scheduling.",
+            slotKeyboard(
+              slots.map(slot => new Date(slot)),
+              timeZone,
+              undefined,
+              state.details.attendees.length && slots.length > 1 ? POLL_LABEL : undefined
+            )
+          );
+          return;
+        }
+
+        const slot = new Date(slots[choice - 1]);
+        state.details.date = startOfDay(slot, timeZone);
+        state.details.time = toWallClockTime(slot, timeZone);
+        state.details.alternatives = undefined;
         state.step = 'confirm';
-        await ctx.reply(
-          "Please confirm these meeting details:\n\n" +
-          `📅 Date: ${state.details.date?.toLocaleDateString()}\n` +
-          `⏰ Time: ${state.details.time}\n` +
-          `⏱️ Duration: ${state.details.duration} minutes\n` +
-          `👥 Attendees: ${state.details.attendees.join(', ')}\n` +
-          `📝 Description: ${state.details.description || 'No description'}\n\n` +
-          "Is this correct? (Yes/No)\n\n" +
-          "Type 'cancel' to stop scheduling."
-        );
+        await ctx.reply(buildConfirmationMessage(state, timeZone), confirmKeyboard());
+        break;
+      }
+
+      case 'resolve_conflict': {
+        const slot = pickAlternative(userMessage, state);
+        if (slot === 'keep') {
+          state.step = 'confirm';
+          await ctx.reply(buildConfirmationMessage(state, timeZone), confirmKeyboard());
+        } else if (slot) {
+          state.details.date = startOfDay(slot, timeZone);
+          state.details.time = toWallClockTime(slot, timeZone);
+          state.details.alternatives = undefined;
+          state.step = 'confirm';
+          await ctx.reply(buildConfirmationMessage(state, timeZone), confirmKeyboard());
+        } else {
+          await ctx.reply(
+            "Please reply with one of the slot numbers above, 'keep' to book your original time anyway, " +
+            "or 'cancel' to stop scheduling.",
+            slotKeyboard(alternativeSlots(state), timeZone, KEEP_BOOKING_LABEL)
+          );
+          return;
+        }
         break;
+      }
+
+      case 'choose_scope': {
+        const scope = parseRecurrenceScope(userMessage);
+        if (!scope) {
+          await ctx.reply(
+            "Please reply with 1 (this occurrence), 2 (this and following) or 3 (entire series), " +
+            "or 'cancel' to leave the meeting as it is.",
+            scopeKeyboard()
+          );
+          return;
+        }
+
+        if (state.details.pendingAction === 'cancel') {
+          const success = await cancelMeeting(
+            userId, state.details.meetingId!, scope, state.details.cancelNote, state.details.calendarId
+          );
+          await ctx.reply(success ?
+            `✅ Cancelled ${SCOPE_NAMES[scope]} and notified the attendees` +
+            (state.details.cancelNote ? ' with your note.' : '.') :
+            "❌ Sorry, I couldn't cancel the meeting. Please try again."
+          );
+        } else {
+          const newStart = new Date(state.details.date!);
+          const success = await rescheduleMeeting(userId, state.details.meetingId!, newStart, scope, state.details.calendarId);
+          await ctx.reply(success ?
+            "✅ Meeting time updated successfully!\n\n" +
+            `New time: ${formatDate(newStart, timeZone)} ${formatTime(newStart, timeZone)}\n` +
+            `Applies to: ${SCOPE_NAMES[scope]}\n` +
+            "All attendees have been notified." :
+            "❌ Sorry, I couldn't update the meeting time. Please try again."
+          );
+        }
+        await userMeetingStates.delete(stateKey(ctx, userId));
+        return;
+      }
+
+      case 'select_cancel': {
+        const meetings = state.details.meetings || [];
+        const meeting = pickMeeting(userMessage, meetings, timeZone);
+        if (!meeting) {
+          await ctx.reply(
+            "I couldn't tell which meeting you mean. Please reply with its number or start time " +
+            "(e.g. '2' or '3pm'), or 'no' to keep them all.",
+            cancelChoiceKeyboard(meetings, timeZone)
+          );
+          return;
+        }
+        await askCancelConfirmation(ctx, userId, meeting, timeZone);
+        return;
+      }
+
+      case 'confirm_cancel':
+        if (!isAffirmative(userMessage)) {
+          await ctx.reply(
+            "Please reply 'yes' to cancel the meeting or 'no' to keep it.",
+            confirmKeyboard('🗑️ Yes, cancel it', '↩️ Keep it')
+          );
+          return;
+        }
+        if (state.details.attendees.length) {
+          state.step = 'cancel_note';
+          await ctx.reply(
+            "Would you like to add a note for the attendees? Type it now, or 'skip' to cancel without one.",
+            skipKeyboard()
+          );
+          break;
+        }
+        await completeCancellation(ctx, userId, state);
+        return;
+
+      case 'cancel_note':
+        if (userMessage.toLowerCase() !== 'skip') {
+          state.details.cancelNote = userMessage;
+        }
+        await completeCancellation(ctx, userId, state);
+        return;
 
       case 'confirm':
-        if (userMessage.toLowerCase().includes('yes')) {
+        if (isAffirmative(userMessage)) {
           if (!isUserAuthorized(userId)) {
-            const authUrl = await startAuthProcess(userId);
+            const authUrl = await startAuthProcess(userId, ctx.chat?.id);
             await ctx.reply(
               "I'll create the meeting, but first I need access to your calendar. " +
               "Please click this link to authorize:\n\n" +
@@ -477,601 +617,1138 @@ async function handleMeetingRequest(ctx: BotContext, userId: number, userMessage
             return;
           }
 
-          const startTime = new Date(state.details.date!);
-          const [hours, minutes] = state.details.time!.split(':');
-          startTime.setHours(parseInt(hours), parseInt(minutes));
-
-          const endTime = new Date(startTime.getTime() + state.details.duration! * 60000);
+          const { startTime, endTime } = getMeetingTimes(state, timeZone);
+          const defaultTitle = state.details.allDay ? 'Busy' : 'Meeting';
 
-          const success = await createMeeting(
+          const meeting = await createMeeting(
             userId,
-            `Meeting with ${state.details.attendees[0].split('@')[0]}`,
+            state.details.title ||
+              (state.details.attendees.length ? `${defaultTitle} with ${state.details.attendees[0].split('@')[0]}` : defaultTitle),
             state.details.description || "Meeting scheduled via Remo",
             startTime,
             endTime,
-            state.details.attendees
+            state.details.attendees,
+            state.details.recurrence,
+            {
+              location: state.details.location || undefined,
+              conference: state.details.conference,
+              calendarId: state.details.calendarId,
+              allDay: state.details.allDay
+            }
           );
 
-          if (success) {
+          if (meeting) {
             await ctx.reply(
               "✅ Meeting scheduled successfully!\n\n" +
-              `📅 Date: ${startTime.toLocaleDateString()}\n` +
-              `⏰ Time: ${startTime.toLocaleTimeString()}\n` +
-              `⏱️ Duration: ${state.details.duration} minutes\n` +
-              `👥 Attendees: ${state.details.attendees.join(', ')}\n` +
-              `📝 Description: ${state.details.description || 'No description'}\n\n` +
-              "Calendar invite has been sent to all attendees."
+              `📌 Title: ${meeting.summary}\n` +
+              (state.details.allDay ? describeAllDay(state, timeZone) :
+                `📅 Date: ${formatDate(startTime, timeZone)}\n` +
+                `⏰ Time: ${formatTime(startTime, timeZone)}\n` +
+                describeMeetingRecurrence(state, timeZone) +
+                `⏱️ Duration: ${state.details.duration} minutes\n`) +
+              (meeting.location ? `📍 Location: ${meeting.location}\n` : '') +
+              (meeting.meetLink ? `🎥 Google Meet: ${meeting.meetLink}\n` : '') +
+              (state.details.attendees.length ? `👥 Attendees: ${state.details.attendees.join(', ')}\n` : '') +
+              `📝 Description: ${state.details.description || 'No description'}\n` +
+              describeCalendar(state) + "\n" +
+              (state.details.attendees.length ? "Calendar invite has been sent to all attendees." : "It's on your calendar.") +
+              (state.details.conference && !meeting.meetLink ? "\n\n⚠️ Google didn't return a Meet link for this meeting." : '')
             );
           } else {
             await ctx.reply("Sorry, I couldn't schedule the meeting. Please check your calendar permissions and try again.");
           }
-          userMeetingStates.delete(userId);
-        } else if (!cancelKeywords.includes(userMessage.toLowerCase())) {
+          await userMeetingStates.delete(stateKey(ctx, userId));
+          return;
+        } else {
           await ctx.reply("No problem, let's start over. Just tell me when you want to schedule a meeting.");
-          userMeetingStates.delete(userId);
+          await userMeetingStates.delete(stateKey(ctx, userId));
+          return;
         }
         break;
     }
 
-    userMeetingStates.set(userId, state);
+    await userMeetingStates.set(stateKey(ctx, userId), state);
   } catch (error) {
+    if (await handleReauthorization(ctx, userId, error)) return;
     console.error('Error in meeting scheduling:', error);
     await ctx.reply("I encountered an error. Let's start over with the scheduling.");
-    userMeetingStates.delete(userId);
+    await userMeetingStates.delete(stateKey(ctx, userId));
   }
 }
 
-// Add these time and date mappings
-const TIME_EXPRESSIONS: { [key: string]: string } = {
-  'noon': '12:00',
-  'midnight': '00:00',
-  'midday': '12:00',
-  'morning': '09:00',
-  'afternoon': '14:00',
-  'evening': '18:00',
-  'night': '20:00',
-  'dawn': '06:00',
-  'dusk': '18:00',
-  'lunch': '12:00',
-  'breakfast': '08:00',
-  'dinner': '19:00',
-  'brunch': '10:30',
-  'eod': '17:00',      // End of day
-  'cob': '17:00',      // Close of business
-  'early morning': '07:00',
-  'late night': '23:00'
-};
-
-const DATE_EXPRESSIONS: { [key: string]: (baseDate: Date) => Date } = {
-  'today': (date) => date,
-  'tomorrow': (date) => new Date(date.setDate(date.getDate() + 1)),
-  'day after tomorrow': (date) => new Date(date.setDate(date.getDate() + 2)),
-  'next week': (date) => new Date(date.setDate(date.getDate() + 7)),
-  'weekend': (date) => {
-    const daysToWeekend = 6 - date.getDay(); // Saturday
-    return new Date(date.setDate(date.getDate() + daysToWeekend));
-  },
-  'month end': (date) => {
-    const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0);
-    return lastDay;
-  },
-  'next month': (date) => new Date(date.setMonth(date.getMonth() + 1)),
-  'christmas': (date) => new Date(date.getFullYear(), 11, 25), // December 25
-  'new year': (date) => new Date(date.getFullYear() + 1, 0, 1), // January 1
-};
-
-function extractTime(message: string): string | null {
-  const lowerMessage = message.toLowerCase();
-
-  // Check for common expressions first
-  for (const [expr, time] of Object.entries(TIME_EXPRESSIONS)) {
-    if (lowerMessage.includes(expr)) {
-      return time;
-    }
+// Fills a new wizard with whatever the intent extractor found in the request
+async function applySlots(userId: number, state: MeetingState, slots: MeetingSlots, timeZone: string): Promise<void> {
+  if (slots.time) state.details.time = slots.time;
+  if (slots.date) state.details.date = parseDateInput(slots.date, timeZone);
+  if (slots.allDay) state.details.allDay = true;
+  if (slots.allDay && slots.endDate && state.details.date) {
+    const endDate = parseDateInput(slots.endDate, timeZone);
+    if (endDate && endDate > state.details.date) state.details.endDate = endDate;
   }
+  if (slots.duration) state.details.duration = slots.duration;
+  if (slots.title) state.details.title = slots.title;
+  if (slots.location) state.details.location = slots.location;
+  if (slots.conference) state.details.conference = true;
+  if (slots.description !== undefined) state.details.description = slots.description;
+
+  const attendees = slots.attendees || [];
+  state.details.attendees = attendees.filter(attendee => validateEmail(attendee));
+  const name = attendees.find(attendee => !validateEmail(attendee));
+  if (name && !state.details.attendees.length) {
+    await resolveAttendeeName(userId, state, name);
+  }
+}
 
-  // Regular time patterns
-  const patterns = [
-    /(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?/i,  // 3pm, 3:30pm, 3 a.m.
-    /(\d{1,2})[.:](\d{2})/,                               // 15.30, 15:30
-    /(\d{1,2})\s*o['']\s*clock/i,                         // 3 o'clock
-    /(\d{1,2})\s*hrs/i,                                   // 15 hrs
-    /at\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i            // at 3pm, at 15:00
-  ];
+// New meetings go to the calendar named in the request, or the user's default one.
+// Returns a warning when the named calendar can't take the meeting.
+async function applyCalendar(userId: number, state: MeetingState, name?: string): Promise<string> {
+  const fallback = await getDefaultCalendar(userId);
+  const named = name ? await findCalendar(userId, name) : null;
+  const calendar = named?.writable ? named : fallback;
+  state.details.calendarId = calendar.id;
+  state.details.calendarName = calendar.name;
+
+  if (!name || named?.writable) return '';
+  return named ?
+    `⚠️ ${named.name} is read-only for you, so I'll add the meeting to ${fallback.name}.` :
+    `⚠️ I couldn't find a calendar called "${name}", so I'll add the meeting to ${fallback.name}. Use /calendars to see yours.`;
+}
 
-  for (const pattern of patterns) {
-    const match = message.match(pattern);
-    if (match) {
-      let hours = parseInt(match[1]);
-      const minutes = match[2] ? parseInt(match[2]) : 0;
-      const meridian = match[3]?.toLowerCase();
+// Only worth mentioning once the user works with more than their own calendar
+function describeCalendar(state: MeetingState): string {
+  const { calendarId, calendarName } = state.details;
+  return calendarId && calendarId !== PRIMARY_CALENDAR.id ? `📂 Calendar: ${calendarName || calendarId}\n` : '';
+}
 
-      if (meridian?.includes('p') && hours < 12) hours += 12;
-      if (meridian?.includes('a') && hours === 12) hours = 0;
-      if (!meridian && hours < 12 && (lowerMessage.includes('evening') || lowerMessage.includes('night'))) hours += 12;
+// "📅 Date: Fri 14/03/2025 – Sun 16/03/2025" plus the all-day marker, for blocked-off days
+function describeAllDay(state: MeetingState, timeZone: string): string {
+  const { date, endDate } = state.details;
+  return `📅 Date: ${date ? formatDate(date, timeZone) : ''}${endDate ? ` – ${formatDate(endDate, timeZone)}` : ''}\n` +
+    "⏰ Time: All day\n";
+}
 
-      return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
-    }
+// All-day events run from the first day's midnight to the midnight after the last day
+function getMeetingTimes(state: MeetingState, timeZone: string): { startTime: Date; endTime: Date } {
+  if (state.details.allDay) {
+    const startTime = startOfDay(state.details.date!, timeZone);
+    const lastDay = startOfDay(state.details.endDate || state.details.date!, timeZone);
+    return { startTime, endTime: addDays(lastDay, 1, timeZone) };
   }
 
-  return null;
+  const [hours, minutes] = state.details.time!.split(':');
+  const startTime = atTime(state.details.date!, parseInt(hours), parseInt(minutes), timeZone);
+  return { startTime, endTime: new Date(startTime.getTime() + state.details.duration! * 60000) };
 }
 
-function parseDateInput(input: string): Date | null {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const lowerInput = input.toLowerCase();
+function buildConfirmationMessage(state: MeetingState, timeZone: string): string {
+  return "Please confirm these meeting details:\n\n" +
+    (state.details.title ? `📌 Title: ${state.details.title}\n` : '') +
+    (state.details.allDay ? describeAllDay(state, timeZone) :
+      `📅 Date: ${state.details.date ? formatDate(state.details.date, timeZone) : ''}\n` +
+      `⏰ Time: ${state.details.time}\n` +
+      describeMeetingRecurrence(state, timeZone) +
+      `⏱️ Duration: ${state.details.duration} minutes\n`) +
+    (state.details.location ? `📍 Location: ${state.details.location}\n` : '') +
+    (state.details.conference ? "🎥 Google Meet: a link will be added\n" : '') +
+    (state.details.attendees.length ? `👥 Attendees: ${state.details.attendees.join(', ')}\n` : '') +
+    `📝 Description: ${state.details.description || 'No description'}\n` +
+    describeCalendar(state) + "\n" +
+    "Is this correct? (Yes/No)\n\n" +
+    "Type 'cancel' to stop scheduling.";
+}
 
-  // Handle common expressions
-  for (const [expr, getDate] of Object.entries(DATE_EXPRESSIONS)) {
-    if (lowerInput.includes(expr)) {
-      return getDate(new Date());
+function formatConflictWarning(availability: AvailabilityCheck, timeZone: string): string {
+  let message = "⚠️ Heads up - that time clashes with your calendar:\n\n";
+  if (availability.conflicts.length) {
+    for (const event of availability.conflicts) {
+      const start = new Date(event.start.dateTime);
+      const end = new Date(event.end.dateTime);
+      const when = event.allDay ? 'All day' : `${formatTime(start, timeZone)}–${formatTime(end, timeZone)}`;
+      message += `• ${when} ${event.summary || 'Untitled Meeting'}\n`;
     }
+  } else {
+    message += "• You're marked as busy at that time\n";
   }
 
-  // Handle formats like "dd-mm", "dd-mm-yyyy", "dd/mm", "dd/mm/yyyy"
-  const numericDatePattern = /^(\d{1,2})[-\/](\d{1,2})(?:[-\/](\d{4}))?$/;
-  const numericMatch = lowerInput.match(numericDatePattern);
-  if (numericMatch) {
-    const day = parseInt(numericMatch[1]);
-    const month = parseInt(numericMatch[2]) - 1;
-    const year = numericMatch[3] ? parseInt(numericMatch[3]) : today.getFullYear();
-    const date = new Date(year, month, day);
-    return isValidFutureDate(date) ? date : null;
+  if (availability.alternatives.length) {
+    message += "\nNearest free slots:\n";
+    availability.alternatives.forEach((slot, index) => {
+      message += `${index + 1}. ${formatDate(slot, timeZone, { weekday: 'short' })} ${formatTime(slot, timeZone)}\n`;
+    });
   }
+  return message;
+}
 
-  // Handle formats like "2 feb", "second feb 2024", "2nd february", etc.
-  const monthNames = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
-  const dayNumbers: { [key: string]: number } = {
-    'first': 1, 'second': 2, 'third': 3, 'fourth': 4, 'fifth': 5, 'sixth': 6, 'seventh': 7, 'eighth': 8, 'ninth': 9, 'tenth': 10,
-    'eleventh': 11, 'twelfth': 12, 'thirteenth': 13, 'fourteenth': 14, 'fifteenth': 15, 'sixteenth': 16, 'seventeenth': 17,
-    'eighteenth': 18, 'nineteenth': 19, 'twentieth': 20, 'twenty-first': 21, 'twenty-second': 22, 'twenty-third': 23,
-    'twenty-fourth': 24, 'twenty-fifth': 25, 'twenty-sixth': 26, 'twenty-seventh': 27, 'twenty-eighth': 28, 'twenty-ninth': 29,
-    'thirtieth': 30, 'thirty-first': 31
-  };
+// Picks up phrases like "every Tuesday for 6 weeks". Without a date the series starts on the next matching day.
+function applyRecurrence(state: MeetingState, userMessage: string, timeZone: string): boolean {
+  const pattern = parseRecurrencePattern(userMessage);
+  if (!pattern) return false;
 
-  for (const monthName of monthNames) {
-    // Match patterns like "2 feb" or "2nd feb"
-    const pattern1 = new RegExp(`(\\d{1,2})(?:st|nd|rd|th)?\\s+${monthName.slice(0, 3)}\\w*(?:\\s+(\\d{4}))?`, 'i');
-    const match1 = lowerInput.match(pattern1);
-    if (match1) {
-      const day = parseInt(match1[1]);
-      const month = monthNames.indexOf(monthName);
-      const year = match1[2] ? parseInt(match1[2]) : today.getFullYear();
-      const date = new Date(year, month, day);
-      return isValidFutureDate(date) ? date : null;
-    }
+  if (!state.details.date) state.details.date = getFirstOccurrenceDate(pattern, currentTime(), timeZone);
+  const rule = applyRecurrenceLimit(pattern, userMessage, state.details.date, timeZone,
+    text => parseDateInput(text, timeZone));
+  state.details.recurrence = [formatRRule(rule)];
+  return true;
+}
 
-    // Match patterns like "second february"
-    for (const [dayWord, dayNum] of Object.entries(dayNumbers)) {
-      const pattern2 = new RegExp(`${dayWord}\\s+${monthName}(?:\\s+(\\d{4}))?`, 'i');
-      const match2 = lowerInput.match(pattern2);
-      if (match2) {
-        const year = match2[1] ? parseInt(match2[1]) : today.getFullYear();
-        const date = new Date(year, monthNames.indexOf(monthName), dayNum);
-        return isValidFutureDate(date) ? date : null;
-      }
-    }
-  }
+function describeMeetingRecurrence(state: MeetingState, timeZone: string): string {
+  const rule = getRecurrenceRule(state.details.recurrence);
+  return rule ? `🔁 Repeats: ${describeRecurrence(rule, timeZone)}\n` : '';
+}
 
-  // Try parsing as direct date
-  const directDate = new Date(input);
-  if (!isNaN(directDate.getTime()) && isValidFutureDate(directDate)) {
-    return directDate;
-  }
+const SCOPE_NAMES: Record<RecurrenceScope, string> = {
+  single: 'this occurrence',
+  following: 'this and following occurrences',
+  all: 'the entire series'
+};
 
-  return null;
+async function promptRecurrenceScope(ctx: BotContext, state: MeetingState): Promise<void> {
+  state.step = 'choose_scope';
+  await ctx.reply(
+    `🔁 This meeting is part of a recurring series. What should I ${state.details.pendingAction === 'cancel' ? 'cancel' : 'move'}?\n\n` +
+    "1. This occurrence only\n" +
+    "2. This and following occurrences\n" +
+    "3. The entire series\n\n" +
+    "Reply with 1, 2 or 3, or 'cancel' to leave it as it is.",
+    scopeKeyboard()
+  );
 }
 
-function isValidFutureDate(date: Date): boolean {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  return date >= today;
+function scopeKeyboard() {
+  return choiceKeyboard(['This occurrence only', 'This and following', 'The entire series']);
 }
 
-function validateEmail(email: string): string | null {
-  const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
-  return emailRegex.test(email) ? email : null;
+function parseRecurrenceScope(userMessage: string): RecurrenceScope | null {
+  const lower = userMessage.toLowerCase().trim();
+  if (/^1\b|\b(only this|just this|this one|this occurrence)\b/.test(lower)) return 'single';
+  if (/^2\b|\b(following|future|onwards)\b/.test(lower)) return 'following';
+  if (/^3\b|\b(all|entire|whole|series)\b/.test(lower)) return 'all';
+  return null;
 }
 
-function determineMeetingAction(message: string): 'create' | 'update' | 'reschedule' | 'cancel' {
-  const lowerMessage = message.toLowerCase();
-  if (lowerMessage.includes('reschedule') || lowerMessage.includes('move')) return 'reschedule';
-  if (lowerMessage.includes('update') || lowerMessage.includes('change')) return 'update';
-  if (lowerMessage.includes('cancel') || lowerMessage.includes('delete')) return 'cancel';
-  return 'create';
+// Stopping a change to an existing meeting leaves it alone; stopping a new one drops it
+function getStopReply(state?: MeetingState): string {
+  return !state || state.details.meetingId || state.details.pendingAction ?
+    "Okay, I'll leave the meeting as it is. 👍" :
+    "I've cancelled the meeting scheduling. Let me know if you want to schedule another meeting!";
 }
 
-// Add these helper functions
-async function updateMeeting(userId: number, meetingId: string, updates: {
-  summary?: string;
-  description?: string;
-  attendees?: string[];
-  startTime?: Date;
-  endTime?: Date;
-}): Promise<boolean> {
-  try {
-    const userToken = userTokens.get(userId.toString());
-    if (!userToken) return false;
-
-    oauth2Client.setCredentials(userToken);
-    const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
-
-    // Get existing event
-    const event = await calendar.events.get({
-      calendarId: 'primary',
-      eventId: meetingId
-    });
-
-    // Update with new details
-    await calendar.events.patch({
-      calendarId: 'primary',
-      eventId: meetingId,
-      requestBody: {
-        ...event.data,
-        summary: updates.summary || event.data.summary,
-        description: updates.description || event.data.description,
-        attendees: updates.attendees?.map(email => ({ email })) || event.data.attendees,
-        start: updates.startTime ? {
-          dateTime: updates.startTime.toISOString(),
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
-        } : event.data.start,
-        end: updates.endTime ? {
-          dateTime: updates.endTime.toISOString(),
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
-        } : event.data.end
-      },
-      sendUpdates: 'all'
-    });
+const STOP_PATTERN = /\b(cancel|stop|no|quit|exit|nevermind|never mind)\b/i;
+const STOP_REPLY_PATTERN = /^(no|nope|nah|cancel|stop|quit|exit|nevermind|never mind|keep it)[\s.!]*$/i;
+
+// While cancelling a meeting, "cancel the 3pm one" or a note mentioning "no" are answers,
+// so only a bare "no"/"stop" ends the flow there. The same goes for titles ("No-code demo").
+function isStopRequest(userMessage: string, state: MeetingState): boolean {
+  const answersWithCancelWords = ['select_cancel', 'confirm_cancel', 'cancel_note', 'title', 'location'].includes(state.step) ||
+    state.details.pendingAction === 'cancel';
+  return answersWithCancelWords
+    ? STOP_REPLY_PATTERN.test(userMessage.trim())
+    : STOP_PATTERN.test(userMessage);
+}
 
-    return true;
-  } catch (error) {
-    console.error('Error updating meeting:', error);
-    return false;
+// Looks up "with John" in the contacts book: one match becomes the attendee, several are
+// kept for a clarifying question at the email step
+async function resolveAttendeeName(userId: number, state: MeetingState, name: string): Promise<void> {
+  const matches = await resolveContact(userId, name);
+  if (matches.length === 1) {
+    state.details.attendees = [matches[0].email];
+    state.details.contactName = undefined;
+    state.details.contactOptions = undefined;
+    return;
   }
+  state.details.contactName = formatName(name);
+  state.details.contactOptions = matches.length ?
+    matches.map(contact => ({ name: contact.name, email: contact.email })) :
+    undefined;
 }
 
-async function rescheduleMeeting(userId: number, meetingId: string, newTime: Date): Promise<boolean> {
-  try {
-    const userToken = userTokens.get(userId.toString());
-    if (!userToken) return false;
+function contactKeyboard(state: MeetingState) {
+  const options = state.details.contactOptions;
+  return options?.length ? choiceKeyboard(options.map(contact => `${contact.name} (${contact.email})`)) : undefined;
+}
 
-    oauth2Client.setCredentials(userToken);
-    const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
+function attendeeQuestion(state: MeetingState): string {
+  const { contactName, contactOptions } = state.details;
+  if (contactName && contactOptions?.length) {
+    return `I know ${contactOptions.length} people called ${contactName}. Which one do you mean?\n\n` +
+      contactOptions.map((contact, index) => `${index + 1}. ${contact.name} (${contact.email})`).join('\n') +
+      "\n\nReply with a number, or send a different email address.";
+  }
+  if (contactName) {
+    return `What's ${contactName}'s email address? I'll remember it for next time. (or type 'cancel' to stop)`;
+  }
+  return "Please provide the attendee's email address or a contact's name (or type 'cancel' to stop)";
+}
 
-    // Get existing event
-    const event = await calendar.events.get({
-      calendarId: 'primary',
-      eventId: meetingId
-    });
+// Answer to the attendee question: a listed contact's number, an email, or a saved contact's name
+async function pickAttendee(ctx: BotContext, userId: number, state: MeetingState, userMessage: string): Promise<string | null> {
+  const options = state.details.contactOptions || [];
+  const choice = parseInt(userMessage);
+  if (!isNaN(choice) && choice >= 1 && choice <= options.length) {
+    state.details.contactName = undefined;
+    state.details.contactOptions = undefined;
+    return options[choice - 1].email;
+  }
 
-    // Calculate new end time maintaining same duration
-    const oldStart = new Date(event.data.start?.dateTime || '');
-    const oldEnd = new Date(event.data.end?.dateTime || '');
-    const duration = oldEnd.getTime() - oldStart.getTime();
-    const newEndTime = new Date(newTime.getTime() + duration);
-
-    // Update event time
-    await calendar.events.patch({
-      calendarId: 'primary',
-      eventId: meetingId,
-      requestBody: {
-        start: {
-          dateTime: newTime.toISOString(),
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
-        },
-        end: {
-          dateTime: newEndTime.toISOString(),
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
-        }
-      },
-      sendUpdates: 'all'
-    });
+  const email = validateEmail(userMessage.trim());
+  if (email) {
+    const contactName = state.details.contactName;
+    if (contactName && !(await getContacts(userId)).some(contact => contact.email === email.toLowerCase())) {
+      await addContact(userId, contactName, email);
+      await ctx.reply(`📇 Saved ${contactName} (${email}) to your contacts.`);
+    }
+    state.details.contactName = undefined;
+    state.details.contactOptions = undefined;
+    return email;
+  }
 
-    return true;
-  } catch (error) {
-    console.error('Error rescheduling meeting:', error);
-    return false;
+  const name = userMessage.trim();
+  if (/^[a-z][a-z .'-]*$/i.test(name)) {
+    const matches = await resolveContact(userId, name);
+    if (matches.length === 1) {
+      state.details.contactName = undefined;
+      state.details.contactOptions = undefined;
+      return matches[0].email;
+    }
+    state.details.contactName = formatName(name);
+    state.details.contactOptions = matches.length ?
+      matches.map(contact => ({ name: contact.name, email: contact.email })) :
+      undefined;
+    await ctx.reply(attendeeQuestion(state), contactKeyboard(state));
+    return null;
   }
+
+  await ctx.reply(
+    "Please provide a valid email address (e.g., name@domain.com) or a contact's name\n\n" +
+    "Or type 'cancel' to stop scheduling."
+  );
+  return null;
 }
 
-async function cancelMeeting(userId: number, meetingId: string): Promise<boolean> {
-  try {
-    const userToken = userTokens.get(userId.toString());
-    if (!userToken) return false;
+const KEEP_BOOKING_LABEL = '📌 Keep my time';
+const POLL_LABEL = '📊 Poll these times';
 
-    oauth2Client.setCredentials(userToken);
-    const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
+function alternativeSlots(state: MeetingState): Date[] {
+  return (state.details.alternatives || []).map(slot => new Date(slot));
+}
 
-    await calendar.events.delete({
-      calendarId: 'primary',
-      eventId: meetingId,
-      sendUpdates: 'all'
-    });
+// Whole-message match, so "yesterday" or "yes, but at 3pm" don't count as a plain yes
+function isAffirmative(userMessage: string): boolean {
+  return /^(y|yes|yeah|yep|yup|sure|ok|okay|confirm|confirmed|correct|go ahead|do it|sounds good)[\s.!]*$/i
+    .test(userMessage.trim());
+}
 
-    return true;
-  } catch (error) {
-    console.error('Error canceling meeting:', error);
-    return false;
+// Buttons offered alongside a wizard question; typing the answer keeps working too
+async function getStepKeyboard(userId: number, step: MeetingState['step'], timeZone: string, state?: MeetingState) {
+  switch (step) {
+    case 'email':
+      return state ? contactKeyboard(state) : undefined;
+    case 'date':
+      return currentMonthKeyboard(timeZone);
+    case 'time': {
+      const workingHours = (await getUserPreferences(userId)).workingHours || DEFAULT_WORKING_HOURS;
+      return timeSlotKeyboard(workingHours.start, workingHours.end);
+    }
+    case 'duration':
+      return durationKeyboard();
+    case 'title':
+    case 'description':
+      return skipKeyboard();
+    case 'location':
+      return locationKeyboard();
+    case 'confirm':
+      return confirmKeyboard();
+    default:
+      return undefined;
   }
 }
 
-interface UpdateMeetingState {
-  step: 'find_meeting' | 'new_time' | 'new_date' | 'new_description' | 'confirm';
-  action: 'update' | 'reschedule' | 'cancel';
-  details: {
-    meetingId?: string;
-    newTime?: string;
-    newDate?: Date;
-    newDescription?: string;
-    currentMeeting?: any;
-  };
+// Resolves a reply to a conflict warning: a numbered alternative, 'keep' for the original time, or null
+function pickAlternative(userMessage: string, state: MeetingState): Date | 'keep' | null {
+  if (/\b(keep|anyway|original)\b/i.test(userMessage)) return 'keep';
+  const choice = parseInt(userMessage);
+  const alternatives = state.details.alternatives || [];
+  if (isNaN(choice) || choice < 1 || choice > alternatives.length) return null;
+  return new Date(alternatives[choice - 1]);
 }
 
-async function handleUpdateRequest(ctx: BotContext, userId: number, userMessage: string): Promise<void> {
-  try {
-    const meetings = await listUpcomingEvents(userId, 1);
-    
-    if (meetings.length === 0) {
-      await ctx.reply("I couldn't find any meetings scheduled for today.");
-      return;
-    }
-
-    // Extract time from request if present
-    const timeMatch = userMessage.match(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)/i);
-    const newTime = timeMatch ? extractTime(timeMatch[0]) : null;
+const VIDEO_ANSWER = /^(google meet|meet|video|video call|online)$/i;
 
-    // Find the meeting with Susmitha (or mentioned attendee)
-    const meeting = meetings.find((m: CalendarEvent) => 
-      m.attendees?.some((a: { email: string }) => a.email.toLowerCase().includes('susmitha')) ||
-      m.summary?.toLowerCase().includes('susmitha')
-    );
+function isSkip(userMessage: string): boolean {
+  return userMessage.trim().toLowerCase() === 'skip';
+}
 
-    if (!meeting) {
-      await ctx.reply("I couldn't find a meeting with that person today.");
-      return;
-    }
+// Title, place and description are optional. Each is asked once, in that order; a skipped
+// title or place is stored as '' so it isn't asked again.
+async function askNextDetail(ctx: BotContext, userId: number, state: MeetingState, timeZone: string): Promise<void> {
+  if (state.details.title === undefined) state.step = 'title';
+  // A blocked-off day only needs a name
+  else if (state.details.allDay) return promptConfirmation(ctx, userId, state, timeZone);
+  else if (state.details.location === undefined && !state.details.conference) state.step = 'location';
+  else state.step = 'description';
+
+  await ctx.reply(
+    MEETING_STEP_QUESTIONS[state.step] + "\n\nOr type 'cancel' to stop scheduling.",
+    await getStepKeyboard(userId, state.step, timeZone, state)
+  );
+}
 
-    // Handle different update types
-    if (userMessage.toLowerCase().includes('cancel')) {
-      const success = await cancelMeeting(userId, meeting.id);
-      if (success) {
-        await ctx.reply("✅ Meeting has been cancelled and attendees have been notified.");
-      } else {
-        await ctx.reply("❌ Sorry, I couldn't cancel the meeting. Please try again.");
-      }
-    } else if (newTime) {
-      // Update meeting time
-      const currentDate = new Date(meeting.start.dateTime);
-      const [hours, minutes] = newTime.split(':');
-      const newDateTime = new Date(currentDate);
-      newDateTime.setHours(parseInt(hours), parseInt(minutes));
-
-      const success = await rescheduleMeeting(userId, meeting.id, newDateTime);
-      if (success) {
-        await ctx.reply(
-          "✅ Meeting time updated successfully!\n\n" +
-          `New time: ${newDateTime.toLocaleTimeString()}\n` +
-          "All attendees have been notified."
-        );
-      } else {
-        await ctx.reply("❌ Sorry, I couldn't update the meeting time. Please try again.");
-      }
-    } else {
-      await ctx.reply(
-        "What would you like to update?\n" +
-        "• Say a new time (e.g., 'move to 2:30 PM')\n" +
-        "• Say 'cancel' to cancel the meeting\n" +
-        "• Say 'description' to update the description"
-      );
-    }
-  } catch (error) {
-    console.error('Error updating meeting:', error);
-    await ctx.reply("Sorry, I encountered an error while updating the meeting.");
-  }
+// A meeting clashes with anything on its own calendar or on the calendars merged into listings
+async function getClashCalendarIds(userId: number, calendarId: string = PRIMARY_CALENDAR.id): Promise<string[]> {
+  const listed = (await getListedCalendars(userId)).map(calendar => calendar.id);
+  return Array.from(new Set([calendarId, ...listed]));
 }
 
-// Add this new function
-async function handleCancelRequest(ctx: BotContext, userId: number, userMessage: string): Promise<void> {
-  try {
-    if (!isUserAuthorized(userId)) {
-      const authUrl = await startAuthProcess(userId);
+// Checks free/busy before asking for the final confirmation, so double-bookings get flagged
+async function promptConfirmation(ctx: BotContext, userId: number, state: MeetingState, timeZone: string): Promise<void> {
+  if (isUserAuthorized(userId) && state.details.date && state.details.time && state.details.duration) {
+    const [hours, minutes] = state.details.time.split(':');
+    const start = atTime(state.details.date, parseInt(hours), parseInt(minutes), timeZone);
+    const end = new Date(start.getTime() + state.details.duration * 60000);
+    const availability = await checkAvailability(
+      userId, start, end, undefined, await getClashCalendarIds(userId, state.details.calendarId)
+    );
+
+    if (availability.isBusy) {
+      state.step = 'resolve_conflict';
+      state.details.alternatives = availability.alternatives;
       await ctx.reply(
-        "I need access to your calendar first. Please click this link to authorize:\n\n" +
-        authUrl + "\n\n" +
-        "After authorizing, come back and try again."
+        formatConflictWarning(availability, timeZone) + "\n" +
+        (availability.alternatives.length ? "Reply with a slot number to use it instead, " : "Reply ") +
+        "'keep' to book your original time anyway, or 'cancel' to stop scheduling.",
+        slotKeyboard(availability.alternatives, timeZone, KEEP_BOOKING_LABEL)
       );
       return;
     }
+  }
 
-    // Extract date from message to find meetings to cancel
-    const today = new Date();
-    let targetDate = today;
+  state.step = 'confirm';
+  await ctx.reply(buildConfirmationMessage(state, timeZone), confirmKeyboard());
+}
 
-    if (userMessage.toLowerCase().includes('tomorrow')) {
-      targetDate = new Date(today);
-      targetDate.setDate(today.getDate() + 1);
-    } else if (userMessage.includes('today')) {
-      targetDate = today;
-    }
+// Walks the user through reconnecting when Google rejected the stored refresh token.
+// Wizard state is kept so they can pick up where they left off afterwards.
+async function handleReauthorization(ctx: BotContext, userId: number, error: unknown): Promise<boolean> {
+  if (!(error instanceof ReauthorizationRequiredError)) return false;
+  if (isGroupChat(ctx)) {
+    await ctx.reply("⚠️ I lost access to your Google Calendar. Please reconnect it in a private chat with me.");
+    return true;
+  }
 
-    // Set time range for the target date
-    targetDate.setHours(0, 0, 0, 0);
-    const endDate = new Date(targetDate);
-    endDate.setHours(23, 59, 59, 999);
+  const authUrl = await startAuthProcess(userId, ctx.chat?.id);
+  await ctx.reply(
+    "⚠️ I lost access to your Google Calendar - the permission was revoked or has expired.\n\n" +
+    "Please reconnect it using this link:\n\n" +
+    authUrl + "\n\n" +
+    "I'll let you know here once it's done, and then you can try again."
+  );
+  return true;
+}
 
-    // Get meetings for the target date
-    const meetings = await listUpcomingEvents(userId, 1, targetDate, endDate);
+function parseOptions(timeZone: string): ParseOptions {
+  return { now: currentTime(), timeZone };
+}
 
-    if (!meetings || meetings.length === 0) {
-      await ctx.reply(`No meetings found for ${targetDate.toLocaleDateString()}! 📅`);
-      return;
-    }
+// A day from today on that the text mentions. Ambiguous phrases take their likelier reading.
+function parseDateInput(input: string, timeZone: string): Date | null {
+  const date = bestGuess(parseDate(input, parseOptions(timeZone)));
+  return date && isValidFutureDate(date, timeZone) ? date : null;
+}
 
-    // If there's only one meeting, ask for confirmation to cancel it
-    if (meetings.length === 1) {
-      const meeting = meetings[0];
-      const startTime = new Date(meeting.start.dateTime);
-      await ctx.reply(
-        `I found this meeting:\n\n` +
-        `📅 Date: ${startTime.toLocaleDateString()}\n` +
-        `⏰ Time: ${startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}\n` +
-        `📌 ${meeting.summary || 'Untitled Meeting'}\n` +
-        (meeting.attendees?.length ? `👥 With: ${meeting.attendees.map(a => a.email).join(', ')}\n` : '') +
-        `\nWould you like me to cancel this meeting? (Yes/No)`
-      );
-      // Store the meeting ID for cancellation
-      userMeetingStates.set(userId, {
-        step: 'confirm_cancel',
-        details: {
-          date: targetDate,
-          meetingId: meeting.id,
-          time: startTime.toLocaleTimeString(),
-          attendees: meeting.attendees?.map(a => a.email) || [],
-          description: meeting.description
-        }
-      });
-    } else {
-      // If there are multiple meetings, list them and ask which one to cancel
-      let response = `I found ${meetings.length} meetings for ${targetDate.toLocaleDateString()}. Which one would you like to cancel?\n\n`;
-      
-      meetings.forEach((meeting, index) => {
-        const startTime = new Date(meeting.start.dateTime);
-        response += `${index + 1}. ⏰ ${startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} - ${meeting.summary || 'Untitled Meeting'}\n`;
-      });
-      
-      response += '\nPlease reply with the number of the meeting you want to cancel.';
-      
-      await ctx.reply(response);
-      
-      // Store the meetings for selection
-      userMeetingStates.set(userId, {
-        step: 'select_cancel',
-        details: {
-          date: targetDate,
-          meetings: meetings,
-          time: undefined,
-          attendees: [],
-          description: undefined
-        }
-      });
-    }
-  } catch (error) {
-    console.error('Error in handleCancelRequest:', error);
-    await ctx.reply("❌ Error processing cancellation request. Please try again.");
-  }
+// The days a message talks about ("tomorrow", "next week", "Mon to Wed"), or null if none
+function parseDayRange(message: string, timeZone: string): { start: Date; end: Date } | null {
+  return bestGuess(parseDateRange(message, parseOptions(timeZone)));
 }
 
-// Update the handleMessage function
-export async function handleMessage(ctx: BotContext) {
-  if (!ctx.message || !('text' in ctx.message)) return;
+function clockLabel(time: string, timeZone: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  return formatTime(atTime(currentTime(), hours, minutes, timeZone), timeZone);
+}
 
-  const userId = ctx.from?.id;
-  if (!userId) return;
+function rangeLength(range: TimeRange): number {
+  const minutes = (time: string) => parseInt(time.slice(0, 2)) * 60 + parseInt(time.slice(3));
+  return minutes(range.end) - minutes(range.start);
+}
 
-  const userMessage = ctx.message.text.trim();
-  
-  try {
-    const state = userMeetingStates.get(userId);
+// Reads a start time, plus a length for ranges like "2-3:30pm". When the answer could mean
+// more than one time, asks which one and returns 'asked'.
+async function readTimeAnswer(
+  ctx: BotContext,
+  userMessage: string,
+  timeZone: string
+): Promise<{ time: string; duration?: number } | 'asked' | null> {
+  const range = parseTimeRange(userMessage);
+  if (range.status === 'ok') return { time: range.value.start, duration: rangeLength(range.value) };
+  if (range.status === 'ambiguous') {
+    const labels = range.options.map(option => `${clockLabel(option.start, timeZone)}–${clockLabel(option.end, timeZone)}`);
+    await ctx.reply(`Did you mean ${labels.join(' or ')}? 🤔`, clarifyKeyboard(range.options.map((option, index) =>
+      ({ label: labels[index], input: `${option.start}-${option.end}` }))));
+    return 'asked';
+  }
 
-    // First, check if this is a meeting request or if we're in the middle of scheduling
-    if (isMeetingRequest(userMessage) || state) {
-      await handleMeetingRequest(ctx, userId, userMessage);
-      return;
-    }
+  const time = parseTime(userMessage);
+  if (time.status === 'ok') return { time: time.value };
+  if (time.status === 'ambiguous') {
+    const labels = time.options.map(option => clockLabel(option, timeZone));
+    await ctx.reply(`Did you mean ${labels.join(' or ')}? 🤔`, clarifyKeyboard(time.options.map((option, index) =>
+      ({ label: labels[index], input: option }))));
+    return 'asked';
+  }
+  return null;
+}
 
-    // Check for cancellation requests
-    if (userMessage.toLowerCase().match(/\b(cancel|delete)\b.*\b(meeting|appointment)\b/)) {
-      await handleCancelRequest(ctx, userId, userMessage);
-      return;
-    }
+// Like parseDateInput, but asks which day was meant when the answer could be either
+// ("next Friday" early in the week) and returns 'asked'
+async function readDateAnswer(ctx: BotContext, userMessage: string, timeZone: string): Promise<Date | 'asked' | null> {
+  const result = parseDate(userMessage, parseOptions(timeZone));
+  if (result.status === 'ambiguous') {
+    const labels = result.options.map(day => formatDate(day, timeZone, { weekday: 'short', month: 'short', day: 'numeric' }));
+    await ctx.reply(`Did you mean ${labels.join(' or ')}? 🤔`, clarifyKeyboard(result.options.map((day, index) => {
+      const { year, month, day: dayOfMonth } = getZonedParts(day, timeZone);
+      return { label: labels[index], input: `${dayOfMonth}-${month}-${year}` };
+    })));
+    return 'asked';
+  }
+  return result.status === 'ok' && isValidFutureDate(result.value, timeZone) ? result.value : null;
+}
+
+function isValidFutureDate(date: Date, timeZone: string): boolean {
+  return date >= startOfDay(currentTime(), timeZone);
+}
+
+function validateEmail(email: string): string | null {
+  const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+  return emailRegex.test(email) ? email : null;
+}
+
+const FIELD_LABELS: Record<EditableField, string> = {
+  title: '📌 Title',
+  description: '📝 Description',
+  location: '📍 Location',
+  date: '📅 Date',
+  time: '⏰ Time',
+  duration: '⏱️ Duration',
+  attendees: '👥 Attendees'
+};
+const EDITABLE_FIELDS = Object.keys(FIELD_LABELS) as EditableField[];
+
+const FIELD_STEPS: Record<EditableField, UpdateMeetingState['step']> = {
+  title: 'new_title',
+  description: 'new_description',
+  location: 'new_location',
+  date: 'new_date',
+  time: 'new_time',
+  duration: 'new_duration',
+  attendees: 'new_attendees'
+};
+
+function isMoveRequest(message: string): boolean {
+  return /\b(move|reschedule|postpone|push|shift)\b/i.test(message) || /\b(time|date|day)\b.*\bto\b/i.test(message);
+}
+
+function parseEditableField(message: string): EditableField | null {
+  const lower = message.toLowerCase().trim();
+  const number = lower.match(/^(\d)[.)]?$/);
+  if (number) return EDITABLE_FIELDS[parseInt(number[1]) - 1] || null;
+  if (/\b(title|name|rename|subject)\b/.test(lower)) return 'title';
+  if (/\b(description|notes?|agenda)\b/.test(lower)) return 'description';
+  if (/\b(location|place|where|room|venue|address)\b/.test(lower)) return 'location';
+  if (/\b(duration|length|longer|shorter|how long)\b/.test(lower)) return 'duration';
+  if (/\b(attendees?|guests?|people|invite|invitees?|participants?)\b/.test(lower)) return 'attendees';
+  if (/\b(date|day)\b/.test(lower)) return 'date';
+  if (/\b(time|start|earlier|later)\b/.test(lower)) return 'time';
+  return null;
+}
+
+// Narrows meetings by the time, attendee ("with bob") or title a message mentions
+function filterMeetings(meetings: CalendarEvent[], message: string, timeZone: string): CalendarEvent[] {
+  let matches = meetings;
+
+  const time = extractExplicitTime(message);
+  if (time) {
+    matches = matches.filter(meeting => toWallClockTime(new Date(meeting.start.dateTime), timeZone) === time);
+  }
+
+  const name = message.match(/\bwith\s+([a-z][\w.@+-]*)/i)?.[1].toLowerCase();
+  if (name && name.length > 2 && !NAME_STOPWORDS.includes(name)) {
+    matches = matches.filter(meeting =>
+      meeting.attendees?.some(attendee => attendee.email.toLowerCase().includes(name)) ||
+      meeting.summary?.toLowerCase().includes(name));
+  }
+
+  const lower = message.toLowerCase();
+  const quoted = message.match(/["“]([^"”]+)["”]/)?.[1].toLowerCase();
+  const byTitle = matches.filter(meeting => {
+    const summary = meeting.summary?.toLowerCase();
+    return !!summary && (quoted ? summary.includes(quoted) : lower.includes(summary));
+  });
+  if (quoted || byTitle.length) matches = byTitle;
+
+  return matches;
+}
+
+function getMeetingDuration(meeting: CalendarEvent): number {
+  const start = new Date(meeting.start.dateTime).getTime();
+  return Math.round((new Date(meeting.end.dateTime).getTime() - start) / 60000);
+}
+
+function parseDurationInput(message: string): number | null {
+  const match = message.match(/(\d+(?:\.\d+)?)\s*(h|hr|hrs|hours?|m|min|mins|minutes?)?\b/i);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  const minutes = match[2] && match[2].toLowerCase().startsWith('h') ? Math.round(amount * 60) : Math.round(amount);
+  return minutes > 0 && minutes <= 480 ? minutes : null;
+}
+
+// "add x@y.com", "remove x@y.com" or a full replacement list
+function applyAttendeeChange(message: string, current: string[]): string[] | null {
+  const emails = (message.match(/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g) || []).map(email => email.toLowerCase());
+  if (!emails.length) return null;
+  if (/\b(remove|drop|delete|without)\b/i.test(message)) {
+    return current.filter(email => !emails.includes(email.toLowerCase()));
+  }
+  if (/\b(add|invite|include|also)\b/i.test(message)) {
+    return Array.from(new Set([...current, ...emails]));
+  }
+  return emails;
+}
+
+interface MeetingSnapshot {
+  title: string;
+  description: string;
+  location: string;
+  start: Date;
+  duration: number;
+  attendees: string[];
+}
+
+function snapshotMeeting(meeting: CalendarEvent): MeetingSnapshot {
+  return {
+    title: meeting.summary || 'Untitled Meeting',
+    description: meeting.description || '',
+    location: meeting.location || '',
+    start: new Date(meeting.start.dateTime),
+    duration: getMeetingDuration(meeting),
+    attendees: meeting.attendees?.map(attendee => attendee.email) || []
+  };
+}
+
+// The meeting as it will look once the pending changes are saved
+function applyPendingChanges(state: UpdateMeetingState, timeZone: string): MeetingSnapshot {
+  const before = snapshotMeeting(state.details.currentMeeting!);
+  const { newTitle, newDescription, newLocation, newDate, newTime, newDuration, newAttendees } = state.details;
+  const [hours, minutes] = (newTime || toWallClockTime(before.start, timeZone)).split(':');
+
+  return {
+    title: newTitle ?? before.title,
+    description: newDescription ?? before.description,
+    location: newLocation ?? before.location,
+    start: atTime(newDate ? new Date(newDate) : before.start, parseInt(hours), parseInt(minutes), timeZone),
+    duration: newDuration ?? before.duration,
+    attendees: newAttendees ?? before.attendees
+  };
+}
+
+function describeChanges(before: MeetingSnapshot, after: MeetingSnapshot, timeZone: string): string[] {
+  const changes: string[] = [];
+  const line = (field: EditableField, from: string, to: string) => {
+    if (from !== to) changes.push(`${FIELD_LABELS[field]}: ${from || '(none)'} → ${to || '(none)'}`);
+  };
+
+  line('title', before.title, after.title);
+  line('description', before.description, after.description);
+  line('location', before.location, after.location);
+  line('date', formatDate(before.start, timeZone), formatDate(after.start, timeZone));
+  line('time', formatTime(before.start, timeZone), formatTime(after.start, timeZone));
+  line('duration', `${before.duration} minutes`, `${after.duration} minutes`);
+  line('attendees', before.attendees.join(', '), after.attendees.join(', '));
+  return changes;
+}
+
+async function askForField(ctx: BotContext, userId: number, state: UpdateMeetingState): Promise<void> {
+  const meeting = state.details.currentMeeting!;
+  const timeZone = await getUserTimeZone(userId);
+  state.step = 'choose_field';
+  await ctx.reply(
+    `✏️ Editing: ${meeting.summary || 'Untitled Meeting'} (${describeMeetingTime(meeting, timeZone)})\n\n` +
+    "What would you like to change?\n\n" +
+    EDITABLE_FIELDS.map((field, index) => `${index + 1}. ${FIELD_LABELS[field]}`).join('\n') +
+    "\n\nReply with a number or the field name, or 'cancel' to stop.",
+    choiceKeyboard(EDITABLE_FIELDS.map(field => FIELD_LABELS[field]))
+  );
+}
+
+async function askForValue(ctx: BotContext, userId: number, state: UpdateMeetingState, field: EditableField): Promise<void> {
+  const meeting = state.details.currentMeeting!;
+  const timeZone = await getUserTimeZone(userId);
+  const before = snapshotMeeting(meeting);
+  state.step = FIELD_STEPS[field];
 
-    // Check for list/view requests
-    if (userMessage.toLowerCase().match(/\b(check|list|show|view|get)\b.*\b(meetings|schedule|calendar)\b/)) {
-      await handleListMeetingsRequest(ctx, userId);
+  switch (field) {
+    case 'title':
+      await ctx.reply(`The title is "${before.title}". What should the new title be?`);
+      break;
+    case 'description':
+      await ctx.reply(
+        before.description ?
+          `The description is:\n\n${before.description}\n\nWhat should it say instead? (Type 'none' to remove it)` :
+          "The meeting has no description yet. What should it say?"
+      );
+      break;
+    case 'location':
+      await ctx.reply(
+        before.location ?
+          `It's at ${before.location}. Where should it be instead? (Type 'none' to remove it)` :
+          "The meeting has no location yet. Where should it be?"
+      );
+      break;
+    case 'date':
+      await ctx.reply(
+        `It's on ${formatDate(before.start, timeZone)}. Which day should it move to? (e.g., tomorrow, next Friday, 25-03)`,
+        currentMonthKeyboard(timeZone)
+      );
+      break;
+    case 'time':
+      await ctx.reply(
+        `It starts at ${formatTime(before.start, timeZone)}. What time should it start instead?`,
+        await getStepKeyboard(userId, 'time', timeZone)
+      );
+      break;
+    case 'duration':
+      await ctx.reply(`It's ${before.duration} minutes long. How long should it be?`, durationKeyboard());
+      break;
+    case 'attendees':
+      await ctx.reply(
+        `👥 Current attendees: ${before.attendees.join(', ') || 'none'}\n\n` +
+        "Send 'add name@domain.com' or 'remove name@domain.com', or a new list of emails to replace them."
+      );
+      break;
+  }
+}
+
+// Shows the before/after diff, flagging clashes when the time moves
+async function showUpdateSummary(ctx: BotContext, userId: number, state: UpdateMeetingState): Promise<void> {
+  const timeZone = await getUserTimeZone(userId);
+  const meeting = state.details.currentMeeting!;
+  const before = snapshotMeeting(meeting);
+  const after = applyPendingChanges(state, timeZone);
+  const changes = describeChanges(before, after, timeZone);
+
+  if (!changes.length) {
+    await ctx.reply("That's the same as before, so there's nothing to change.");
+    await askForField(ctx, userId, state);
+    return;
+  }
+
+  state.step = 'confirm';
+  state.details.alternatives = undefined;
+  let message = "Here's what will change:\n\n" + changes.join('\n') + "\n";
+
+  const timeChanged = after.start.getTime() !== before.start.getTime() || after.duration !== before.duration;
+  if (timeChanged) {
+    const end = new Date(after.start.getTime() + after.duration * 60000);
+    const availability = await checkAvailability(
+      userId, after.start, end, meeting.id, await getClashCalendarIds(userId, meeting.calendarId)
+    );
+    if (availability.isBusy) {
+      state.details.alternatives = availability.alternatives;
+      message += "\n" + formatConflictWarning(availability, timeZone) + "\n" +
+        (availability.alternatives.length ? "Reply with a slot number to use it instead, " : "Reply ") +
+        "'yes' to save anyway, 'more' to change something else, or 'cancel' to keep the meeting as it is.";
+      await ctx.reply(message, slotKeyboard(availability.alternatives, timeZone, '💾 Save anyway'));
       return;
     }
+  }
+
+  message += "\nSave these changes? (Yes/No) You can also say 'more' to change something else.";
+  await ctx.reply(message, editConfirmKeyboard());
+}
+
+async function saveMeetingChanges(ctx: BotContext, userId: number, state: UpdateMeetingState): Promise<void> {
+  const timeZone = await getUserTimeZone(userId);
+  const meeting = state.details.currentMeeting!;
+  const before = snapshotMeeting(meeting);
+  const after = applyPendingChanges(state, timeZone);
+  const { newTitle, newDescription, newLocation, newDuration, newAttendees } = state.details;
+  await userUpdateStates.delete(stateKey(ctx, userId));
+
+  // Moving an occurrence of a series goes through the scope question first
+  const onlyMoved = newTitle === undefined && newDescription === undefined && newLocation === undefined &&
+    newDuration === undefined && newAttendees === undefined;
+  if (meeting.recurringEventId && onlyMoved) {
+    const scopeState: MeetingState = {
+      step: 'choose_scope',
+      details: {
+        date: after.start,
+        meetingId: meeting.id,
+        calendarId: meeting.calendarId,
+        attendees: [],
+        recurringEventId: meeting.recurringEventId,
+        pendingAction: 'reschedule'
+      }
+    };
+    await promptRecurrenceScope(ctx, scopeState);
+    await userMeetingStates.set(stateKey(ctx, userId), scopeState);
+    return;
+  }
 
-    // Check for update/reschedule requests
-    if (userMessage.toLowerCase().match(/\b(update|change|move|postpone|reschedule)\b/)) {
-      await handleUpdateRequest(ctx, userId, userMessage);
+  const moved = after.start.getTime() !== before.start.getTime() || after.duration !== before.duration;
+  const success = await updateMeeting(userId, meeting.id, {
+    summary: newTitle,
+    description: newDescription,
+    location: newLocation,
+    attendees: newAttendees,
+    startTime: moved ? after.start : undefined,
+    endTime: moved ? new Date(after.start.getTime() + after.duration * 60000) : undefined
+  }, meeting.calendarId);
+
+  await ctx.reply(success ?
+    "✅ Meeting updated successfully!\n\n" +
+    describeChanges(before, after, timeZone).join('\n') + "\n\n" +
+    (meeting.recurringEventId ? "Only this occurrence was changed. " : "") +
+    "All attendees have been notified." :
+    "❌ Sorry, I couldn't update the meeting. Please try again."
+  );
+}
+
+// Reads what the original request already says about the change, e.g. "move my 3pm to 4pm"
+function applyRequestedChange(state: UpdateMeetingState, userMessage: string, timeZone: string): void {
+  if (!isMoveRequest(userMessage)) {
+    state.details.field = parseEditableField(userMessage) || undefined;
+    return;
+  }
+
+  const target = userMessage.split(/\bto\b/i).slice(1).join(' to ');
+  const newTime = target ? extractExplicitTime(target) : null;
+  const newDate = target ? parseDateInput(target, timeZone) : null;
+  if (newTime) state.details.newTime = newTime;
+  if (newDate) state.details.newDate = newDate;
+  if (!newTime && !newDate) state.details.field = 'date';
+}
+
+async function continueUpdateWizard(ctx: BotContext, userId: number, state: UpdateMeetingState): Promise<void> {
+  const field = state.details.field;
+  state.details.field = undefined;
+
+  if (state.details.newTime || state.details.newDate) {
+    await showUpdateSummary(ctx, userId, state);
+  } else if (field) {
+    await askForValue(ctx, userId, state, field);
+  } else {
+    await askForField(ctx, userId, state);
+  }
+}
+
+async function handleUpdateRequest(
+  ctx: BotContext,
+  userId: number,
+  userMessage: string,
+  action: UpdateMeetingState['action'] = 'update'
+): Promise<void> {
+  try {
+    const timeZone = await getUserTimeZone(userId);
+    let state = await userUpdateStates.get(stateKey(ctx, userId));
+
+    if (state && STOP_REPLY_PATTERN.test(userMessage.trim())) {
+      await userUpdateStates.delete(stateKey(ctx, userId));
+      await ctx.reply(getStopReply());
       return;
     }
 
-    // If none of the above, handle as chat
-    const response = await handleChat(userId, userMessage);
-    await ctx.reply(response);
+    if (!state) {
+      if (!isUserAuthorized(userId)) {
+        const authUrl = await startAuthProcess(userId, ctx.chat?.id);
+        await ctx.reply(
+          "I need access to your calendar first. Please click this link to authorize:\n\n" +
+          authUrl + "\n\n" +
+          "After authorizing, come back and try again."
+        );
+        return;
+      }
+
+      // The meeting is described before "to" in "move my 3pm meeting to 4pm"
+      const description = isMoveRequest(userMessage) ? userMessage.split(/\bto\b/i)[0] : userMessage;
+      const today = startOfDay(currentTime(), timeZone);
+      const range = parseDayRange(description, timeZone) ||
+        { start: today, end: endOfDay(addDays(today, 6, timeZone), timeZone) };
+      const now = currentTime();
+      const upcoming = (await listUpcomingEvents(userId, 1, range.start, range.end))
+        .filter(meeting => new Date(meeting.end.dateTime) > now);
+      const candidates = filterMeetings(upcoming, description, timeZone);
+
+      if (!candidates.length) {
+        await ctx.reply(`I couldn't find a matching meeting for ${formatDateRange(range, timeZone)}. 🤔`);
+        return;
+      }
+
+      state = { step: 'find_meeting', action, details: {} };
+      applyRequestedChange(state, userMessage, timeZone);
+      await userMeetingStates.delete(stateKey(ctx, userId));
+
+      if (candidates.length > 1) {
+        state.details.candidates = candidates;
+        let response = `I found ${candidates.length} meetings for ${formatDateRange(range, timeZone)}. Which one should I change?\n\n`;
+        candidates.forEach((meeting, index) => {
+          response += `${index + 1}. ⏰ ${describeMeetingTime(meeting, timeZone)} - ${meeting.summary || 'Untitled Meeting'}\n`;
+        });
+        await userUpdateStates.set(stateKey(ctx, userId), state);
+        await ctx.reply(response + "\nReply with a number or start time.", cancelChoiceKeyboard(candidates, timeZone));
+        return;
+      }
+
+      state.details.meetingId = candidates[0].id;
+      state.details.currentMeeting = candidates[0];
+      await continueUpdateWizard(ctx, userId, state);
+      await userUpdateStates.set(stateKey(ctx, userId), state);
+      return;
+    }
+
+    switch (state.step) {
+      case 'find_meeting': {
+        const meeting = pickMeeting(userMessage, state.details.candidates || [], timeZone);
+        if (!meeting) {
+          await ctx.reply(
+            "I couldn't tell which meeting you mean. Please reply with its number or start time, or 'cancel' to stop.",
+            cancelChoiceKeyboard(state.details.candidates || [], timeZone)
+          );
+          return;
+        }
+        state.details.meetingId = meeting.id;
+        state.details.currentMeeting = meeting;
+        state.details.candidates = undefined;
+        await continueUpdateWizard(ctx, userId, state);
+        break;
+      }
+
+      case 'choose_field': {
+        const field = parseEditableField(userMessage);
+        if (!field) {
+          await ctx.reply("Please pick one of the fields above, or 'cancel' to stop.");
+          return;
+        }
+        await askForValue(ctx, userId, state, field);
+        break;
+      }
+
+      case 'new_title':
+        state.details.newTitle = userMessage.trim();
+        await showUpdateSummary(ctx, userId, state);
+        break;
+
+      case 'new_description':
+        state.details.newDescription = /^none$/i.test(userMessage.trim()) ? '' : userMessage.trim();
+        await showUpdateSummary(ctx, userId, state);
+        break;
+
+      case 'new_location':
+        state.details.newLocation = /^none$/i.test(userMessage.trim()) ? '' : userMessage.trim();
+        await showUpdateSummary(ctx, userId, state);
+        break;
+
+      case 'new_date': {
+        const newDate = await readDateAnswer(ctx, userMessage, timeZone);
+        if (newDate === 'asked') return;
+        if (!newDate) {
+          await ctx.reply(
+            "I couldn't understand that date. Try something like 'tomorrow', 'next Friday' or '25-03'.",
+            currentMonthKeyboard(timeZone)
+          );
+          return;
+        }
+        state.details.newDate = newDate;
+        await showUpdateSummary(ctx, userId, state);
+        break;
+      }
 
+      case 'new_time': {
+        const newTime = await readTimeAnswer(ctx, userMessage, timeZone);
+        if (newTime === 'asked') return;
+        if (!newTime) {
+          await ctx.reply(
+            "Please provide a valid time like 2:30 PM or 14:30.",
+            await getStepKeyboard(userId, 'time', timeZone)
+          );
+          return;
+        }
+        state.details.newTime = newTime.time;
+        if (newTime.duration) state.details.newDuration = newTime.duration;
+        await showUpdateSummary(ctx, userId, state);
+        break;
+      }
+
+      case 'new_duration': {
+        const newDuration = parseDurationInput(userMessage);
+        if (!newDuration) {
+          await ctx.reply("Please give a duration between 1 and 480 minutes, e.g. '45' or '1.5 hours'.", durationKeyboard());
+          return;
+        }
+        state.details.newDuration = newDuration;
+        await showUpdateSummary(ctx, userId, state);
+        break;
+      }
+
+      case 'new_attendees': {
+        const current = state.details.newAttendees || snapshotMeeting(state.details.currentMeeting!).attendees;
+        const attendees = applyAttendeeChange(userMessage, current);
+        if (!attendees) {
+          await ctx.reply("I couldn't find any email addresses in that. Try 'add name@domain.com'.");
+          return;
+        }
+        state.details.newAttendees = attendees;
+        await showUpdateSummary(ctx, userId, state);
+        break;
+      }
+
+      case 'confirm': {
+        if (/^(more|change more|something else)[\s.!]*$/i.test(userMessage.trim())) {
+          await askForField(ctx, userId, state);
+          break;
+        }
+
+        const choice = parseInt(userMessage);
+        const alternatives = state.details.alternatives || [];
+        if (choice >= 1 && choice <= alternatives.length) {
+          const slot = new Date(alternatives[choice - 1]);
+          state.details.newDate = startOfDay(slot, timeZone);
+          state.details.newTime = toWallClockTime(slot, timeZone);
+          await showUpdateSummary(ctx, userId, state);
+          break;
+        }
+
+        if (isAffirmative(userMessage) || /^keep$/i.test(userMessage.trim())) {
+          await saveMeetingChanges(ctx, userId, state);
+          return;
+        }
+
+        await ctx.reply("Please reply 'yes' to save, 'more' to change something else, or 'cancel' to keep the meeting as it is.");
+        return;
+      }
+    }
+
+    await userUpdateStates.set(stateKey(ctx, userId), state);
   } catch (error) {
-    console.error('Error:', error);
-    await ctx.reply("I encountered an error. Let me know if you'd like to try again!");
+    if (await handleReauthorization(ctx, userId, error)) return;
+    console.error('Error updating meeting:', error);
+    await ctx.reply("Sorry, I encountered an error while updating the meeting.");
+    await userUpdateStates.delete(stateKey(ctx, userId));
   }
 }
 
-function isMeetingRequest(message: string): boolean {
-  const meetingKeywords = [
-    /\b(schedule|set\s*up|book|arrange|plan)\b/i,
-    /\b(update|change|modify)\b/i,
-    /\b(reschedule|move|postpone)\b/i,
-    /\b(cancel|delete)\b/i,
-    /\bmeeting\b/i,
-    /\bcall\b/i,
-    /\bappointment\b/i,
-  ];
-  return meetingKeywords.some(pattern => pattern.test(message));
+function describeMeetingTime(meeting: CalendarEvent, timeZone: string): string {
+  const start = new Date(meeting.start.dateTime);
+  return `${formatDate(start, timeZone, { weekday: 'short', month: 'short', day: 'numeric' })} ` +
+    (meeting.allDay ? 'all day' : formatTime(start, timeZone));
 }
 
-// Add a cleanup function to remove stale conversations
-setInterval(() => {
-  const now = Date.now();
-  for (const [userId, conversation] of conversations.entries()) {
-    if (now - conversation.lastUpdate > 5 * 60 * 1000) { // 5 minutes timeout
-      conversations.delete(userId);
-    }
+// The days of a range a meeting covers. One ending exactly at midnight doesn't spill into the next day.
+function getMeetingDays(meeting: CalendarEvent, range: { start: Date; end: Date }, timeZone: string): Date[] {
+  const start = new Date(meeting.start.dateTime);
+  const end = new Date(Math.max(start.getTime(), new Date(meeting.end.dateTime).getTime() - 1));
+  const days: Date[] = [];
+  for (let day = startOfDay(start < range.start ? range.start : start, timeZone);
+    day <= end && day <= range.end;
+    day = addDays(day, 1, timeZone)) {
+    days.push(day);
   }
-}, 60 * 1000); // Check every minute 
+  return days;
+}
 
-function getWeekdayDate(weekday: string, qualifier: string = ''): Date | null {
-  const weekdays = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-  const today = new Date();
-  const targetDay = weekdays.indexOf(weekday.toLowerCase());
-  
-  if (targetDay === -1) return null;
-  
-  const currentDay = today.getDay();
-  let daysToAdd = 0;
-  
-  switch (qualifier.toLowerCase()) {
-    case 'next':
-      daysToAdd = targetDay - currentDay + 7;
-      break;
-    case 'this':
-      daysToAdd = targetDay - currentDay;
-      if (daysToAdd <= 0) daysToAdd += 7;
-      break;
-    case 'coming':
-      daysToAdd = targetDay - currentDay;
-      if (daysToAdd <= 0) daysToAdd += 7;
-      break;
-    case 'last':
-      // Get the last occurrence of this weekday in the current month
-      const lastDay = new Date(today.getFullYear(), today.getMonth() + 1, 0);
-      const lastDayWeekday = lastDay.getDay();
-      daysToAdd = targetDay - lastDayWeekday;
-      if (daysToAdd > 0) daysToAdd -= 7;
-      return new Date(lastDay.setDate(lastDay.getDate() + daysToAdd));
-    default:
-      daysToAdd = targetDay - currentDay;
-      if (daysToAdd <= 0) daysToAdd += 7;
+// The time line of a listing: multi-day events say how they relate to the day being shown
+function describeTimeOnDay(meeting: CalendarEvent, day: Date, timeZone: string): string {
+  const start = new Date(meeting.start.dateTime);
+  const end = new Date(meeting.end.dateTime);
+  const days = getMeetingDays(meeting, { start, end }, timeZone);
+  const index = days.findIndex(candidate => candidate.getTime() === day.getTime());
+
+  if (meeting.allDay) return `🗓️ All day${days.length > 1 ? ` (day ${index + 1} of ${days.length})` : ''}`;
+  if (days.length === 1) return `⏰ ${formatTime(start, timeZone)}`;
+  if (index === 0) {
+    return `⏰ ${formatTime(start, timeZone)} until ${formatDate(end, timeZone, { weekday: 'short' })} ${formatTime(end, timeZone)}`;
   }
-  
-  return new Date(today.setDate(today.getDate() + daysToAdd));
+  return index === days.length - 1 ? `⏰ Until ${formatTime(end, timeZone)}` : '🗓️ All day (continued)';
+}
+
+function cancelChoiceKeyboard(meetings: CalendarEvent[], timeZone: string) {
+  return choiceKeyboard(meetings.map(meeting =>
+    `${describeMeetingTime(meeting, timeZone)} ${meeting.summary || 'Untitled Meeting'}`));
+}
+
+// Only "3pm" / "15:00" style times, so dates like "21-10" aren't mistaken for one
+function extractExplicitTime(message: string): string | null {
+  const match = message.match(/\b\d{1,2}(?::\d{2})?\s*(?:am|pm)\b|\b\d{1,2}:\d{2}\b/i);
+  return match ? bestGuess(parseTime(match[0])) : null;
+}
+
+// Resolves "2", "the 3pm one" or a title to one of the listed meetings
+function pickMeeting(userMessage: string, meetings: CalendarEvent[], timeZone: string): CalendarEvent | null {
+  const number = userMessage.trim().match(/^#?(\d{1,2})[.)]?$/);
+  if (number) return meetings[parseInt(number[1]) - 1] || null;
+
+  const time = extractExplicitTime(userMessage);
+  if (time) {
+    const atTime = meetings.filter(meeting => toWallClockTime(new Date(meeting.start.dateTime), timeZone) === time);
+    return atTime.length === 1 ? atTime[0] : null;
+  }
+
+  const lower = userMessage.toLowerCase();
+  const byTitle = meetings.filter(meeting => meeting.summary && lower.includes(meeting.summary.toLowerCase()));
+  return byTitle.length === 1 ? byTitle[0] : null;
 }
 
-async function handleListMeetingsRequest(ctx: BotContext, userId: number): Promise<void> {
+async function askCancelConfirmation(
+  ctx: BotContext,
+  userId: number,
+  meeting: CalendarEvent,
+  timeZone: string
+): Promise<void> {
+  const startTime = new Date(meeting.start.dateTime);
+  await userMeetingStates.set(stateKey(ctx, userId), {
+    step: 'confirm_cancel',
+    details: {
+      date: startTime,
+      meetingId: meeting.id,
+      calendarId: meeting.calendarId,
+      time: toWallClockTime(startTime, timeZone),
+      attendees: meeting.attendees?.map(a => a.email) || [],
+      description: meeting.description,
+      recurringEventId: meeting.recurringEventId,
+      pendingAction: 'cancel'
+    }
+  });
+  await ctx.reply(
+    `I found this meeting:\n\n` +
+    `📅 Date: ${formatDate(startTime, timeZone)}\n` +
+    `⏰ Time: ${meeting.allDay ? 'All day' : formatTime(startTime, timeZone)}\n` +
+    `📌 ${meeting.summary || 'Untitled Meeting'}${meeting.recurringEventId ? ' 🔁' : ''}\n` +
+    (meeting.attendees?.length ? `👥 With: ${meeting.attendees.map(a => a.email).join(', ')}\n` : '') +
+    `\nWould you like me to cancel this meeting? (Yes/No)`,
+    confirmKeyboard('🗑️ Yes, cancel it', '↩️ Keep it')
+  );
+}
+
+// Cancels the confirmed meeting, asking which occurrences first when it's part of a series
+async function completeCancellation(ctx: BotContext, userId: number, state: MeetingState): Promise<void> {
+  if (state.details.recurringEventId) {
+    await promptRecurrenceScope(ctx, state);
+    await userMeetingStates.set(stateKey(ctx, userId), state);
+    return;
+  }
+
+  const success = await cancelMeeting(
+    userId, state.details.meetingId!, 'single', state.details.cancelNote, state.details.calendarId
+  );
+  await ctx.reply(success ?
+    "✅ Meeting has been cancelled and attendees have been notified" +
+    (state.details.cancelNote ? ' with your note.' : '.') :
+    "❌ Sorry, I couldn't cancel the meeting. Please try again."
+  );
+  await userMeetingStates.delete(stateKey(ctx, userId));
+}
+
+async function handleCancelRequest(ctx: BotContext, userId: number, userMessage: string): Promise<void> {
   try {
     if (!isUserAuthorized(userId)) {
-      const authUrl = await startAuthProcess(userId);
+      const authUrl = await startAuthProcess(userId, ctx.chat?.id);
       await ctx.reply(
         "I need access to your calendar first. Please click this link to authorize:\n\n" +
         authUrl + "\n\n" +
@@ -1080,91 +1757,566 @@ async function handleListMeetingsRequest(ctx: BotContext, userId: number): Promi
       return;
     }
 
-    const message = ctx.message && 'text' in ctx.message ? ctx.message.text.toLowerCase() : '';
-    console.log('Processing list meetings request:', message);
+    // Without a date, look through the coming week
+    const timeZone = await getUserTimeZone(userId);
+    const today = startOfDay(currentTime(), timeZone);
+    const range = parseDayRange(userMessage, timeZone) ||
+      { start: today, end: endOfDay(addDays(today, 6, timeZone), timeZone) };
+    const rangeLabel = formatDateRange(range, timeZone);
+
+    const now = currentTime();
+    let meetings = (await listUpcomingEvents(userId, 1, range.start, range.end))
+      .filter(meeting => new Date(meeting.start.dateTime) >= now || new Date(meeting.end.dateTime) > now);
+
+    // "Cancel my 4pm meeting" narrows the list to that start time
+    const time = extractExplicitTime(userMessage);
+    if (time) {
+      meetings = meetings.filter(meeting => toWallClockTime(new Date(meeting.start.dateTime), timeZone) === time);
+    }
+
+    if (!meetings.length) {
+      await ctx.reply(`No meetings found${time ? ` at ${time}` : ''} for ${rangeLabel}! 📅`);
+      return;
+    }
+
+    // If there's only one meeting, ask for confirmation to cancel it
+    if (meetings.length === 1) {
+      await askCancelConfirmation(ctx, userId, meetings[0], timeZone);
+      return;
+    }
+
+    // If there are multiple meetings, list them and ask which one to cancel
+    let response = `I found ${meetings.length} meetings for ${rangeLabel}. Which one would you like to cancel?\n\n`;
+    meetings.forEach((meeting, index) => {
+      response += `${index + 1}. ⏰ ${describeMeetingTime(meeting, timeZone)} - ${meeting.summary || 'Untitled Meeting'}\n`;
+    });
+    response += '\nPlease reply with the number or start time of the meeting you want to cancel.';
+
+    await userMeetingStates.set(stateKey(ctx, userId), {
+      step: 'select_cancel',
+      details: {
+        date: range.start,
+        meetings,
+        attendees: [],
+        pendingAction: 'cancel'
+      }
+    });
+    await ctx.reply(response, cancelChoiceKeyboard(meetings, timeZone));
+  } catch (error) {
+    if (await handleReauthorization(ctx, userId, error)) return;
+    console.error('Error in handleCancelRequest:', error);
+    await ctx.reply("❌ Error processing cancellation request. Please try again.");
+  }
+}
+
+// Sign-in links are personal, so in a group they're never posted where others could open them
+async function askToLinkPrivately(ctx: BotContext, userId: number): Promise<boolean> {
+  if (!isGroupChat(ctx) || isUserAuthorized(userId)) return false;
+  await ctx.reply(
+    `👋 Hi ${ctx.from?.first_name}! Connect your calendar in a private chat with me first, ` +
+    "then mention me here again."
+  );
+  return true;
+}
+
+export async function handleMessage(ctx: BotContext) {
+  if (!ctx.message || !('text' in ctx.message)) return;
+
+  const userId = ctx.from?.id;
+  if (!userId) return;
 
-    let startDate = new Date();
-    let endDate = new Date();
-    let days = 1;
-
-    // Handle specific date formats
-    if (message.includes('3rd') || message.includes('2nd') || message.includes('1st') || 
-        message.match(/\d{1,2}(?:st|nd|rd|th)/) || message.match(/\d{1,2}[-\/]\d{1,2}/)) {
-      const parsedDate = parseDateInput(message);
-      if (parsedDate) {
-        console.log('Found specific date:', parsedDate);
-        startDate = parsedDate;
-        endDate = new Date(parsedDate);
+  let userMessage = ctx.message.text.trim();
+  
+  try {
+    if (isGroupChat(ctx)) {
+      const request = getGroupRequest(ctx, userMessage);
+      if (request === null) return;
+      trackKeyboardOwner(ctx, userId);
+      await rememberSender(ctx);
+      if (await askToLinkPrivately(ctx, userId)) return;
+      userMessage = request;
+    }
+
+    await router.route({ ctx, userId, text: userMessage });
+  } catch (error) {
+    if (await handleReauthorization(ctx, userId, error)) return;
+    console.error('Error:', error);
+    await ctx.reply("I encountered an error. Let me know if you'd like to try again!");
+  }
+}
+
+// Slash commands arrive with their intent and arguments already worked out. A listing cuts
+// into an unfinished wizard like "actually, ..." would; anything else starts over.
+export async function handleCommandIntent(ctx: BotContext, text: string, intent: IntentResult): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  try {
+    trackKeyboardOwner(ctx, userId);
+    if (await askToLinkPrivately(ctx, userId)) return;
+    if (intent.intent !== 'list') {
+      await userMeetingStates.delete(stateKey(ctx, userId));
+      await userUpdateStates.delete(stateKey(ctx, userId));
+    }
+    await router.route({ ctx, userId, text }, intent);
+  } catch (error) {
+    if (await handleReauthorization(ctx, userId, error)) return;
+    console.error('Error:', error);
+    await ctx.reply("I encountered an error. Let me know if you'd like to try again!");
+  }
+}
+
+// Ends the wizard in progress, as typing 'cancel' would, adding followUp to the reply.
+// Returns false when there was none.
+export async function stopWizard(ctx: BotContext, userId: number, followUp: string = ''): Promise<boolean> {
+  const key = stateKey(ctx, userId);
+  const meetingState = await userMeetingStates.get(key);
+  if (!meetingState && !(await userUpdateStates.get(key))) return false;
+
+  await userMeetingStates.delete(key);
+  await userUpdateStates.delete(key);
+  await ctx.reply(getStopReply(meetingState) + followUp);
+  return true;
+}
+
+// Answers to a wizard are only checked for requests that might cut in, which the
+// rule-based extractor decides without a model call
+const wizardReplyExtractor = new RuleBasedIntentExtractor();
+
+const MEETING_FREE_TEXT_STEPS: MeetingState['step'][] = ['email', 'title', 'location', 'description', 'cancel_note'];
+const UPDATE_FREE_TEXT_STEPS: UpdateMeetingState['step'][] = ['find_meeting', 'new_title', 'new_description', 'new_location', 'new_attendees'];
+
+const router = new MessageRouter(async ({ userId, text }, wizardActive) => {
+  const context = { now: currentTime(), timeZone: await getUserTimeZone(userId) };
+  return wizardActive ? wizardReplyExtractor.extract(text, context) : extractIntent(text, context);
+})
+  // "Find a time" searches free/busy and can take over a wizard, reusing its attendees
+  .register({
+    name: 'find-time',
+    priority: 90,
+    duringWizard: 'take-over',
+    matches: async ({ text }) => isFindTimeRequest(text),
+    handle: async ({ ctx, userId, text }) => {
+      // In a group, "find us a time" means everyone here rather than the people named
+      if (isGroupChat(ctx)) {
+        await handleGroupFindTime(ctx, userId, text, getSearchRange(text, await getUserTimeZone(userId)));
+        return;
       }
+      await handleFindTimeRequest(ctx, userId, text);
     }
-    // Handle relative dates
-    else if (message.includes('tomorrow')) {
-      startDate.setDate(startDate.getDate() + 1);
-      endDate = new Date(startDate);
+  })
+  // An edit in progress takes every reply until it's saved or dropped
+  .register({
+    name: 'update-wizard',
+    priority: 80,
+    matches: async ({ ctx, userId }) => !!(await userUpdateStates.get(stateKey(ctx, userId))),
+    handle: ({ ctx, userId, text }) => handleUpdateRequest(ctx, userId, text),
+    wizard: {
+      acceptsFreeText: async ({ ctx, userId }) =>
+        UPDATE_FREE_TEXT_STEPS.includes((await userUpdateStates.get(stateKey(ctx, userId)))!.step),
+      resume: ({ ctx, userId }) => resumeUpdateWizard(ctx, userId)
     }
-    else if (message.includes('day after tomorrow')) {
-      startDate.setDate(startDate.getDate() + 2);
-      endDate = new Date(startDate);
+  })
+  .register({
+    name: 'meeting-wizard',
+    priority: 70,
+    matches: async ({ ctx, userId }) => !!(await userMeetingStates.get(stateKey(ctx, userId))),
+    handle: ({ ctx, userId, text }) => handleMeetingRequest(ctx, userId, text),
+    wizard: {
+      acceptsFreeText: async ({ ctx, userId }) =>
+        MEETING_FREE_TEXT_STEPS.includes((await userMeetingStates.get(stateKey(ctx, userId)))!.step),
+      resume: ({ ctx, userId }) => resumeMeetingWizard(ctx, userId)
     }
-    else if (message.includes('this week')) {
-      endDate.setDate(endDate.getDate() + (7 - endDate.getDay()));
-      days = 7;
+  })
+  // Looking at the calendar doesn't disturb a wizard, which carries on afterwards
+  .register({
+    name: 'list',
+    priority: 50,
+    duringWizard: 'interrupt',
+    matches: async request => (await request.intent()).intent === 'list',
+    handle: async request => handleListMeetingsRequest(request.ctx, request.userId, request.text, (await request.intent()).slots)
+  })
+  .register({
+    name: 'cancel',
+    priority: 40,
+    matches: async request => (await request.intent()).intent === 'cancel',
+    handle: ({ ctx, userId, text }) => handleCancelRequest(ctx, userId, text)
+  })
+  .register({
+    name: 'update',
+    priority: 40,
+    matches: async request => ['update', 'reschedule'].includes((await request.intent()).intent),
+    handle: async request => {
+      const { intent } = await request.intent();
+      await handleUpdateRequest(request.ctx, request.userId, request.text, intent === 'reschedule' ? 'reschedule' : 'update');
     }
-    else if (message.includes('next week')) {
-      startDate.setDate(startDate.getDate() + (7 - startDate.getDay()) + 1);
-      endDate = new Date(startDate);
-      endDate.setDate(endDate.getDate() + 6);
-      days = 7;
+  })
+  .register({
+    name: 'schedule',
+    priority: 30,
+    matches: async request => (await request.intent()).intent === 'create',
+    handle: async request => handleMeetingRequest(request.ctx, request.userId, request.text, (await request.intent()).slots)
+  })
+  .register({
+    name: 'chat',
+    priority: 0,
+    matches: async () => true,
+    handle: async ({ ctx, userId, text }) => {
+      await ctx.reply(await handleChat(stateKey(ctx, userId), text));
     }
-    // Handle weekday patterns (next friday, last friday, etc.)
-    else if (message.match(/(next|last|this)\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday)/i)) {
-      const match = message.match(/(next|last|this)\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday)/i);
-      if (match) {
-        const weekdayDate = getWeekdayDate(match[2], match[1]);
-        if (weekdayDate) {
-          startDate = weekdayDate;
-          endDate = new Date(weekdayDate);
-        }
+  });
+
+const MEETING_STEP_QUESTIONS: Partial<Record<MeetingState['step'], string>> = {
+  date: "What date would you like to schedule it for? (e.g., tomorrow, 25th March, 25-03-2024)",
+  time: "What time would you like to schedule it for? (e.g., 2:30 PM, 14:30)",
+  duration: "How long should the meeting be? (in minutes)",
+  title: "What should I call the meeting? (Type 'skip' for a default title)",
+  location: "Where will it take place? Type a place, tap 🎥 Google Meet for a video link, or 'skip'.",
+  description: "Would you like to add a description for the meeting? (Type 'skip' to skip)",
+  cancel_note: "Would you like to add a note for the attendees? Type it now, or 'skip' to cancel without one."
+};
+
+// Re-asks the open wizard question after a request cut in
+async function resumeMeetingWizard(ctx: BotContext, userId: number): Promise<void> {
+  const state = await userMeetingStates.get(stateKey(ctx, userId));
+  if (!state) return;
+  const timeZone = await getUserTimeZone(userId);
+  const flow = state.details.pendingAction === 'cancel' || state.details.meetingId ? 'your meeting' : 'scheduling your meeting';
+
+  if (state.step === 'confirm') {
+    await ctx.reply(`↩️ Back to ${flow}.\n\n` + buildConfirmationMessage(state, timeZone), confirmKeyboard());
+    return;
+  }
+
+  const question = state.step === 'email' ? attendeeQuestion(state) : MEETING_STEP_QUESTIONS[state.step];
+  await ctx.reply(
+    `↩️ Back to ${flow}: ` + (question || "please answer my question above, or type 'cancel' to stop."),
+    await getStepKeyboard(userId, state.step, timeZone, state)
+  );
+}
+
+async function resumeUpdateWizard(ctx: BotContext, userId: number): Promise<void> {
+  const state = await userUpdateStates.get(stateKey(ctx, userId));
+  if (!state) return;
+  const timeZone = await getUserTimeZone(userId);
+  await ctx.reply("↩️ Back to editing your meeting.");
+
+  const field = EDITABLE_FIELDS.find(candidate => FIELD_STEPS[candidate] === state.step);
+  if (state.step === 'find_meeting') {
+    await ctx.reply(
+      "Which meeting should I change? Reply with its number or start time.",
+      cancelChoiceKeyboard(state.details.candidates || [], timeZone)
+    );
+  } else if (state.step === 'confirm') {
+    await showUpdateSummary(ctx, userId, state);
+  } else if (field) {
+    await askForValue(ctx, userId, state, field);
+  } else {
+    await askForField(ctx, userId, state);
+  }
+  await userUpdateStates.set(stateKey(ctx, userId), state);
+}
+
+// Inline keyboard taps. Buttons carry the text answer they stand for, so they go through
+// the same wizard steps as typed replies.
+export async function handleCallbackQuery(ctx: BotContext) {
+  const userId = ctx.from?.id;
+  const data = ctx.callbackQuery && 'data' in ctx.callbackQuery ? ctx.callbackQuery.data : '';
+  if (!userId || !data) return;
+
+  try {
+    const action = parseCallbackData(data);
+    if (action.type === 'noop') {
+      await ctx.answerCbQuery();
+      return;
+    }
+
+    // Everyone in a group sees a wizard's buttons; only the person it belongs to may use them.
+    // Buttons sent before owners were recorded fall back to whether the tapper has a wizard here.
+    const key = stateKey(ctx, userId);
+    if ((action.type === 'input' || action.type === 'month') && isGroupChat(ctx)) {
+      const messageId = ctx.callbackQuery?.message?.message_id;
+      const owner = messageId ? await keyboardOwners.get(`${ctx.chat!.id}:${messageId}`) : undefined;
+      const allowed = owner !== undefined
+        ? owner === userId
+        : action.type === 'month' || !!(await userUpdateStates.get(key)) || !!(await userMeetingStates.get(key));
+      if (!allowed) {
+        await ctx.answerCbQuery("These buttons belong to someone else's request.");
+        return;
       }
+      trackKeyboardOwner(ctx, userId);
     }
 
-    // Set time ranges for the day
-    startDate.setHours(0, 0, 0, 0);
-    endDate.setHours(23, 59, 59, 999);
+    if (action.type === 'month') {
+      const timeZone = await getUserTimeZone(userId);
+      await ctx.editMessageReplyMarkup(calendarKeyboard(action.year, action.month, timeZone).reply_markup);
+      await ctx.answerCbQuery();
+      return;
+    }
+
+    // Proposals and polls are answered by several people on one message, so their buttons stay
+    if (action.type === 'proposal') {
+      await handleProposalAnswer(ctx, userId, action.proposalId, action.accepted);
+      return;
+    }
+    if (action.type === 'poll') {
+      await handlePollAction(ctx, userId, action);
+      return;
+    }
+
+    // Remove the buttons so an old menu can't be answered twice
+    await ctx.editMessageReplyMarkup(undefined).catch(() => undefined);
+    if (action.type === 'meeting') {
+      await ctx.answerCbQuery();
+      await startMeetingAction(ctx, userId, action.meetingId, action.calendarRef, action.action);
+      return;
+    }
+    if (await userUpdateStates.get(stateKey(ctx, userId))) {
+      await ctx.answerCbQuery();
+      await handleUpdateRequest(ctx, userId, action.input);
+      return;
+    }
+    if (!(await userMeetingStates.get(stateKey(ctx, userId)))) {
+      await ctx.answerCbQuery('This menu has expired.');
+      return;
+    }
+
+    await ctx.answerCbQuery();
+    await handleMeetingRequest(ctx, userId, action.input);
+  } catch (error) {
+    console.error('Error handling button press:', error);
+    await ctx.answerCbQuery('Something went wrong. Please try again.').catch(() => undefined);
+  }
+}
+
+// Taps on a notification's buttons open the cancel or reschedule flow for that meeting directly,
+// replacing any wizard in progress
+async function startMeetingAction(
+  ctx: BotContext,
+  userId: number,
+  meetingId: string,
+  ref: string | undefined,
+  action: MeetingAction
+): Promise<void> {
+  const calendar = ref
+    ? (await listCalendars(userId)).find(candidate => calendarRef(candidate.id) === ref)
+    : PRIMARY_CALENDAR;
+  const found = calendar && await getMeeting(userId, meetingId, calendar.id);
+  if (!calendar || !found) {
+    await ctx.reply("That meeting isn't on your calendar anymore. 🤷");
+    return;
+  }
+  const meeting = { ...found, calendarId: calendar.id, calendarName: calendar.name };
+
+  await userMeetingStates.delete(stateKey(ctx, userId));
+  await userUpdateStates.delete(stateKey(ctx, userId));
+  const timeZone = await getUserTimeZone(userId);
+  if (action === 'cancel') {
+    await askCancelConfirmation(ctx, userId, meeting, timeZone);
+    return;
+  }
+
+  const state: UpdateMeetingState = {
+    step: 'choose_field',
+    action: 'reschedule',
+    details: { meetingId: meeting.id, currentMeeting: meeting, field: 'date' }
+  };
+  await continueUpdateWizard(ctx, userId, state);
+  await userUpdateStates.set(stateKey(ctx, userId), state);
+}
+
+function isFindTimeRequest(message: string): boolean {
+  const patterns = [
+    /\b(find|suggest|pick)\b.*\b(time|slot|window)\b/i,
+    /\bwhen\s+can\b.*\bmeet\b/i,
+    /\bfind\s+us\b/i,
+    /\bwhen\s+(is|are)\b.*\b(free|available)\b/i
+  ];
+  return patterns.some(pattern => pattern.test(message));
+}
+
+// Date range to search for free slots: "this week", "next week", a specific day, or the next 7 days
+function getSearchRange(message: string, timeZone: string): { start: Date; end: Date } {
+  const range = parseDayRange(message, timeZone);
+  if (range && range.end >= currentTime()) return range;
+
+  const today = startOfDay(currentTime(), timeZone);
+  return { start: today, end: endOfDay(addDays(today, 7, timeZone), timeZone) };
+}
+
+async function handleFindTimeRequest(ctx: BotContext, userId: number, userMessage: string): Promise<void> {
+  try {
+    if (!isUserAuthorized(userId)) {
+      const authUrl = await startAuthProcess(userId, ctx.chat?.id);
+      await ctx.reply(
+        "I need access to your calendar first. Please click this link to authorize:\n\n" +
+        authUrl + "\n\n" +
+        "After authorizing, come back and try again."
+      );
+      return;
+    }
+
+    const timeZone = await getUserTimeZone(userId);
+    const state = await userMeetingStates.get(stateKey(ctx, userId));
+    // Only a new meeting being scheduled carries over; a cancellation or change in progress is dropped
+    const existing = state && !state.details.meetingId && !state.details.pendingAction ? state.details : undefined;
+    const analysis = analyzeMeetingRequest(userMessage);
+
+    const contacts = analysis.extractedInfo.name ? await resolveContact(userId, analysis.extractedInfo.name) : [];
+    const attendees = Array.from(new Set([
+      ...(existing?.attendees || []),
+      ...(analysis.extractedInfo.emails || []),
+      ...(contacts.length === 1 ? [contacts[0].email] : [])
+    ]));
+    const duration = analysis.extractedInfo.duration || existing?.duration || 30;
+    const range = getSearchRange(userMessage, timeZone);
+
+    const slots = await findMeetingSlots(userId, {
+      attendees,
+      durationMinutes: duration,
+      rangeStart: range.start,
+      rangeEnd: range.end
+    });
+
+    if (!slots.length) {
+      await ctx.reply(
+        `I couldn't find a free ${duration}-minute slot for everyone between ` +
+        `${formatDate(range.start, timeZone)} and ${formatDate(range.end, timeZone)}. 😕\n\n` +
+        "Try a longer date range or a shorter meeting."
+      );
+      return;
+    }
+
+    let response = `Here are the best ${duration}-minute slots` +
+      (attendees.length ? ` when you and ${attendees.join(', ')} are all free` : ' on your calendar') + ":\n\n";
+    slots.forEach((slot, index) => {
+      response += `${index + 1}. ${formatDate(slot.start, timeZone, { weekday: 'short' })} ` +
+        `${formatTime(slot.start, timeZone)}–${formatTime(slot.end, timeZone)}\n`;
+    });
+    response += "\nReply with a number to book it, or 'cancel' to stop.";
+    if (contacts.length > 1) {
+      response += `\n\nI know ${contacts.length} people called ${analysis.extractedInfo.name}, ` +
+        "so include their email to check their calendar too.";
+    } else if (!attendees.length) {
+      response += "\n\nTip: include attendee emails to check their calendars too.";
+    } else if (slots.length > 1) {
+      response += `\n\nCan't see everyone's calendar? Tap ${POLL_LABEL} to let them vote.`;
+    }
+
+    await userMeetingStates.set(stateKey(ctx, userId), {
+      step: 'pick_slot',
+      details: {
+        date: null,
+        title: existing?.title,
+        attendees,
+        duration,
+        alternatives: slots.map(slot => slot.start)
+      }
+    });
+    await ctx.reply(
+      response,
+      slotKeyboard(slots.map(slot => slot.start), timeZone, undefined, attendees.length && slots.length > 1 ? POLL_LABEL : undefined)
+    );
+  } catch (error) {
+    if (await handleReauthorization(ctx, userId, error)) return;
+    console.error('Error in handleFindTimeRequest:', error);
+    await ctx.reply("❌ Error finding a time. Please try again.");
+  }
+}
+
+function formatDateRange(range: { start: Date; end: Date }, timeZone: string): string {
+  const start = formatDate(range.start, timeZone);
+  const end = formatDate(range.end, timeZone);
+  return start === end ? start : `${start} to ${end}`;
+}
+
+const RSVP_LABELS: Record<string, string> = {
+  accepted: '✅ accepted',
+  declined: '❌ declined',
+  tentative: '🤔 tentative',
+  needsAction: '⏳ no reply yet'
+};
+
+function describeResponses(meeting: CalendarEvent): string {
+  return (meeting.attendees || [])
+    .map(attendee => `• ${attendee.email} - ${RSVP_LABELS[attendee.responseStatus || 'needsAction'] || RSVP_LABELS.needsAction}`)
+    .join('\n');
+}
+
+async function handleListMeetingsRequest(
+  ctx: BotContext,
+  userId: number,
+  userMessage: string,
+  slots: MeetingSlots = {}
+): Promise<void> {
+  try {
+    if (!isUserAuthorized(userId)) {
+      const authUrl = await startAuthProcess(userId, ctx.chat?.id);
+      await ctx.reply(
+        "I need access to your calendar first. Please click this link to authorize:\n\n" +
+        authUrl + "\n\n" +
+        "After authorizing, come back and try again."
+      );
+      return;
+    }
+
+    const message = userMessage.toLowerCase();
+    console.log('Processing list meetings request:', message);
+
+    // Defaults to today when no day or range is mentioned
+    const timeZone = await getUserTimeZone(userId);
+    const today = startOfDay(currentTime(), timeZone);
+    const range = parseDayRange(message, timeZone) || { start: today, end: endOfDay(today, timeZone) };
+    const startDate = range.start;
+    const endDate = range.end;
 
     console.log('Fetching meetings for date range:', {
       startDate: startDate.toISOString(),
       endDate: endDate.toISOString()
     });
 
-    const meetings = await listUpcomingEvents(userId, days, startDate, endDate);
+    // "What's on the Team calendar" looks at that calendar only
+    const calendar = slots.calendar ? await findCalendar(userId, slots.calendar) : null;
+    if (slots.calendar && !calendar) {
+      await ctx.reply(`I couldn't find a calendar called "${slots.calendar}". Use /calendars to see yours. 📂`);
+      return;
+    }
+
+    const meetings = await listUpcomingEvents(userId, 1, startDate, endDate, calendar ? [calendar] : undefined);
     console.log('Found meetings:', meetings?.length || 0);
 
     if (!meetings || meetings.length === 0) {
-      await ctx.reply(`No meetings found for ${startDate.toLocaleDateString()}${startDate < endDate ? ` to ${endDate.toLocaleDateString()}` : ''}! 📅`);
+      await ctx.reply(`No meetings found${calendar ? ` on ${calendar.name}` : ''} for ${formatDateRange(range, timeZone)}! 📅`);
       return;
     }
 
-    // Group meetings by date
-    const meetingsByDate = new Map<string, typeof meetings>();
+    // Label each meeting with its calendar when they don't all come from the user's own
+    const showCalendars = meetings.some(meeting => meeting.calendarId !== PRIMARY_CALENDAR.id);
+
+    // Group meetings by date; multi-day events show up on every day they cover
+    const meetingsByDate = new Map<string, Array<{ meeting: CalendarEvent; day: Date }>>();
     meetings.forEach(meeting => {
-      const date = new Date(meeting.start.dateTime).toLocaleDateString();
-      if (!meetingsByDate.has(date)) {
-        meetingsByDate.set(date, []);
+      for (const day of getMeetingDays(meeting, range, timeZone)) {
+        const date = formatDate(day, timeZone);
+        if (!meetingsByDate.has(date)) {
+          meetingsByDate.set(date, []);
+        }
+        meetingsByDate.get(date)?.push({ meeting, day });
       }
-      meetingsByDate.get(date)?.push(meeting);
     });
 
     // Send meetings grouped by date
     for (const [date, dayMeetings] of meetingsByDate) {
       let response = `📅 ${date}\n\n`;
       
-      for (const meeting of dayMeetings) {
-        const startTime = new Date(meeting.start.dateTime);
-        response += `⏰ ${startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}\n`;
-        response += `📌 ${meeting.summary || 'Untitled Meeting'}\n`;
+      for (const { meeting, day } of dayMeetings) {
+        response += `${describeTimeOnDay(meeting, day, timeZone)}\n`;
+        response += `📌 ${meeting.summary || 'Untitled Meeting'}${meeting.recurringEventId ? ' 🔁' : ''}\n`;
+        if (meeting.location) response += `📍 ${meeting.location}\n`;
+        if (meeting.meetLink) response += `🎥 ${meeting.meetLink}\n`;
+        if (showCalendars && meeting.calendarName) response += `📂 ${meeting.calendarName}\n`;
         if (meeting.attendees?.length) {
-          response += `👥 With: ${meeting.attendees.map(a => a.email).join(', ')}\n`;
+          response += `👥 With:\n${describeResponses(meeting)}\n`;
         }
         response += '\n';
       }
@@ -1173,40 +2325,8 @@ async function handleListMeetingsRequest(ctx: BotContext, userId: number): Promi
     }
 
   } catch (error) {
+    if (await handleReauthorization(ctx, userId, error)) return;
     console.error('Error in handleListMeetingsRequest:', error);
     await ctx.reply("❌ Error fetching meetings. Please try again.");
   }
 }
-
-function getMonthNumber(monthStr: string): number {
-  const months: { [key: string]: number } = {
-    'jan': 0, 'january': 0,
-    'feb': 1, 'february': 1,
-    'mar': 2, 'march': 2,
-    'apr': 3, 'april': 3,
-    'may': 4,
-    'jun': 5, 'june': 5,
-    'jul': 6, 'july': 6,
-    'aug': 7, 'august': 7,
-    'sep': 8, 'september': 8,
-    'oct': 9, 'october': 9,
-    'nov': 10, 'november': 10,
-    'dec': 11, 'december': 11
-  };
-  return months[monthStr.toLowerCase()] || 0;
-}
-
-function getNextOccurrenceOfDate(day: number, month: number): Date {
-  const today = new Date();
-  let year = today.getFullYear();
-  
-  // Create the date for this year
-  let date = new Date(year, month, day);
-  
-  // If the date has passed, try next year
-  if (date < today) {
-    date = new Date(year + 1, month, day);
-  }
-  
-  return date;
-} 
\ No newline at end of file
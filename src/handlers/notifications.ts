@@ -0,0 +1,41 @@
+import type { AttendeeResponseChange } from '../services/rsvpWatcher';
+import { MeetingPoll, PollVoter, getLeadingOption, tallyVotes } from '../services/pollService';
+import { getUserTimeZone } from '../services/userPreferences';
+import { formatDate, formatTime } from '../utils/timezone';
+import { meetingActionKeyboard, pollBookingKeyboard } from './keyboards';
+import { formatPollOption } from './pollHandler';
+
+// Message for the organizer when an attendee declines or suggests another time
+export async function buildAttendeeResponseNotification(userId: number, change: AttendeeResponseChange) {
+  const timeZone = await getUserTimeZone(userId);
+  const start = new Date(change.meeting.start.dateTime);
+  const meeting = `"${change.meeting.summary || 'Untitled Meeting'}" ` +
+    `(${formatDate(start, timeZone, { weekday: 'short' })} ${change.meeting.allDay ? 'all day' : formatTime(start, timeZone)})`;
+
+  const text =
+    (change.kind === 'declined'
+      ? `❌ ${change.attendee} declined ${meeting}.`
+      : `🕓 ${change.attendee} suggested another time for ${meeting}.`) +
+    (change.comment ? `\n\n💬 "${change.comment}"` : '') +
+    "\n\nWould you like to reschedule or cancel it?";
+
+  return { text, keyboard: meetingActionKeyboard(change.meeting.id, change.meeting.calendarId) };
+}
+
+// Message for the organizer when someone votes on the poll's web page
+export async function buildPollVoteNotification(poll: MeetingPoll, voter: PollVoter) {
+  const timeZone = await getUserTimeZone(poll.organizerId);
+  const chosen = poll.votes[voter.key]?.options || [];
+  const leading = getLeadingOption(poll);
+
+  let text = `🗳️ ${voter.name} voted on "${poll.title}": ` +
+    (chosen.length ? chosen.map(option => formatPollOption(poll.options[option], timeZone)).join(', ') : 'none of the times') + '.';
+  if (leading === null) {
+    return { text: text + "\n\nNobody has picked a time yet." };
+  }
+
+  const votes = tallyVotes(poll)[leading];
+  const label = formatPollOption(poll.options[leading], timeZone);
+  text += `\n\n🏆 Leading: ${label} with ${votes} ${votes === 1 ? 'vote' : 'votes'}.`;
+  return { text, keyboard: pollBookingKeyboard(poll.id, `✅ Book ${label}`) };
+}
@@ -0,0 +1,124 @@
+import type { BotContext } from '../types';
+import {
+  MeetingPoll,
+  bookPoll,
+  createPoll,
+  getLeadingOption,
+  getPollUrl,
+  getVoterNames,
+  setPollMessage,
+  tallyVotes,
+  toggleVote
+} from '../services/pollService';
+import { getUserTimeZone } from '../services/userPreferences';
+import { formatDate, formatTime } from '../utils/timezone';
+import { pollKeyboard } from './keyboards';
+
+export const BOOK_WINNER_LABEL = '✅ Book the winner';
+
+export function formatPollOption(option: Date, timeZone: string): string {
+  return `${formatDate(option, timeZone, { weekday: 'short', month: 'short', day: 'numeric' })} ${formatTime(option, timeZone)}`;
+}
+
+// The poll as posted in the chat: every option with its votes, and a button per option
+export async function buildPollMessage(poll: MeetingPoll) {
+  const timeZone = await getUserTimeZone(poll.organizerId);
+  const counts = tallyVotes(poll);
+  const leading = getLeadingOption(poll);
+
+  const lines = poll.options.map((option, index) => {
+    const voters = getVoterNames(poll, index);
+    return `${index + 1}. ${formatPollOption(option, timeZone)}` +
+      (voters.length ? ` - ${voters.join(', ')}` : '') +
+      (index === leading ? ' 🏆' : '');
+  });
+  const text = `📊 When should we meet for "${poll.title}"? (${poll.durationMinutes} min, times in ${timeZone})\n\n` +
+    lines.join('\n') + "\n\n" +
+    "Tap every time that works for you. People without Telegram can vote here:\n" +
+    getPollUrl(poll);
+
+  const labels = poll.options.map((option, index) => `${formatPollOption(option, timeZone)} · ${counts[index]}`);
+  return { text, keyboard: pollKeyboard(poll.id, labels, BOOK_WINNER_LABEL) };
+}
+
+// Posts a new poll and remembers its message, so votes from the web page can update it
+export async function startPoll(
+  ctx: BotContext,
+  userId: number,
+  details: { title: string; durationMinutes: number; attendees: string[]; options: Date[] }
+): Promise<void> {
+  const poll = await createPoll(userId, ctx.chat?.id ?? userId, details);
+  const { text, keyboard } = await buildPollMessage(poll);
+  const sent = await ctx.reply(text, keyboard);
+  await setPollMessage(poll.id, sent.message_id);
+
+  if (details.attendees.length) {
+    await ctx.reply(
+      `Share the link above with ${details.attendees.join(', ')}. ` +
+      "I'll let you know as votes come in, and once you book the winner I'll send them the invite."
+    );
+  }
+}
+
+async function handlePollVote(ctx: BotContext, userId: number, pollId: string, option: number): Promise<void> {
+  const voter = { key: `tg:${userId}`, name: ctx.from?.first_name || 'Someone' };
+  const poll = await toggleVote(pollId, voter, option);
+  if (!poll) {
+    await ctx.answerCbQuery('This poll is closed.');
+    return;
+  }
+
+  await ctx.answerCbQuery(poll.votes[voter.key].options.includes(option) ? 'Vote counted ✅' : 'Vote removed');
+  const { text, keyboard } = await buildPollMessage(poll);
+  await ctx.editMessageText(text, keyboard);
+}
+
+async function handlePollBooking(ctx: BotContext, userId: number, pollId: string): Promise<void> {
+  const result = await bookPoll(pollId, userId);
+  switch (result.kind) {
+    case 'expired':
+      await ctx.answerCbQuery('This poll has expired.');
+      return;
+    case 'not_organizer':
+      await ctx.answerCbQuery('Only the person who started the poll can book it.');
+      return;
+    case 'closed':
+      await ctx.answerCbQuery('This poll is already booked.');
+      return;
+    case 'no_votes':
+      await ctx.answerCbQuery('Nobody has voted yet.');
+      return;
+    case 'failed':
+      await ctx.answerCbQuery();
+      await ctx.reply("❌ Sorry, I couldn't create the meeting. Please try again.");
+      return;
+  }
+
+  const { poll, option } = result;
+  const timeZone = await getUserTimeZone(poll.organizerId);
+  const votes = tallyVotes(poll)[option];
+  const text = `✅ "${poll.title}" is booked for ${formatPollOption(poll.options[option], timeZone)} ` +
+    `(${votes} ${votes === 1 ? 'vote' : 'votes'}).` +
+    (poll.attendees.length ? `\n\n📧 Invites are on their way to ${poll.attendees.join(', ')}.` : '');
+
+  await ctx.answerCbQuery('Booked! 🎉');
+  await ctx.editMessageText(text);
+  // Booked from a vote notification: close the poll itself too
+  const tapped = ctx.callbackQuery?.message?.message_id;
+  if (poll.messageId && tapped !== poll.messageId) {
+    await ctx.telegram.editMessageText(poll.chatId, poll.messageId, undefined, text).catch(() => undefined);
+  }
+}
+
+// Taps on a poll's buttons. The poll message stays put and is updated with every vote.
+export async function handlePollAction(
+  ctx: BotContext,
+  userId: number,
+  action: { action: 'vote'; pollId: string; option: number } | { action: 'book'; pollId: string }
+): Promise<void> {
+  if (action.action === 'vote') {
+    await handlePollVote(ctx, userId, action.pollId, action.option);
+  } else {
+    await handlePollBooking(ctx, userId, action.pollId);
+  }
+}
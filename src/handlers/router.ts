@@ -0,0 +1,118 @@
+import type { BotContext } from '../types';
+import type { IntentResult } from '../services/intentExtractor';
+
+export interface IncomingMessage {
+  ctx: BotContext;
+  userId: number;
+  text: string;
+}
+
+export interface RouteRequest extends IncomingMessage {
+  // Classified on first use, so messages a wizard answers on its own cost no extraction
+  intent(): Promise<IntentResult>;
+}
+
+// A multi-step flow that owns the conversation while its state exists
+export interface Wizard {
+  // Steps whose answer is free text (a description, a note, a name). A request like
+  // "show my meetings" is a valid answer there, so only an explicit cue interrupts them.
+  acceptsFreeText(message: IncomingMessage): Promise<boolean>;
+  // Asks the open question again after another request cut in
+  resume(request: RouteRequest): Promise<void>;
+}
+
+export interface Route {
+  name: string;
+  // Higher runs first
+  priority: number;
+  matches(request: RouteRequest): Promise<boolean>;
+  handle(request: RouteRequest): Promise<void>;
+  // Set on wizards; such a route matches while its wizard is in progress
+  wizard?: Wizard;
+  // What the route may do while a wizard waits for an answer:
+  // 'interrupt' answers and then hands the conversation back to the wizard,
+  // 'take-over' handles the message and leaves the wizard to the route.
+  // Routes without it never run in the middle of a wizard.
+  duringWizard?: 'interrupt' | 'take-over';
+}
+
+// "actually, show my meetings tomorrow first" steps out of a wizard on purpose
+const INTERRUPT_CUE = /^\s*(actually|wait|hold on|hang on|oh|before that|quick question)\b|\bfirst[\s.!?]*$/i;
+
+export function hasInterruptCue(text: string): boolean {
+  return INTERRUPT_CUE.test(text);
+}
+
+// Routes each message to the highest-priority route that matches. While a wizard is in
+// progress it gets every message, except that routes allowed to run during a wizard may
+// cut in when the wizard isn't waiting for free text, or when the message opens with a cue.
+export class MessageRouter {
+  private routes: Route[] = [];
+
+  // `classify` runs at most once per message. `wizardActive` lets it use a cheaper extractor
+  // for replies to a wizard, where it only decides whether another route should cut in.
+  constructor(private classify: (message: IncomingMessage, wizardActive: boolean) => Promise<IntentResult>) {}
+
+  register(route: Route): this {
+    this.routes.push(route);
+    this.routes.sort((a, b) => b.priority - a.priority);
+    return this;
+  }
+
+  // `known` is an intent the caller already has, e.g. from a slash command. It skips
+  // classification and, being explicit, may cut into a wizard like a cued message.
+  async route(message: IncomingMessage, known?: IntentResult): Promise<void> {
+    const wizards = this.routes.filter(route => route.wizard);
+    let wizardActive = false;
+    let classified: Promise<IntentResult> | undefined = known && Promise.resolve(known);
+    const request: RouteRequest = {
+      ...message,
+      intent: () => {
+        if (!classified) classified = this.classify(message, wizardActive);
+        return classified;
+      }
+    };
+
+    let active: Route | undefined;
+    for (const route of wizards) {
+      if (await route.matches(request)) {
+        active = route;
+        break;
+      }
+    }
+    wizardActive = !!active;
+
+    if (!active) {
+      for (const route of this.routes) {
+        if (!route.wizard && await route.matches(request)) {
+          await route.handle(request);
+          return;
+        }
+      }
+      return;
+    }
+
+    const interruption = await this.findInterruption(request, active, !!known);
+    if (!interruption) {
+      await active.handle(request);
+      return;
+    }
+
+    console.log(`Route ${interruption.name} interrupted ${active.name}`);
+    await interruption.handle(request);
+    // The wizard picks up where it left off, unless the interruption ended it
+    if (interruption.duringWizard === 'interrupt' && await active.matches(request)) {
+      await active.wizard!.resume(request);
+    }
+  }
+
+  private async findInterruption(request: RouteRequest, active: Route, explicit: boolean): Promise<Route | undefined> {
+    const allowed = explicit || hasInterruptCue(request.text) || !(await active.wizard!.acceptsFreeText(request));
+    if (!allowed) return undefined;
+
+    for (const route of this.routes) {
+      if (route.duringWizard && !route.wizard && await route.matches(request)) return route;
+    }
+    return undefined;
+  }
+}
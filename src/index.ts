@@ -7,59 +7,92 @@ if (!process.env.TELEGRAM_BOT_TOKEN) {
   process.exit(1);
 }
 
+if (!process.env.TOKEN_MASTER_KEY && process.env.CALENDAR_PROVIDER !== 'local') {
+  console.error('ERROR: TOKEN_MASTER_KEY is not set in .env file');
+  process.exit(1);
+}
+
 import { Telegraf } from 'telegraf';
-import { handleMessage } from './handlers/messageHandler';
+import { handleCallbackQuery, handleMessage } from './handlers/messageHandler';
+import { COMMANDS, getTimeZoneOnboardingMessage } from './handlers/commandHandler';
+import { buildAttendeeResponseNotification, buildPollVoteNotification } from './handlers/notifications';
+import { buildPollMessage } from './handlers/pollHandler';
 import { BotContext } from './types';
+import { getTokenVaultError, onAuthorizationComplete } from './services/authService';
+import { startHttpServer, stopHttpServer } from './services/httpServer';
+import { onAttendeeResponse, startRsvpWatcher, stopRsvpWatcher } from './services/rsvpWatcher';
+import { onPollVote } from './services/pollService';
+
+// Running on without the stored credentials would lose them with the next save
+const vaultError = getTokenVaultError();
+if (vaultError) {
+  console.error(`ERROR: ${vaultError.message}. Check TOKEN_MASTER_KEY and TOKEN_MASTER_KEY_PREVIOUS.`);
+  process.exit(1);
+}
 
 const bot = new Telegraf<BotContext>(process.env.TELEGRAM_BOT_TOKEN);
 
-// Remo's personality and system prompt
-export const REMO_PERSONALITY = `You are Remo, a friendly and engaging AI assistant with a warm personality. Your responses should be:
-
-1. Natural and conversational
-2. Varied and non-repetitive
-3. Empathetic and understanding
-4. Occasionally playful but always professional
-5. Concise but helpful
-
-Key traits:
-- Show genuine interest in the user
-- Remember context from the conversation
-- Use appropriate emojis naturally
-- Vary your greetings and responses
-- Match the user's energy level
-- Ask follow-up questions when appropriate
-
-You excel at both casual conversation and task-oriented assistance. While you can schedule meetings and manage calendars, you're also great at general chat and helping users feel heard.`;
-
-// Start command
-bot.command('start', async (ctx) => {
-  await ctx.reply(
-    "Hello! I'm Remo, your personal AI assistant. 👋\n\n" +
-    "I can help you manage your meetings:\n\n" +
-    "📅 Meeting Management:\n" +
-    "• Schedule a new meeting\n" +
-    "• Update meeting details\n" +
-    "• Reschedule meetings\n" +
-    "• Cancel meetings\n\n" +
-    "Examples:\n" +
-    "• 'Schedule a meeting tomorrow at 2pm'\n" +
-    "• 'Update the description of today's 3pm meeting'\n" +
-    "• 'Reschedule tomorrow's meeting to Friday'\n" +
-    "• 'Cancel my 4pm meeting'\n\n" +
-    "How can I assist you today?"
-  );
-});
+// Slash commands, registered before the catch-all message handler
+for (const { command, handle } of COMMANDS) {
+  bot.command(command, handle);
+}
 
 // Handle all messages
 bot.on('message', handleMessage);
 
+// Inline keyboard buttons
+bot.on('callback_query', handleCallbackQuery);
+
+// Let the user know in the chat that started the authorization once the callback completes
+onAuthorizationComplete(async (userId, chatId, result) => {
+  await bot.telegram.sendMessage(
+    chatId,
+    result.success
+      ? "✅ Your Google Calendar is connected! You can now ask me to schedule, list or change meetings."
+      : "❌ Calendar authorization didn't complete. Just ask me again whenever you're ready."
+  );
+
+  if (result.success) {
+    const timeZoneMessage = await getTimeZoneOnboardingMessage(userId);
+    if (timeZoneMessage) await bot.telegram.sendMessage(chatId, timeZoneMessage);
+  }
+});
+
+// Tell organizers when someone declines or suggests another time. Private chats share the user's id.
+onAttendeeResponse(async (userId, change) => {
+  const { text, keyboard } = await buildAttendeeResponseNotification(userId, change);
+  await bot.telegram.sendMessage(userId, text, keyboard);
+});
+
+// Votes from the web page update the poll in its chat and are reported to the organizer
+onPollVote(async (poll, voter) => {
+  if (poll.messageId) {
+    const { text, keyboard } = await buildPollMessage(poll);
+    await bot.telegram.editMessageText(poll.chatId, poll.messageId, undefined, text, keyboard).catch((err) => {
+      console.error('Failed to update poll message:', err);
+    });
+  }
+  const { text, keyboard } = await buildPollVoteNotification(poll, voter);
+  await bot.telegram.sendMessage(poll.organizerId, text, keyboard);
+});
+
 // Error handling
 bot.catch((err: any) => {
   console.error('Bot error:', err);
 });
 
-// Start the bot
+// Start the OAuth callback server and the bot
+startHttpServer().catch((err) => {
+  console.error('Failed to start HTTP server:', err);
+});
+
+// Fills Telegram's command menu
+bot.telegram.setMyCommands(COMMANDS.map(({ command, description }) => ({ command, description }))).catch((err) => {
+  console.error('Failed to register bot commands:', err);
+});
+
+startRsvpWatcher();
+
 bot.launch().then(() => {
   console.log('Remo is online and ready to help! 🤖');
 }).catch((err) => {
@@ -67,5 +100,13 @@ bot.launch().then(() => {
 });
 
 // Enable graceful stop
-process.once('SIGINT', () => bot.stop('SIGINT'));
-process.once('SIGTERM', () => bot.stop('SIGTERM')); 
\ No newline at end of file
+process.once('SIGINT', () => {
+  bot.stop('SIGINT');
+  stopHttpServer();
+  stopRsvpWatcher();
+});
+process.once('SIGTERM', () => {
+  bot.stop('SIGTERM');
+  stopHttpServer();
+  stopRsvpWatcher();
+});
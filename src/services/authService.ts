@@ -0,0 +1,291 @@
+import { OAuth2Client, CodeChallengeMethod } from 'google-auth-library';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { registerRoute, sendHtml, HTTP_PORT } from './httpServer';
+import { TokenVault, getVaultSecrets } from './tokenVault';
+import { clearEventCache } from './providers/cachedCalendarProvider';
+
+const TOKEN_VAULT_PATH = process.env.TOKEN_VAULT_PATH || path.join(__dirname, '../../data/tokens.vault');
+// Plaintext file used by earlier versions; migrated into the vault and removed on startup
+const LEGACY_TOKENS_PATH = path.join(__dirname, '../../tokens.json');
+const REDIRECT_URI = process.env.OAUTH_REDIRECT_URI || `http://localhost:${HTTP_PORT}/oauth2callback`;
+const SCOPES = ['https://www.googleapis.com/auth/calendar'];
+
+// Authorization links stop working after 10 minutes
+const PENDING_AUTH_TTL = 10 * 60 * 1000;
+
+// Falls back to a per-process secret, which only invalidates links issued before a restart
+const STATE_SECRET = process.env.OAUTH_STATE_SECRET || randomBytes(32).toString('hex');
+
+function createOAuthClient(): OAuth2Client {
+  return new OAuth2Client(
+    process.env.GOOGLE_CLIENT_ID,
+    process.env.GOOGLE_CLIENT_SECRET,
+    REDIRECT_URI
+  );
+}
+
+// Only used to build consent URLs and exchange codes; never holds user credentials
+const oauth2Client = createOAuthClient();
+
+// Each user gets an isolated client so concurrent requests can't cross accounts
+const userClients = new Map<string, OAuth2Client>();
+
+export let userTokens = new Map<string, any>();
+// Only set once the stored tokens were read, so a save can't replace credentials it never loaded
+let vault: TokenVault | null = null;
+// Why an existing vault couldn't be opened; the bot refuses to start, and to save, until it's fixed
+let vaultError: Error | null = null;
+
+function migrateLegacyTokens() {
+  if (!vault || !fs.existsSync(LEGACY_TOKENS_PATH)) return;
+
+  const content = fs.readFileSync(LEGACY_TOKENS_PATH, 'utf8').trim();
+  if (content) {
+    for (const [userId, tokens] of Object.entries(JSON.parse(content))) {
+      if (!userTokens.has(userId)) userTokens.set(userId, tokens);
+    }
+    vault.save(userTokens);
+  }
+  fs.unlinkSync(LEGACY_TOKENS_PATH);
+  console.log('Migrated plaintext tokens.json into the encrypted token vault');
+}
+
+// Load existing tokens
+try {
+  const opened = new TokenVault(TOKEN_VAULT_PATH, getVaultSecrets());
+  userTokens = opened.load();
+  vault = opened;
+  migrateLegacyTokens();
+} catch (error) {
+  console.error('Error loading tokens:', error);
+  if (fs.existsSync(TOKEN_VAULT_PATH)) vaultError = error instanceof Error ? error : new Error(String(error));
+}
+
+export function getTokenVaultError(): Error | null {
+  return vaultError;
+}
+
+export function saveTokens() {
+  try {
+    if (vaultError) throw new Error(`Token vault could not be loaded, so it is left untouched: ${vaultError.message}`);
+    if (!vault) throw new Error('Token vault is not configured; set TOKEN_MASTER_KEY');
+    vault.save(userTokens);
+  } catch (error) {
+    console.error('Error saving tokens:', error);
+  }
+}
+
+export class ReauthorizationRequiredError extends Error {
+  constructor(public userId: number) {
+    super(`Google authorization for user ${userId} was revoked or expired`);
+    this.name = 'ReauthorizationRequiredError';
+  }
+}
+
+export function isInvalidGrantError(error: any): boolean {
+  return error?.response?.data?.error === 'invalid_grant' ||
+    (typeof error?.message === 'string' && error.message.includes('invalid_grant'));
+}
+
+export function getUserOAuthClient(userId: number): OAuth2Client | null {
+  const key = userId.toString();
+  const tokens = userTokens.get(key);
+  if (!tokens) return null;
+
+  let client = userClients.get(key);
+  if (!client) {
+    client = createOAuthClient();
+    client.setCredentials(tokens);
+    // Google only sends the refresh token once, so merge refreshed tokens into what we have
+    client.on('tokens', (newTokens) => {
+      userTokens.set(key, { ...userTokens.get(key), ...newTokens });
+      saveTokens();
+    });
+    userClients.set(key, client);
+  }
+  return client;
+}
+
+function dropUserClient(key: string): void {
+  userClients.get(key)?.removeAllListeners('tokens');
+  userClients.delete(key);
+}
+
+export function removeUserTokens(userId: number): void {
+  const key = userId.toString();
+  dropUserClient(key);
+  userTokens.delete(key);
+  saveTokens();
+  clearEventCache(userId).catch(error => console.error('Error clearing event cache:', error));
+}
+
+// Forgets the stored credentials without touching the Google grant
+export function logoutUser(userId: number): boolean {
+  if (!userTokens.has(userId.toString())) return false;
+  removeUserTokens(userId);
+  return true;
+}
+
+// Revokes the grant at Google, then deletes the stored credentials either way
+export async function revokeUserAccess(userId: number): Promise<'revoked' | 'deleted_only' | 'not_linked'> {
+  const tokens = userTokens.get(userId.toString());
+  if (!tokens) return 'not_linked';
+
+  try {
+    const token = tokens.refresh_token || tokens.access_token;
+    if (!token) return 'deleted_only';
+    await oauth2Client.revokeToken(token);
+    return 'revoked';
+  } catch (error) {
+    console.error('Error revoking Google grant:', error);
+    return 'deleted_only';
+  } finally {
+    removeUserTokens(userId);
+  }
+}
+
+// Converts a revoked refresh token into a ReauthorizationRequiredError and drops the dead credentials
+export function rethrowIfReauthorizationRequired(userId: number, error: unknown): void {
+  if (error instanceof ReauthorizationRequiredError) throw error;
+  if (isInvalidGrantError(error)) {
+    removeUserTokens(userId);
+    throw new ReauthorizationRequiredError(userId);
+  }
+}
+
+interface PendingAuthorization {
+  userId: number;
+  chatId: number;
+  codeVerifier: string;
+  expiresAt: number;
+}
+
+export type AuthorizationListener = (
+  userId: number,
+  chatId: number,
+  result: { success: boolean; reason?: string }
+) => void | Promise<void>;
+
+// Keyed by the nonce embedded in the signed state parameter
+const pendingAuthorizations = new Map<string, PendingAuthorization>();
+const listeners: AuthorizationListener[] = [];
+
+export function onAuthorizationComplete(listener: AuthorizationListener): void {
+  listeners.push(listener);
+}
+
+async function notifyListeners(pending: PendingAuthorization, success: boolean, reason?: string) {
+  for (const listener of listeners) {
+    try {
+      await listener(pending.userId, pending.chatId, { success, reason });
+    } catch (error) {
+      console.error('Error notifying authorization listener:', error);
+    }
+  }
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', STATE_SECRET).update(payload).digest('base64url');
+}
+
+function createState(nonce: string, userId: number): string {
+  const payload = Buffer.from(JSON.stringify({ n: nonce, u: userId })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+function verifyState(state: string): { nonce: string; userId: number } | null {
+  const [payload, signature] = state.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const { n, u } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return typeof n === 'string' && typeof u === 'number' ? { nonce: n, userId: u } : null;
+  } catch {
+    return null;
+  }
+}
+
+function purgeExpiredAuthorizations(now: number = Date.now()) {
+  for (const [nonce, pending] of pendingAuthorizations.entries()) {
+    if (pending.expiresAt <= now) {
+      pendingAuthorizations.delete(nonce);
+    }
+  }
+}
+
+setInterval(() => purgeExpiredAuthorizations(), 60 * 1000).unref();
+
+export async function startAuthProcess(userId: number, chatId: number = userId): Promise<string> {
+  purgeExpiredAuthorizations();
+
+  // Only the most recent link for a user stays valid
+  for (const [nonce, pending] of pendingAuthorizations.entries()) {
+    if (pending.userId === userId) pendingAuthorizations.delete(nonce);
+  }
+
+  const nonce = randomBytes(16).toString('hex');
+  const { codeVerifier, codeChallenge } = await oauth2Client.generateCodeVerifierAsync();
+  pendingAuthorizations.set(nonce, {
+    userId,
+    chatId,
+    codeVerifier,
+    expiresAt: Date.now() + PENDING_AUTH_TTL
+  });
+
+  return oauth2Client.generateAuthUrl({
+    access_type: 'offline',
+    scope: SCOPES,
+    prompt: 'consent',
+    state: createState(nonce, userId),
+    code_challenge_method: CodeChallengeMethod.S256,
+    code_challenge: codeChallenge
+  });
+}
+
+registerRoute('/oauth2callback', async (_req, res, url) => {
+  const verified = verifyState(url.searchParams.get('state') || '');
+  if (!verified) {
+    sendHtml(res, 400, 'Invalid authorization request. Please ask Remo for a new link.');
+    return;
+  }
+
+  const pending = pendingAuthorizations.get(verified.nonce);
+  if (!pending || pending.userId !== verified.userId || pending.expiresAt <= Date.now()) {
+    pendingAuthorizations.delete(verified.nonce);
+    sendHtml(res, 410, 'This authorization link has expired. Please ask Remo for a new one.');
+    return;
+  }
+  pendingAuthorizations.delete(verified.nonce);
+
+  const error = url.searchParams.get('error');
+  const code = url.searchParams.get('code');
+  if (error || !code) {
+    sendHtml(res, 400, 'Authorization was not completed. You can close this window.');
+    await notifyListeners(pending, false, error || 'missing_code');
+    return;
+  }
+
+  try {
+    const { tokens } = await oauth2Client.getToken({ code, codeVerifier: pending.codeVerifier });
+    const key = pending.userId.toString();
+    dropUserClient(key);
+    userTokens.set(key, tokens);
+    saveTokens();
+  } catch (tokenError) {
+    console.error('Error in OAuth callback:', tokenError);
+    sendHtml(res, 500, 'Authorization failed. Please try again.');
+    await notifyListeners(pending, false, 'token_exchange_failed');
+    return;
+  }
+  // The account linked now may not be the one before, so its calendars are fetched afresh
+  await clearEventCache(pending.userId).catch(error => console.error('Error clearing event cache:', error));
+
+  sendHtml(res, 200, 'Authorization successful! You can close this window and return to the bot.');
+  await notifyListeners(pending, true);
+});
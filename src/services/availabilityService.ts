@@ -0,0 +1,243 @@
+import type { CalendarEvent } from '../types';
+import type { CalendarProvider } from './calendarProvider';
+import { getCalendarProvider, toCalendarEvent } from './calendarService';
+import { rethrowIfReauthorizationRequired } from './authService';
+import {
+  DEFAULT_MIN_NOTICE_MINUTES,
+  DEFAULT_WORKING_HOURS,
+  PRIMARY_CALENDAR,
+  WorkingHours,
+  getDefaultCalendar,
+  getListedCalendars,
+  getUserPreferences,
+  getUserTimeZone
+} from './userPreferences';
+import { Interval, isFree, mergeIntervals, overlaps, subtractInterval } from '../utils/intervals';
+import { addDays, endOfDay, getZonedParts, startOfDay } from '../utils/timezone';
+import { currentTime } from '../utils/clock';
+
+// Alternative slots are only suggested within these local hours
+const DAY_START_HOUR = 8;
+const DAY_END_HOUR = 20;
+const SLOT_STEP = 30 * 60 * 1000;
+const ALTERNATIVE_COUNT = 3;
+
+export interface AvailabilityCheck {
+  isBusy: boolean;
+  conflicts: CalendarEvent[];
+  alternatives: Date[];
+}
+
+function isWithinDayHours(start: Date, end: Date, timeZone: string): boolean {
+  const startParts = getZonedParts(start, timeZone);
+  const endParts = getZonedParts(end, timeZone);
+  const endMinutes = endParts.hour * 60 + endParts.minute;
+  return startParts.day === endParts.day &&
+    startParts.hour >= DAY_START_HOUR &&
+    endMinutes <= DAY_END_HOUR * 60;
+}
+
+// Free slots of the same length, closest to the requested start first
+function findNearestFreeSlots(
+  busy: Interval[],
+  requestedStart: Date,
+  duration: number,
+  window: Interval,
+  timeZone: string
+): Date[] {
+  const candidates: Date[] = [];
+  const firstSlot = Math.ceil(window.start.getTime() / SLOT_STEP) * SLOT_STEP;
+
+  for (let time = firstSlot; time + duration <= window.end.getTime(); time += SLOT_STEP) {
+    const slot = { start: new Date(time), end: new Date(time + duration) };
+    if (time === requestedStart.getTime()) continue;
+    if (!isWithinDayHours(slot.start, slot.end, timeZone)) continue;
+    if (isFree(busy, slot)) candidates.push(slot.start);
+  }
+
+  return candidates
+    .sort((a, b) =>
+      Math.abs(a.getTime() - requestedStart.getTime()) - Math.abs(b.getTime() - requestedStart.getTime()))
+    .slice(0, ALTERNATIVE_COUNT)
+    .sort((a, b) => a.getTime() - b.getTime());
+}
+
+// Checks the user's free/busy data on the given calendars for the requested slot. The first calendar
+// is the meeting's own; ignoreEventId excludes the meeting being moved so it doesn't conflict with itself.
+export async function checkAvailability(
+  userId: number,
+  start: Date,
+  end: Date,
+  ignoreEventId?: string,
+  calendarIds: string[] = [PRIMARY_CALENDAR.id]
+): Promise<AvailabilityCheck> {
+  try {
+    const providers = calendarIds
+      .map(calendarId => getCalendarProvider(userId, calendarId))
+      .filter((provider): provider is CalendarProvider => !!provider);
+    if (!providers.length) return { isBusy: false, conflicts: [], alternatives: [] };
+
+    const timeZone = await getUserTimeZone(userId);
+    const now = currentTime();
+    const dayBefore = startOfDay(addDays(start, -1, timeZone), timeZone);
+    const window = {
+      start: dayBefore > now ? dayBefore : now,
+      end: endOfDay(addDays(start, 2, timeZone), timeZone)
+    };
+
+    // Each provider reports its own calendar
+    const busyByCalendar = await Promise.all(providers.map(provider => provider.freeBusy(window.start, window.end)));
+    let busy = busyByCalendar.flatMap(result => Object.values(result).flat());
+
+    if (ignoreEventId) {
+      const ignored = await providers[0].getEvent(ignoreEventId);
+      const ignoredStart = ignored?.start?.dateTime || ignored?.start?.date;
+      const ignoredEnd = ignored?.end?.dateTime || ignored?.end?.date;
+      if (ignoredStart && ignoredEnd) {
+        busy = subtractInterval(busy, { start: new Date(ignoredStart), end: new Date(ignoredEnd) });
+      }
+    }
+    busy = mergeIntervals(busy);
+
+    const requested = { start, end };
+    if (isFree(busy, requested)) return { isBusy: false, conflicts: [], alternatives: [] };
+
+    const events = await Promise.all(providers.map(provider => provider.listEvents({ timeMin: start, timeMax: end })));
+    const conflicts = events.flat()
+      .filter(event => event.id !== ignoreEventId && event.transparency !== 'transparent')
+      // A meeting shared between two of the calendars is one conflict
+      .filter((event, index, all) => all.findIndex(other => other.id === event.id) === index)
+      .map(event => toCalendarEvent(event, timeZone))
+      .filter(event => overlaps(requested, {
+        start: new Date(event.start.dateTime),
+        end: new Date(event.end.dateTime)
+      }));
+
+    return {
+      isBusy: true,
+      conflicts,
+      alternatives: findNearestFreeSlots(busy, start, end.getTime() - start.getTime(), window, timeZone)
+    };
+  } catch (error) {
+    rethrowIfReauthorizationRequired(userId, error);
+    // A failed check shouldn't block scheduling; the user just doesn't get a warning
+    console.error('Error checking availability:', error);
+    return { isBusy: false, conflicts: [], alternatives: [] };
+  }
+}
+
+export interface SlotSearchOptions {
+  attendees: string[];
+  durationMinutes: number;
+  rangeStart: Date;
+  rangeEnd: Date;
+  count?: number;
+  // Other bot users whose own calendars must be free too, e.g. the members of a group chat
+  members?: number[];
+  // The user's calendars to keep clear, the meeting's own first; the default and listed calendars if not given
+  calendarIds?: string[];
+}
+
+export interface SlotSuggestion {
+  start: Date;
+  end: Date;
+  score: number;
+}
+
+const MAX_SLOTS_PER_DAY = 2;
+
+// A member whose calendar can't be read counts as free rather than failing the whole search
+async function getMemberBusy(memberId: number, timeMin: Date, timeMax: Date): Promise<Interval[]> {
+  try {
+    const provider = getCalendarProvider(memberId);
+    if (!provider) return [];
+    const busyByCalendar = await provider.freeBusy(timeMin, timeMax, ['primary']);
+    return busyByCalendar.primary || [];
+  } catch (error) {
+    console.error(`Error reading free/busy for member ${memberId}:`, error);
+    return [];
+  }
+}
+
+// Lower is better: sooner days first, and within a day mid-morning/early-afternoon beats the edges
+function scoreSlot(slot: Interval, dayIndex: number, workingHours: WorkingHours, timeZone: string): number {
+  const { hour, minute } = getZonedParts(slot.start, timeZone);
+  const startHour = hour + minute / 60;
+  const distanceFromPreferred = Math.min(Math.abs(startHour - 10), Math.abs(startHour - 14));
+  const atDayEdge = startHour <= workingHours.start || startHour >= workingHours.end - 1 ? 1 : 0;
+  return dayIndex * 10 + distanceFromPreferred + atDayEdge * 2;
+}
+
+// Finds slots where the user, every attendee and every member are free, inside the user's working hours
+// and no sooner than their minimum notice period
+export async function findMeetingSlots(userId: number, options: SlotSearchOptions): Promise<SlotSuggestion[]> {
+  try {
+    const provider = getCalendarProvider(userId);
+    if (!provider) return [];
+
+    const timeZone = await getUserTimeZone(userId);
+    const preferences = await getUserPreferences(userId);
+    const workingHours = preferences.workingHours || DEFAULT_WORKING_HOURS;
+    const minNotice = (preferences.minNoticeMinutes ?? DEFAULT_MIN_NOTICE_MINUTES) * 60 * 1000;
+    const duration = options.durationMinutes * 60 * 1000;
+
+    const earliest = new Date(currentTime().getTime() + minNotice);
+    const rangeStart = options.rangeStart > earliest ? options.rangeStart : earliest;
+    if (rangeStart >= options.rangeEnd) return [];
+
+    const calendarIds = options.calendarIds || Array.from(new Set([
+      (await getDefaultCalendar(userId)).id,
+      ...(await getListedCalendars(userId)).map(calendar => calendar.id)
+    ]));
+    const providers = calendarIds
+      .map(calendarId => getCalendarProvider(userId, calendarId))
+      .filter((calendarProvider): calendarProvider is CalendarProvider => !!calendarProvider);
+    // Each provider reports its own calendar; attendees are looked up through the main one
+    const ownBusy = await Promise.all(providers.map(calendarProvider => calendarProvider.freeBusy(rangeStart, options.rangeEnd)));
+    const attendeeBusy = options.attendees.length
+      ? await provider.freeBusy(rangeStart, options.rangeEnd, options.attendees)
+      : {};
+    const memberBusy = await Promise.all((options.members || []).map(member => getMemberBusy(member, rangeStart, options.rangeEnd)));
+    const busy = mergeIntervals([
+      ...ownBusy.flatMap(result => Object.values(result).flat()),
+      ...Object.values(attendeeBusy).flat(),
+      ...memberBusy.flat()
+    ]);
+
+    const firstDay = startOfDay(rangeStart, timeZone);
+    const slotsPerDay = new Map<number, number>();
+    const candidates: SlotSuggestion[] = [];
+
+    const firstSlot = Math.ceil(rangeStart.getTime() / SLOT_STEP) * SLOT_STEP;
+    for (let time = firstSlot; time + duration <= options.rangeEnd.getTime(); time += SLOT_STEP) {
+      const slot = { start: new Date(time), end: new Date(time + duration) };
+      const parts = getZonedParts(slot.start, timeZone);
+      const endParts = getZonedParts(slot.end, timeZone);
+      const startHour = parts.hour + parts.minute / 60;
+      const endHour = endParts.hour + endParts.minute / 60;
+
+      if (!workingHours.days.includes(parts.weekday)) continue;
+      if (parts.day !== endParts.day || startHour < workingHours.start || endHour > workingHours.end) continue;
+      if (!isFree(busy, slot)) continue;
+
+      const dayIndex = Math.round((startOfDay(slot.start, timeZone).getTime() - firstDay.getTime()) / (24 * 60 * 60 * 1000));
+      candidates.push({ ...slot, score: scoreSlot(slot, dayIndex, workingHours, timeZone) });
+    }
+
+    // Best-scored first, but spread over several days rather than filling one
+    const ranked: SlotSuggestion[] = [];
+    for (const candidate of candidates.sort((a, b) => a.score - b.score)) {
+      const day = startOfDay(candidate.start, timeZone).getTime();
+      const taken = slotsPerDay.get(day) || 0;
+      if (taken >= MAX_SLOTS_PER_DAY) continue;
+      slotsPerDay.set(day, taken + 1);
+      ranked.push(candidate);
+      if (ranked.length >= (options.count || 5)) break;
+    }
+    return ranked;
+  } catch (error) {
+    rethrowIfReauthorizationRequired(userId, error);
+    console.error('Error finding meeting slots:', error);
+    return [];
+  }
+}
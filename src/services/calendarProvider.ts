@@ -0,0 +1,66 @@
+import type { calendar_v3 } from 'googleapis';
+
+// Events use the Google Calendar resource shape so every backend speaks the same format
+export type ProviderEvent = calendar_v3.Schema$Event;
+
+export interface ListEventsOptions {
+  timeMin: Date;
+  timeMax: Date;
+  maxResults?: number;
+}
+
+export interface WriteOptions {
+  sendUpdates?: 'all' | 'externalOnly' | 'none';
+}
+
+// A full sync covers timeMin to timeMax; later rounds pass only the token they were given
+export interface SyncOptions {
+  syncToken?: string;
+  timeMin?: Date;
+  timeMax?: Date;
+}
+
+// One round of incremental sync. Cancelled events come back with status 'cancelled'.
+export interface SyncResult {
+  events: ProviderEvent[];
+  nextSyncToken: string;
+}
+
+// The backend no longer accepts the sync token (Google answers 410 Gone); start over with a full sync
+export class SyncTokenExpiredError extends Error {
+  constructor() {
+    super('Sync token is no longer valid');
+    this.name = 'SyncTokenExpiredError';
+  }
+}
+
+// An entry of the user's calendar list. The user's own calendar always has the id 'primary'.
+export interface CalendarInfo {
+  id: string;
+  name: string;
+  primary: boolean;
+  // Whether the user may add and change events on it
+  writable: boolean;
+}
+
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface CalendarProvider {
+  listEvents(options: ListEventsOptions): Promise<ProviderEvent[]>;
+  getEvent(eventId: string): Promise<ProviderEvent | null>;
+  createEvent(event: ProviderEvent, options?: WriteOptions): Promise<ProviderEvent>;
+  patchEvent(eventId: string, patch: ProviderEvent, options?: WriteOptions): Promise<ProviderEvent>;
+  deleteEvent(eventId: string, options?: WriteOptions): Promise<void>;
+  // Busy intervals keyed by calendar id ('primary' for the user, emails for attendees)
+  freeBusy(timeMin: Date, timeMax: Date, calendarIds?: string[]): Promise<Record<string, BusyInterval[]>>;
+  // IANA zone configured on the calendar itself, when the backend has one
+  getTimeZone(): Promise<string | null>;
+  // Backends that support incremental sync: a full sync from timeMin without a token,
+  // otherwise only what changed since the token was issued
+  syncEvents?(options: SyncOptions): Promise<SyncResult>;
+  // Calendars the account can see, for backends that have more than one
+  listCalendars?(): Promise<CalendarInfo[]>;
+}
@@ -1,145 +1,230 @@
-import { google } from 'googleapis';
-import { OAuth2Client } from 'google-auth-library';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as http from 'http';
-import { URL } from 'url';
+import { randomUUID } from 'crypto';
+import type { CalendarInfo, CalendarProvider, ProviderEvent } from './calendarProvider';
+import { GoogleCalendarProvider } from './providers/googleCalendarProvider';
+import { LocalCalendarProvider } from './providers/localCalendarProvider';
+import { CachedCalendarProvider } from './providers/cachedCalendarProvider';
+import { getUserOAuthClient, rethrowIfReauthorizationRequired, userTokens } from './authService';
+import { CalendarChoice, PRIMARY_CALENDAR, getListedCalendars, getUserTimeZone } from './userPreferences';
+import { learnContacts } from './contacts';
+import { toIsoDate } from '../utils/dateParser';
+import { addDays, endOfDay, fromIsoDate, startOfDay } from '../utils/timezone';
+import { currentTime } from '../utils/clock';
+import {
+  RecurrenceRule,
+  countOccurrencesBefore,
+  formatRRule,
+  formatRecurrenceDate,
+  getRecurrenceRule,
+  parseRRule,
+  parseRecurrenceDate,
+  shiftRecurrenceDays
+} from '../utils/recurrence';
+import type { CalendarEvent, RecurrenceScope } from '../types';
 
-const TOKENS_PATH = path.join(__dirname, '../../tokens.json');
-const REDIRECT_URI = 'http://localhost:3000/oauth2callback';
+// 'google' (default) or 'local' for the file-backed calendar used in staging and tests
+const CALENDAR_PROVIDER = process.env.CALENDAR_PROVIDER || 'google';
+const LOCAL_CALENDAR_DIR = process.env.LOCAL_CALENDAR_DIR || path.join(__dirname, '../../data/calendars');
+const LOCAL_CALENDAR_FORMAT = process.env.LOCAL_CALENDAR_FORMAT === 'ics' ? 'ics' : 'json';
 
-export const oauth2Client = new OAuth2Client(
-  process.env.GOOGLE_CLIENT_ID,
-  process.env.GOOGLE_CLIENT_SECRET,
-  REDIRECT_URI
-);
+function isLocalProvider(): boolean {
+  return CALENDAR_PROVIDER === 'local';
+}
+
+export function isUserAuthorized(userId: number): boolean {
+  return isLocalProvider() || userTokens.has(userId.toString());
+}
 
-export let userTokens = new Map<string, any>();
+// Locally the primary calendar is <userId>.json and every other calendar <userId>.<calendarId>.json
+function localCalendarFile(userId: number, calendarId: string): string {
+  const name = calendarId === PRIMARY_CALENDAR.id ? `${userId}` : `${userId}.${calendarId}`;
+  return path.join(LOCAL_CALENDAR_DIR, `${name}.${LOCAL_CALENDAR_FORMAT}`);
+}
 
-// Load existing tokens
-try {
-  if (fs.existsSync(TOKENS_PATH)) {
-    const data = JSON.parse(fs.readFileSync(TOKENS_PATH, 'utf8'));
-    userTokens = new Map(Object.entries(data));
+export function getCalendarProvider(userId: number, calendarId: string = PRIMARY_CALENDAR.id): CalendarProvider | null {
+  if (isLocalProvider()) {
+    return new LocalCalendarProvider(localCalendarFile(userId, calendarId));
   }
-} catch (error) {
-  console.error('Error loading tokens:', error);
+
+  // Listings come from a synced copy of the calendar instead of a full events.list each time
+  const client = getUserOAuthClient(userId);
+  return client
+    ? new CachedCalendarProvider(`${userId}:${calendarId}`, new GoogleCalendarProvider(client, calendarId))
+    : null;
+}
+
+// "team-standup" -> "Team Standup"
+function localCalendarName(calendarId: string): string {
+  return calendarId.split(/[-_]/).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
 }
 
-function saveTokens() {
+function listLocalCalendars(userId: number): CalendarInfo[] {
+  const pattern = new RegExp(`^${userId}\\.([\\w-]+)\\.${LOCAL_CALENDAR_FORMAT}$`);
+  const others = (fs.existsSync(LOCAL_CALENDAR_DIR) ? fs.readdirSync(LOCAL_CALENDAR_DIR) : [])
+    .map(file => file.match(pattern)?.[1])
+    .filter((id): id is string => !!id)
+    .sort()
+    .map(id => ({ id, name: localCalendarName(id), primary: false, writable: true }));
+  return [{ ...PRIMARY_CALENDAR, primary: true, writable: true }, ...others];
+}
+
+// The user's calendars with the primary one first
+export async function listCalendars(userId: number): Promise<CalendarInfo[]> {
+  if (isLocalProvider()) return listLocalCalendars(userId);
+
   try {
-    const data = Object.fromEntries(userTokens);
-    fs.writeFileSync(TOKENS_PATH, JSON.stringify(data));
+    const provider = getCalendarProvider(userId);
+    if (!provider?.listCalendars) return [];
+    const calendars = await provider.listCalendars();
+    return calendars.sort((a, b) => Number(b.primary) - Number(a.primary));
   } catch (error) {
-    console.error('Error saving tokens:', error);
+    rethrowIfReauthorizationRequired(userId, error);
+    console.error('Error listing calendars:', error);
+    return [];
   }
 }
 
-export function isUserAuthorized(userId: number): boolean {
-  return userTokens.has(userId.toString());
+// Matches a calendar named in a request ("the Team calendar") against the calendar list
+export async function findCalendar(userId: number, name: string): Promise<CalendarInfo | null> {
+  const wanted = name.trim().toLowerCase();
+  if (!wanted) return null;
+  const calendars = await listCalendars(userId);
+  if (['primary', 'main', 'personal', 'own'].includes(wanted)) {
+    return calendars.find(calendar => calendar.primary) || null;
+  }
+  return calendars.find(calendar => calendar.name.toLowerCase() === wanted) ||
+    calendars.find(calendar => calendar.name.toLowerCase().includes(wanted)) ||
+    null;
 }
 
-export async function startAuthProcess(userId: number): Promise<string> {
-  return new Promise((resolve, reject) => {
-    // Create temporary server to handle the OAuth callback
-    const server = http.createServer(async (req, res) => {
-      try {
-        const url = new URL(req.url!, `http://${req.headers.host}`);
-        const code = url.searchParams.get('code');
-
-        if (code) {
-          const { tokens } = await oauth2Client.getToken(code);
-          userTokens.set(userId.toString(), tokens);
-          saveTokens();
-
-          res.writeHead(200, { 'Content-Type': 'text/html' });
-          res.end('Authorization successful! You can close this window and return to the bot.');
-          
-          server.close();
-        }
-      } catch (error) {
-        console.error('Error in OAuth callback:', error);
-        res.writeHead(500, { 'Content-Type': 'text/plain' });
-        res.end('Authorization failed. Please try again.');
-      }
-    });
+// Users whose calendar can be read: everyone with stored Google tokens, or one per calendar file locally
+export function getConnectedUserIds(): number[] {
+  const ids = isLocalProvider()
+    ? (fs.existsSync(LOCAL_CALENDAR_DIR) ? fs.readdirSync(LOCAL_CALENDAR_DIR) : [])
+      .map(file => file.match(/^(\d+)\.(json|ics)$/)?.[1])
+    : Array.from(userTokens.keys());
+  return ids.filter((id): id is string => !!id && /^\d+$/.test(id)).map(Number);
+}
 
-    server.listen(3000, () => {
-      const authUrl = oauth2Client.generateAuthUrl({
-        access_type: 'offline',
-        scope: ['https://www.googleapis.com/auth/calendar'],
-        prompt: 'consent'
-      });
-      resolve(authUrl);
-    });
+export async function getCalendarTimeZone(userId: number): Promise<string | null> {
+  try {
+    const provider = getCalendarProvider(userId);
+    return provider ? await provider.getTimeZone() : null;
+  } catch (error) {
+    rethrowIfReauthorizationRequired(userId, error);
+    console.error('Error reading calendar time zone:', error);
+    return null;
+  }
+}
 
-    server.on('error', (error) => {
-      console.error('Server error:', error);
-      reject(error);
-    });
-  });
+// All-day dates are placed in the user's time zone, where listings show them
+export function toCalendarEvent(event: ProviderEvent, timeZone: string): CalendarEvent {
+  const allDay = !event.start?.dateTime && !!event.start?.date;
+  const start = allDay
+    ? fromIsoDate(event.start!.date!, timeZone)
+    : new Date(event.start?.dateTime || currentTime());
+  const end = event.end?.dateTime ? new Date(event.end.dateTime)
+    : event.end?.date ? fromIsoDate(event.end.date, timeZone)
+    : allDay ? addDays(start, 1, timeZone) : start;
+
+  return {
+    id: event.id || '',
+    summary: event.summary || undefined,
+    description: event.description || undefined,
+    start: allDay ? { dateTime: start.toISOString(), date: event.start!.date! } : { dateTime: event.start?.dateTime || start.toISOString() },
+    end: allDay ? { dateTime: end.toISOString(), date: toIsoDate(end, timeZone) } : { dateTime: end.toISOString() },
+    allDay: allDay || undefined,
+    location: event.location || undefined,
+    meetLink: getMeetLink(event),
+    recurringEventId: event.recurringEventId || undefined,
+    attendees: event.attendees as CalendarEvent['attendees']
+  };
 }
 
+function getMeetLink(event: ProviderEvent): string | undefined {
+  const video = event.conferenceData?.entryPoints?.find(entryPoint => entryPoint.entryPointType === 'video');
+  return event.hangoutLink || video?.uri || undefined;
+}
+
+export async function getMeeting(
+  userId: number,
+  meetingId: string,
+  calendarId: string = PRIMARY_CALENDAR.id
+): Promise<CalendarEvent | null> {
+  try {
+    const provider = getCalendarProvider(userId, calendarId);
+    const event = provider ? await provider.getEvent(meetingId) : null;
+    return event && event.status !== 'cancelled' ? toCalendarEvent(event, await getUserTimeZone(userId)) : null;
+  } catch (error) {
+    rethrowIfReauthorizationRequired(userId, error);
+    console.error('Error fetching meeting:', error);
+    return null;
+  }
+}
+
+// Lists meetings from the given calendars, or the ones the user chose with /calendars,
+// merged into one list. Each meeting carries the calendar it came from.
 export async function listUpcomingEvents(
   userId: number, 
   days: number = 7,
   startDate?: Date,
-  endDate?: Date
+  endDate?: Date,
+  calendars?: CalendarChoice[]
 ): Promise<CalendarEvent[]> {
   try {
     console.log('listUpcomingEvents called with:', { userId, days, startDate, endDate });
     
-    const userToken = userTokens.get(userId.toString());
-    if (!userToken) {
+    if (!isUserAuthorized(userId)) {
       console.error('User not authorized');
       return [];
     }
-
-    oauth2Client.setCredentials(userToken);
-    const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
+    const sources = calendars || await getListedCalendars(userId);
 
     // Use provided dates or calculate based on days
-    const timeMin = startDate ? new Date(startDate) : new Date();
+    const timeMin = startDate ? new Date(startDate) : currentTime();
     const timeMax = endDate ? new Date(endDate) : new Date(timeMin.getTime() + days * 24 * 60 * 60 * 1000);
 
-    // Ensure we're using the full day range
-    timeMin.setHours(0, 0, 0, 0);
-    timeMax.setHours(23, 59, 59, 999);
+    // Ensure we're using the full day range in the user's time zone
+    const timeZone = await getUserTimeZone(userId);
+    const rangeStart = startOfDay(timeMin, timeZone);
+    const rangeEnd = endOfDay(timeMax, timeZone);
 
     console.log('Fetching events with timeRange:', {
-      timeMin: timeMin.toISOString(),
-      timeMax: timeMax.toISOString()
-    });
-
-    const response = await calendar.events.list({
-      calendarId: 'primary',
-      timeMin: timeMin.toISOString(),
-      timeMax: timeMax.toISOString(),
-      singleEvents: true,
-      orderBy: 'startTime',
-      maxResults: 100
+      timeMin: rangeStart.toISOString(),
+      timeMax: rangeEnd.toISOString(),
+      timeZone
     });
 
-    const events = response.data.items || [];
+    const listed = await Promise.all(sources.map(async calendar => {
+      const provider = getCalendarProvider(userId, calendar.id);
+      try {
+        const events = provider ? await provider.listEvents({ timeMin: rangeStart, timeMax: rangeEnd, maxResults: 100 }) : [];
+        return events.map(event => ({ event, calendar }));
+      } catch (error) {
+        // One calendar the user lost access to shouldn't hide the others
+        if (sources.length === 1) throw error;
+        rethrowIfReauthorizationRequired(userId, error);
+        console.error(`Error listing events of calendar ${calendar.id}:`, error);
+        return [];
+      }
+    }));
+    const events = listed.flat().map(({ event }) => event);
     console.log(`Found ${events.length} events`);
 
-    // Filter events to ensure they fall within the requested date range
-    // and convert to CalendarEvent type
-    const filteredEvents = events
+    // Attendees of the user's meetings fill the contacts book for name lookups
+    await learnContacts(userId, events.flatMap(event => event.attendees || []))
+      .catch(error => console.error('Error learning contacts:', error));
+
+    // Keep events overlapping the requested days, including multi-day ones that began earlier
+    const filteredEvents = listed.flat()
+      .filter(({ event }) => event.start?.dateTime || event.start?.date)
+      .map(({ event, calendar }) => ({ ...toCalendarEvent(event, timeZone), calendarId: calendar.id, calendarName: calendar.name }))
       .filter(event => {
-        if (!event.start?.dateTime && !event.start?.date) return false;
-        const eventStart = new Date(event.start.dateTime || event.start.date || '');
-        return eventStart >= timeMin && eventStart <= timeMax;
-      })
-      .map(event => ({
-        id: event.id || '',
-        summary: event.summary,
-        description: event.description,
-        start: {
-          dateTime: event.start?.dateTime || event.start?.date || new Date().toISOString()
-        },
-        attendees: event.attendees
-      })) as CalendarEvent[];
+        const eventStart = new Date(event.start.dateTime);
+        const eventEnd = new Date(event.end.dateTime);
+        return eventStart <= rangeEnd && (eventEnd > rangeStart || eventStart >= rangeStart);
+      });
 
     console.log(`Filtered to ${filteredEvents.length} events within range`);
 
@@ -151,67 +236,278 @@ export async function listUpcomingEvents(
     });
 
   } catch (error) {
+    rethrowIfReauthorizationRequired(userId, error);
     console.error('Error listing events:', error);
     throw error;
   }
 }
 
+export interface MeetingExtras {
+  location?: string;
+  // Asks Google to generate a Meet link for the event
+  conference?: boolean;
+  // Calendar to add the meeting to, the primary one when unset
+  calendarId?: string;
+  // Whole days from the start date up to, not including, the end date
+  allDay?: boolean;
+}
+
+// All-day events are stored as dates; Google's end date is the day after the last one
+function toEventTimes(start: Date, end: Date, timeZone: string, allDay: boolean): Pick<ProviderEvent, 'start' | 'end'> {
+  return allDay ? {
+    start: { date: toIsoDate(start, timeZone), timeZone },
+    end: { date: toIsoDate(end, timeZone), timeZone }
+  } : {
+    start: { dateTime: start.toISOString(), timeZone },
+    end: { dateTime: end.toISOString(), timeZone }
+  };
+}
+
+function isAllDayEvent(event: ProviderEvent): boolean {
+  return !event.start?.dateTime && !!event.start?.date;
+}
+
+// Returns the created meeting, with its Meet link when one was requested, or null on failure
 export async function createMeeting(
   userId: number,
   summary: string,
   description: string,
   startTime: Date,
   endTime: Date,
-  attendees: string[]
-): Promise<boolean> {
+  attendees: string[],
+  recurrence?: string[],
+  extras: MeetingExtras = {}
+): Promise<CalendarEvent | null> {
   try {
-    const userToken = userTokens.get(userId.toString());
-    if (!userToken) throw new Error('User not authorized');
-
-    oauth2Client.setCredentials(userToken);
-    const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
+    const calendarId = extras.calendarId || PRIMARY_CALENDAR.id;
+    const provider = getCalendarProvider(userId, calendarId);
+    if (!provider) throw new Error('User not authorized');
+    const timeZone = await getUserTimeZone(userId);
 
     const event = {
       summary,
       description,
-      start: {
-        dateTime: startTime.toISOString(),
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      },
-      end: {
-        dateTime: endTime.toISOString(),
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      },
+      ...toEventTimes(startTime, endTime, timeZone, !!extras.allDay),
       attendees: attendees.map(email => ({ email })),
+      recurrence,
+      location: extras.location,
+      conferenceData: extras.conference ? {
+        createRequest: { requestId: randomUUID(), conferenceSolutionKey: { type: 'hangoutsMeet' } }
+      } : undefined,
     };
 
-    await calendar.events.insert({
-      calendarId: 'primary',
-      requestBody: event,
-      sendUpdates: 'all',
-    });
-
-    return true;
+    return { ...toCalendarEvent(await provider.createEvent(event, { sendUpdates: 'all' }), timeZone), calendarId };
   } catch (error) {
+    rethrowIfReauthorizationRequired(userId, error);
     console.error('Error creating meeting:', error);
-    return false;
+    return null;
   }
 }
 
-interface CalendarEvent {
-  id: string;
+// Fields left undefined keep their value; an empty summary, description or location clears it
+export async function updateMeeting(userId: number, meetingId: string, updates: {
   summary?: string;
   description?: string;
-  start: {
-    dateTime: string;
-    date?: string;
-  };
-  end: {
-    dateTime: string;
-    date?: string;
+  location?: string;
+  attendees?: string[];
+  startTime?: Date;
+  endTime?: Date;
+}, calendarId: string = PRIMARY_CALENDAR.id): Promise<boolean> {
+  try {
+    const provider = getCalendarProvider(userId, calendarId);
+    if (!provider) return false;
+
+    // Get existing event
+    const event = await provider.getEvent(meetingId);
+    if (!event) return false;
+    const timeZone = await getUserTimeZone(userId);
+
+    // Update with new details
+    const current = toCalendarEvent(event, timeZone);
+    const times = toEventTimes(
+      updates.startTime || new Date(current.start.dateTime),
+      updates.endTime || new Date(current.end.dateTime),
+      timeZone,
+      isAllDayEvent(event)
+    );
+    await provider.patchEvent(meetingId, {
+      ...event,
+      summary: updates.summary !== undefined ? updates.summary : event.summary,
+      description: updates.description !== undefined ? updates.description : event.description,
+      location: updates.location !== undefined ? updates.location : event.location,
+      attendees: updates.attendees?.map(email => ({ email })) || event.attendees,
+      start: updates.startTime ? times.start : event.start,
+      end: updates.endTime ? times.end : event.end
+    }, { sendUpdates: 'all' });
+
+    return true;
+  } catch (error) {
+    rethrowIfReauthorizationRequired(userId, error);
+    console.error('Error updating meeting:', error);
+    return false;
+  }
+}
+
+interface SeriesContext {
+  series: ProviderEvent;
+  rule: RecurrenceRule;
+  seriesStart: Date;
+  originalStart: Date;
+  timeZone: string;
+}
+
+// Resolves the series an occurrence belongs to, or null for one-off events
+async function getSeriesContext(
+  provider: CalendarProvider,
+  occurrence: ProviderEvent,
+  userTimeZone: string
+): Promise<SeriesContext | null> {
+  if (!occurrence.recurringEventId) return null;
+  const series = await provider.getEvent(occurrence.recurringEventId);
+  const rule = getRecurrenceRule(series?.recurrence);
+  const seriesStart = series?.start?.dateTime;
+  const originalStart = occurrence.originalStartTime?.dateTime || occurrence.start?.dateTime;
+  if (!series || !rule || !seriesStart || !originalStart) return null;
+
+  return {
+    series,
+    rule,
+    seriesStart: new Date(seriesStart),
+    originalStart: new Date(originalStart),
+    timeZone: series.start?.timeZone || userTimeZone
   };
-  attendees?: Array<{
-    email: string;
-    responseStatus?: string;
-  }>;
-} 
\ No newline at end of file
+}
+
+// Replaces the RRULE line, keeping EXDATE/RDATE lines as they were
+function replaceRule(recurrence: string[], rule: RecurrenceRule): string[] {
+  return recurrence.map(line => parseRRule(line) ? formatRRule(rule) : line);
+}
+
+// Moves UTC EXDATEs along with a shifted series so skipped occurrences stay skipped
+function shiftExcludedDates(recurrence: string[], shift: number): string[] {
+  return recurrence.map(line => {
+    if (!line.toUpperCase().startsWith('EXDATE:')) return line;
+    const dates = line.slice(7).split(',').map(parseRecurrenceDate);
+    if (dates.some(date => !date)) return line;
+    return `EXDATE:${dates.map(date => formatRecurrenceDate(new Date(date!.getTime() + shift))).join(',')}`;
+  });
+}
+
+// Ends the series just before the given occurrence
+async function endSeriesBefore(provider: CalendarProvider, context: SeriesContext): Promise<void> {
+  const until = new Date(context.originalStart.getTime() - 1000);
+  await provider.patchEvent(context.series.id!, {
+    recurrence: replaceRule(context.series.recurrence!, { ...context.rule, count: undefined, until })
+  }, { sendUpdates: 'all' });
+}
+
+export async function rescheduleMeeting(
+  userId: number,
+  meetingId: string,
+  newTime: Date,
+  scope: RecurrenceScope = 'single',
+  calendarId: string = PRIMARY_CALENDAR.id
+): Promise<boolean> {
+  try {
+    const provider = getCalendarProvider(userId, calendarId);
+    if (!provider) return false;
+
+    // Get existing event
+    const event = await provider.getEvent(meetingId);
+    if (!event) return false;
+    const timeZone = await getUserTimeZone(userId);
+
+    // Calculate new end time maintaining same duration
+    const current = toCalendarEvent(event, timeZone);
+    const duration = new Date(current.end.dateTime).getTime() - new Date(current.start.dateTime).getTime();
+    const newEndTime = new Date(newTime.getTime() + duration);
+
+    const context = scope === 'single' ? null : await getSeriesContext(provider, event, timeZone);
+    if (context) {
+      const rule = shiftRecurrenceDays(context.rule, context.originalStart, newTime, context.timeZone);
+
+      if (scope === 'all' || context.originalStart.getTime() === context.seriesStart.getTime()) {
+        // Shift the whole series by the same amount the chosen occurrence moved
+        const shift = newTime.getTime() - context.originalStart.getTime();
+        const seriesStart = new Date(context.seriesStart.getTime() + shift);
+        await provider.patchEvent(context.series.id!, {
+          start: { dateTime: seriesStart.toISOString(), timeZone: context.timeZone },
+          end: { dateTime: new Date(seriesStart.getTime() + duration).toISOString(), timeZone: context.timeZone },
+          recurrence: shiftExcludedDates(replaceRule(context.series.recurrence!, rule), shift)
+        }, { sendUpdates: 'all' });
+        return true;
+      }
+
+      // "This and following": end the old series and start a new one from the moved occurrence
+      const remaining = context.rule.count
+        ? context.rule.count - countOccurrencesBefore(context.rule, context.seriesStart, context.timeZone, context.originalStart)
+        : undefined;
+      await endSeriesBefore(provider, context);
+      await provider.createEvent({
+        summary: context.series.summary,
+        description: context.series.description,
+        location: context.series.location,
+        attendees: context.series.attendees,
+        start: { dateTime: newTime.toISOString(), timeZone: context.timeZone },
+        end: { dateTime: newEndTime.toISOString(), timeZone: context.timeZone },
+        recurrence: [formatRRule({ ...rule, count: remaining })]
+      }, { sendUpdates: 'all' });
+      return true;
+    }
+
+    // Update event time
+    await provider.patchEvent(meetingId, toEventTimes(newTime, newEndTime, timeZone, isAllDayEvent(event)), { sendUpdates: 'all' });
+
+    return true;
+  } catch (error) {
+    rethrowIfReauthorizationRequired(userId, error);
+    console.error('Error rescheduling meeting:', error);
+    return false;
+  }
+}
+
+// The API can't attach a message to a cancellation, but Google's cancellation email
+// includes the event description, so the note is written there before deleting
+async function addCancellationNote(provider: CalendarProvider, eventId: string, note: string): Promise<void> {
+  const event = await provider.getEvent(eventId);
+  if (!event) return;
+  await provider.patchEvent(eventId, {
+    description: `Cancellation note: ${note}` + (event.description ? `\n\n${event.description}` : '')
+  }, { sendUpdates: 'none' });
+}
+
+export async function cancelMeeting(
+  userId: number,
+  meetingId: string,
+  scope: RecurrenceScope = 'single',
+  note?: string,
+  calendarId: string = PRIMARY_CALENDAR.id
+): Promise<boolean> {
+  try {
+    const provider = getCalendarProvider(userId, calendarId);
+    if (!provider) return false;
+
+    let eventId = meetingId;
+    if (scope !== 'single') {
+      const event = await provider.getEvent(meetingId);
+      const context = event ? await getSeriesContext(provider, event, await getUserTimeZone(userId)) : null;
+
+      if (context && scope === 'following' && context.originalStart > context.seriesStart) {
+        // Ending the series early is what notifies attendees, so the note goes on it first
+        if (note) await addCancellationNote(provider, context.series.id!, note);
+        await endSeriesBefore(provider, context);
+        return true;
+      }
+      if (context) eventId = context.series.id!;
+    }
+
+    if (note) await addCancellationNote(provider, eventId, note);
+    await provider.deleteEvent(eventId, { sendUpdates: 'all' });
+
+    return true;
+  } catch (error) {
+    rethrowIfReauthorizationRequired(userId, error);
+    console.error('Error canceling meeting:', error);
+    return false;
+  }
+}
@@ -0,0 +1,16 @@
+import { OpenAIApi, Configuration } from 'openai';
+
+// Only the call the bot makes, so tests can pass a scripted model
+export type ChatModel = Pick<OpenAIApi, 'createChatCompletion'>;
+
+let model: ChatModel | null = null;
+
+export function getChatModel(): ChatModel {
+  if (!model) model = new OpenAIApi(new Configuration({ apiKey: process.env.OPENAI_API_KEY }));
+  return model;
+}
+
+// Swaps the model, e.g. for a scripted one in tests
+export function setChatModel(replacement: ChatModel | null): void {
+  model = replacement;
+}
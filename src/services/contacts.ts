@@ -0,0 +1,101 @@
+import { getStateStore, StateMap } from './stateStore';
+
+export interface Contact {
+  name: string;
+  email: string;
+  // 'learned' contacts come from meeting attendees and never replace ones the user added
+  source: 'manual' | 'learned';
+}
+
+export interface AttendeeLike {
+  email?: string | null;
+  displayName?: string | null;
+  self?: boolean | null;
+  resource?: boolean | null;
+}
+
+// Contacts never expire
+const contacts = new StateMap<Contact[]>(getStateStore(), 'contacts');
+
+const EMAIL_PATTERN = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+
+export function isEmail(value: string): boolean {
+  return EMAIL_PATTERN.test(value);
+}
+
+// "john smith" -> "John Smith"
+export function formatName(name: string): string {
+  return name.trim().split(/\s+/)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+}
+
+// "john.smith42@example.com" -> "John Smith"
+export function nameFromEmail(email: string): string {
+  const parts = email.split('@')[0]
+    .split(/[._-]+/)
+    .map(part => part.replace(/\d+/g, '').toLowerCase())
+    .filter(Boolean);
+  return parts.length ? formatName(parts.join(' ')) : email;
+}
+
+export async function getContacts(userId: number): Promise<Contact[]> {
+  return (await contacts.get(userId)) || [];
+}
+
+export async function addContact(
+  userId: number,
+  name: string,
+  email: string,
+  source: Contact['source'] = 'manual'
+): Promise<Contact> {
+  const contact: Contact = { name: formatName(name), email: email.trim().toLowerCase(), source };
+  const existing = (await getContacts(userId)).filter(entry => entry.email !== contact.email);
+  await contacts.set(userId, [...existing, contact].sort((a, b) => a.name.localeCompare(b.name)));
+  return contact;
+}
+
+// Removes by email or by exact (case-insensitive) name. Returns the removed contacts.
+export async function removeContact(userId: number, nameOrEmail: string): Promise<Contact[]> {
+  const key = nameOrEmail.trim().toLowerCase();
+  const all = await getContacts(userId);
+  const removed = all.filter(contact => contact.email === key || contact.name.toLowerCase() === key);
+  if (removed.length) {
+    await contacts.set(userId, all.filter(contact => !removed.includes(contact)));
+  }
+  return removed;
+}
+
+// Adds attendees the user hasn't saved yet, skipping the user themself and meeting rooms
+export async function learnContacts(userId: number, attendees: AttendeeLike[]): Promise<void> {
+  const all = await getContacts(userId);
+  const known = new Set(all.map(contact => contact.email));
+  const learned: Contact[] = [];
+
+  for (const attendee of attendees) {
+    const email = attendee.email?.toLowerCase();
+    if (!email || attendee.self || attendee.resource || known.has(email) || !isEmail(email)) continue;
+    known.add(email);
+    learned.push({ name: attendee.displayName?.trim() || nameFromEmail(email), email, source: 'learned' });
+  }
+
+  if (learned.length) {
+    await contacts.set(userId, [...all, ...learned].sort((a, b) => a.name.localeCompare(b.name)));
+  }
+}
+
+// Contacts a name could refer to: an exact full name wins, otherwise any contact whose
+// first name, surname or email starts with it
+export async function resolveContact(userId: number, name: string): Promise<Contact[]> {
+  const key = name.trim().toLowerCase();
+  if (!key) return [];
+
+  const all = await getContacts(userId);
+  const exact = all.filter(contact => contact.name.toLowerCase() === key || contact.email === key);
+  if (exact.length) return exact;
+
+  return all.filter(contact =>
+    contact.name.toLowerCase().split(/\s+/).some(part => part.startsWith(key)) ||
+    contact.email.startsWith(key)
+  );
+}
@@ -0,0 +1,114 @@
+import type { ChatCompletionFunctions } from 'openai';
+import type { ChatModel } from '../chatModel';
+import type { ExtractionContext, IntentExtractor, IntentResult, MeetingSlots } from '../intentExtractor';
+import { INTENTS } from '../intentExtractor';
+import { formatDate, formatTime } from '../../utils/timezone';
+
+const FUNCTION_NAME = 'extract_meeting_intent';
+
+const EXTRACT_FUNCTION: ChatCompletionFunctions = {
+  name: FUNCTION_NAME,
+  description: 'Classify a message sent to a calendar assistant and pull out the meeting details it mentions.',
+  parameters: {
+    type: 'object',
+    properties: {
+      intent: {
+        type: 'string',
+        enum: INTENTS,
+        description:
+          'create: schedule a new meeting or block time off. list: show meetings or the agenda. update: change title, description, ' +
+          'location, attendees or duration. reschedule: move a meeting to another time. cancel: cancel a meeting. ' +
+          'chat: anything else, including statements about meetings that ask for no action ("I can\'t move today").'
+      },
+      date: { type: 'string', description: 'Meeting date as YYYY-MM-DD, resolved against the current date' },
+      time: { type: 'string', description: 'Start time as 24-hour HH:MM' },
+      duration_minutes: { type: 'integer', description: 'Meeting length in minutes' },
+      attendees: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Email addresses, or first names when no email is given'
+      },
+      title: { type: 'string', description: 'Meeting title, if the user names one' },
+      location: { type: 'string', description: 'Where the meeting takes place (a room, office or address), if given' },
+      video_call: { type: 'boolean', description: 'True when the user wants a video call or a Google Meet link' },
+      all_day: { type: 'boolean', description: 'True for a whole-day event, e.g. blocking a day off or an all-day offsite' },
+      end_date: { type: 'string', description: 'Last day of an all-day event that spans several days, as YYYY-MM-DD' },
+      calendar: { type: 'string', description: 'Name of the calendar to add to or look at, if the user names one (e.g. "Team")' },
+      description: { type: 'string', description: 'Meeting description or agenda, if given' }
+    },
+    required: ['intent']
+  }
+};
+
+interface ExtractArguments {
+  intent?: string;
+  date?: string;
+  time?: string;
+  duration_minutes?: number;
+  attendees?: string[];
+  title?: string;
+  location?: string;
+  video_call?: boolean;
+  calendar?: string;
+  all_day?: boolean;
+  end_date?: string;
+  description?: string;
+}
+
+// Uses function calling so the model answers with typed arguments instead of prose
+export class OpenAIIntentExtractor implements IntentExtractor {
+  constructor(private model: ChatModel, private modelName: string = process.env.INTENT_MODEL || 'gpt-3.5-turbo') {}
+
+  async extract(message: string, context: ExtractionContext): Promise<IntentResult> {
+    const now = `${formatDate(context.now, context.timeZone, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })} ` +
+      `${formatTime(context.now, context.timeZone)} (${context.timeZone})`;
+
+    const completion = await this.model.createChatCompletion({
+      model: this.modelName,
+      messages: [
+        {
+          role: 'system',
+          content: `You read messages sent to a calendar assistant. It is now ${now}. ` +
+            'Only fill in details the user actually mentioned.'
+        },
+        { role: 'user', content: message }
+      ],
+      functions: [EXTRACT_FUNCTION],
+      function_call: { name: FUNCTION_NAME },
+      temperature: 0
+    });
+
+    const call = completion.data.choices[0]?.message?.function_call;
+    if (call?.name !== FUNCTION_NAME || !call.arguments) {
+      throw new Error('Model did not call the extraction function');
+    }
+    return parseArguments(JSON.parse(call.arguments));
+  }
+}
+
+function parseArguments(args: ExtractArguments): IntentResult {
+  const intent = INTENTS.find(candidate => candidate === args.intent);
+  if (!intent) throw new Error(`Unknown intent from model: ${args.intent}`);
+
+  const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  const time = text(args.time);
+  const date = text(args.date);
+  const endDate = text(args.end_date);
+  const duration = Number.isInteger(args.duration_minutes) && args.duration_minutes! > 0 ? args.duration_minutes : undefined;
+  const attendees = Array.isArray(args.attendees) ? args.attendees.map(text).filter((entry): entry is string => !!entry) : [];
+
+  const slots: MeetingSlots = {
+    date: date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : undefined,
+    time: time && /^([01]\d|2[0-3]):[0-5]\d$/.test(time) ? time : undefined,
+    duration,
+    attendees: attendees.length ? attendees : undefined,
+    title: text(args.title),
+    location: text(args.location),
+    conference: args.video_call === true || undefined,
+    calendar: text(args.calendar),
+    allDay: args.all_day === true || undefined,
+    endDate: endDate && /^\d{4}-\d{2}-\d{2}$/.test(endDate) ? endDate : undefined,
+    description: text(args.description)
+  };
+  return { intent, slots };
+}
@@ -0,0 +1,76 @@
+import type { ExtractionContext, Intent, IntentExtractor, IntentResult, MeetingSlots } from '../intentExtractor';
+import { ALL_DAY_PATTERN, analyzeMeetingRequest } from '../../utils/meetingParser';
+import { bestGuess, parseDate, parseDateRange, parseRelativeDateTime, toIsoDate } from '../../utils/dateParser';
+import { startOfDay, toWallClockTime } from '../../utils/timezone';
+
+// "I can't move today" or "don't cancel anything" talk about meetings without asking for a change
+const NEGATION = /\b(can'?t|cannot|can not|won'?t|don'?t|didn'?t|couldn'?t|shouldn'?t|not able to|unable to)\b/i;
+
+const CANCEL = /\b(cancel|delete|remove|call off)\b.*\b(meetings?|appointments?|calls?|events?|stand-?ups?|syncs?)\b/i;
+const LIST = [
+  /\b(check|list|show|view|get|see)\b.*\b(meetings|schedule|calendar|agenda)\b/i,
+  /\bwhat('?s| is| do i have)\b.*\b(on my calendar|on my schedule|meetings?|planned)\b/i,
+  /\b(am i|are we) (free|busy)\b/i
+];
+const RESCHEDULE = /\b(reschedule|move|postpone|push back|push|shift|bring forward)\b/i;
+const UPDATE = /\b(update|change|modify|edit|rename)\b/i;
+const SCHEDULE = /\b(schedule|set\s*up|book|arrange|plan|organi[sz]e)\b/i;
+const MEETING_NOUN = /\b(meeting|appointment|stand-?up|sync|1:1|one-on-one|interview)\b/i;
+// "call" alone is usually a phone call ("call mom"), so only "a call with ..." counts
+const CALL_WITH = /\bcall\s+with\b/i;
+// "I have a meeting with Bob" reports a meeting rather than asking for one
+const STATEMENT = /\b(i|we)\s+(have|had|'ve got|got)\b/i;
+
+// Deterministic extractor used offline, in tests and when the model can't be reached
+export class RuleBasedIntentExtractor implements IntentExtractor {
+  async extract(message: string, context: ExtractionContext): Promise<IntentResult> {
+    return { intent: this.classify(message), slots: this.extractSlots(message, context) };
+  }
+
+  private classify(message: string): Intent {
+    const negatedAction = NEGATION.test(message) && !SCHEDULE.test(message.split(NEGATION)[0]);
+    if (negatedAction) return 'chat';
+
+    if (CANCEL.test(message)) return 'cancel';
+    if (LIST.some(pattern => pattern.test(message))) return 'list';
+    if (ALL_DAY_PATTERN.test(message)) return 'create';
+
+    const scheduling = SCHEDULE.test(message);
+    if (RESCHEDULE.test(message) && !scheduling) return 'reschedule';
+    if (UPDATE.test(message) && !scheduling) return 'update';
+
+    if (scheduling) return 'create';
+    if ((MEETING_NOUN.test(message) || CALL_WITH.test(message)) && !STATEMENT.test(message)) return 'create';
+    return 'chat';
+  }
+
+  private extractSlots(message: string, context: ExtractionContext): MeetingSlots {
+    const { extractedInfo } = analyzeMeetingRequest(message);
+    const attendees = [...(extractedInfo.emails || [])];
+    if (!attendees.length && extractedInfo.name) attendees.push(extractedInfo.name);
+
+    const title = message.match(/\b(?:called|titled|named)\s+["“]?([^"”,.]+)["”]?/i)?.[1].trim();
+
+    // "in 2 hours" fixes both the day and the time
+    const relative = parseRelativeDateTime(message, context);
+    const day = relative || bestGuess(parseDate(message, context));
+
+    // "off Monday to Wednesday" blocks every day of the range
+    const range = extractedInfo.allDay ? bestGuess(parseDateRange(message, context)) : null;
+    const lastDay = range && startOfDay(range.end, context.timeZone) > range.start ? range.end : null;
+
+    return {
+      date: lastDay ? toIsoDate(range!.start, context.timeZone) : day ? toIsoDate(day, context.timeZone) : extractedInfo.date,
+      time: relative ? toWallClockTime(relative, context.timeZone) : extractedInfo.time,
+      duration: extractedInfo.duration,
+      attendees: attendees.length ? attendees : undefined,
+      title,
+      location: extractedInfo.location,
+      conference: extractedInfo.videoCall || undefined,
+      calendar: extractedInfo.calendar,
+      allDay: extractedInfo.allDay || undefined,
+      endDate: lastDay ? toIsoDate(lastDay, context.timeZone) : undefined,
+      description: extractedInfo.description
+    };
+  }
+}
@@ -0,0 +1,161 @@
+import { randomUUID } from 'crypto';
+import type { CalendarEvent } from '../types';
+import { createMeeting } from './calendarService';
+import { getStateStore, StateMap } from './stateStore';
+import { getDefaultCalendar } from './userPreferences';
+import { createKeyedQueue } from '../utils/keyedQueue';
+
+// Telegram doesn't list a group's members to bots, so members are the people the bot has seen talk to it there
+export interface GroupMember {
+  userId: number;
+  name: string;
+}
+
+export interface ProposedSlot {
+  start: Date;
+  end: Date;
+}
+
+// A time offered to a group. Each participant confirms it; a decline moves on to the next slot.
+export interface GroupProposal {
+  id: string;
+  chatId: number;
+  organizerId: number;
+  title: string;
+  slot: ProposedSlot;
+  // Later slots, offered in turn when someone can't make it
+  alternatives: ProposedSlot[];
+  participants: GroupMember[];
+  confirmed: number[];
+  // Set once everyone has confirmed: the participants whose calendar already has the meeting.
+  // The proposal stays until it's on every calendar, so a failed booking can be retried.
+  booked?: number[];
+}
+
+export type ProposalAnswer =
+  | { kind: 'expired' }
+  | { kind: 'not_invited' }
+  | { kind: 'waiting'; proposal: GroupProposal }
+  | { kind: 'moved'; proposal: GroupProposal; declinedBy: GroupMember }
+  | { kind: 'no_slots'; proposal: GroupProposal; declinedBy: GroupMember }
+  | { kind: 'booked'; proposal: GroupProposal; failed: GroupMember[] };
+
+// Unanswered proposals are dropped after two days
+const PROPOSAL_TTL = 2 * 24 * 60 * 60 * 1000;
+
+const stateStore = getStateStore();
+const groupMembers = new StateMap<GroupMember[]>(stateStore, 'groupMembers');
+const proposals = new StateMap<GroupProposal>(stateStore, 'groupProposals', PROPOSAL_TTL);
+// Members often answer within moments of each other
+const proposalUpdates = createKeyedQueue();
+
+export async function rememberGroupMember(chatId: number, member: GroupMember): Promise<void> {
+  const members = await getGroupMembers(chatId);
+  const known = members.find(existing => existing.userId === member.userId);
+  if (known && known.name === member.name) return;
+
+  await groupMembers.set(chatId, [...members.filter(existing => existing.userId !== member.userId), member]);
+}
+
+export async function getGroupMembers(chatId: number): Promise<GroupMember[]> {
+  return (await groupMembers.get(chatId)) || [];
+}
+
+export async function createProposal(
+  chatId: number,
+  organizerId: number,
+  title: string,
+  participants: GroupMember[],
+  slots: ProposedSlot[]
+): Promise<GroupProposal> {
+  const proposal: GroupProposal = {
+    // Short enough for Telegram's 64-byte callback data
+    id: randomUUID().slice(0, 8),
+    chatId,
+    organizerId,
+    title,
+    slot: slots[0],
+    alternatives: slots.slice(1),
+    participants,
+    // Asking for the meeting counts as agreeing to its first slot
+    confirmed: [organizerId]
+  };
+  await proposals.set(proposal.id, proposal);
+  return proposal;
+}
+
+// Records one participant's answer, and books the meeting once everyone has confirmed
+export function answerProposal(proposalId: string, userId: number, accepted: boolean): Promise<ProposalAnswer> {
+  return proposalUpdates(proposalId, () => applyAnswer(proposalId, userId, accepted));
+}
+
+async function applyAnswer(proposalId: string, userId: number, accepted: boolean): Promise<ProposalAnswer> {
+  const proposal = await proposals.get(proposalId);
+  if (!proposal) return { kind: 'expired' };
+
+  const member = proposal.participants.find(participant => participant.userId === userId);
+  if (!member) return { kind: 'not_invited' };
+
+  // The time is settled; any tap now retries the calendars it couldn't be added to
+  if (proposal.booked) return completeBooking(proposal);
+
+  if (!accepted) {
+    const [next, ...rest] = proposal.alternatives;
+    if (!next) {
+      await proposals.delete(proposal.id);
+      return { kind: 'no_slots', proposal, declinedBy: member };
+    }
+
+    // Whoever turned down the old slot hasn't agreed to the new one either, except the organizer
+    const moved = { ...proposal, slot: next, alternatives: rest, confirmed: [proposal.organizerId] };
+    await proposals.set(moved.id, moved);
+    return { kind: 'moved', proposal: moved, declinedBy: member };
+  }
+
+  const updated = { ...proposal, confirmed: Array.from(new Set([...proposal.confirmed, userId])) };
+  if (updated.participants.some(participant => !updated.confirmed.includes(participant.userId))) {
+    await proposals.set(updated.id, updated);
+    return { kind: 'waiting', proposal: updated };
+  }
+
+  return completeBooking({ ...updated, booked: [] });
+}
+
+async function completeBooking(proposal: GroupProposal): Promise<ProposalAnswer> {
+  const failed = await bookProposal(proposal);
+  const booked = { ...proposal, booked: proposal.participants.map(participant => participant.userId) };
+  if (failed.length) {
+    booked.booked = booked.booked.filter(id => !failed.some(member => member.userId === id));
+    await proposals.set(booked.id, booked);
+  } else {
+    await proposals.delete(booked.id);
+  }
+  return { kind: 'booked', proposal: booked, failed };
+}
+
+// Members' emails aren't visible to the bot, so rather than one event with attendees, each
+// participant gets the meeting on their own default calendar. Returns those it couldn't add it for.
+async function bookProposal(proposal: GroupProposal): Promise<GroupMember[]> {
+  const failed: GroupMember[] = [];
+  for (const participant of proposal.participants) {
+    if (proposal.booked?.includes(participant.userId)) continue;
+    let created: CalendarEvent | null = null;
+    try {
+      const calendar = await getDefaultCalendar(participant.userId);
+      created = await createMeeting(
+        participant.userId,
+        proposal.title,
+        'Scheduled with Remo in a group chat.',
+        proposal.slot.start,
+        proposal.slot.end,
+        [],
+        undefined,
+        { calendarId: calendar.id }
+      );
+    } catch (error) {
+      console.error(`Error booking group meeting for ${participant.userId}:`, error);
+    }
+    if (!created) failed.push(participant);
+  }
+  return failed;
+}
@@ -0,0 +1,86 @@
+import * as http from 'http';
+import { URL } from 'url';
+
+export type RouteHandler = (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  url: URL
+) => void | Promise<void>;
+
+const routes = new Map<string, RouteHandler>();
+let server: http.Server | null = null;
+
+export const HTTP_PORT = parseInt(process.env.PORT || '3000');
+
+export function registerRoute(pathname: string, handler: RouteHandler): void {
+  routes.set(pathname, handler);
+}
+
+export function sendHtml(res: http.ServerResponse, status: number, body: string): void {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(`<!doctype html><html><body style="font-family: sans-serif">${body}</body></html>`);
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Form posts are small; anything bigger is cut off rather than buffered
+export function readBody(req: http.IncomingMessage, limit: number = 16 * 1024): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > limit) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+// One long-lived server shared by the OAuth callback and any other web routes
+export function startHttpServer(port: number = HTTP_PORT): Promise<http.Server> {
+  if (server) return Promise.resolve(server);
+
+  return new Promise((resolve, reject) => {
+    const instance = http.createServer(async (req, res) => {
+      try {
+        const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+        const handler = routes.get(url.pathname);
+        if (!handler) {
+          res.writeHead(404, { 'Content-Type': 'text/plain' });
+          res.end('Not found');
+          return;
+        }
+        await handler(req, res, url);
+      } catch (error) {
+        console.error('HTTP server error:', error);
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'text/plain' });
+        }
+        res.end('Something went wrong. Please try again.');
+      }
+    });
+
+    instance.once('error', reject);
+    instance.listen(port, () => {
+      server = instance;
+      console.log(`HTTP server listening on port ${port}`);
+      resolve(instance);
+    });
+  });
+}
+
+export function stopHttpServer(): void {
+  server?.close();
+  server = null;
+}
@@ -0,0 +1,37 @@
+export type Intent = 'create' | 'list' | 'update' | 'reschedule' | 'cancel' | 'chat';
+
+export const INTENTS: Intent[] = ['create', 'list', 'update', 'reschedule', 'cancel', 'chat'];
+
+// Meeting details mentioned in the message. Dates are phrases the date parser understands
+// ("tomorrow", "next friday" or YYYY-MM-DD) and times are 24-hour "HH:MM".
+export interface MeetingSlots {
+  date?: string;
+  time?: string;
+  duration?: number;
+  // Email addresses or contact names
+  attendees?: string[];
+  title?: string;
+  location?: string;
+  // The user asked for a video call / Google Meet link
+  conference?: boolean;
+  // Calendar named in the request ("add it to the Team calendar")
+  calendar?: string;
+  // Whole-day event such as "block Friday off"; endDate is its last day when it spans several
+  allDay?: boolean;
+  endDate?: string;
+  description?: string;
+}
+
+export interface IntentResult {
+  intent: Intent;
+  slots: MeetingSlots;
+}
+
+export interface ExtractionContext {
+  now: Date;
+  timeZone: string;
+}
+
+export interface IntentExtractor {
+  extract(message: string, context: ExtractionContext): Promise<IntentResult>;
+}
@@ -0,0 +1,36 @@
+import type { ExtractionContext, IntentExtractor, IntentResult } from './intentExtractor';
+import { getChatModel } from './chatModel';
+import { OpenAIIntentExtractor } from './extractors/openAIIntentExtractor';
+import { RuleBasedIntentExtractor } from './extractors/ruleBasedIntentExtractor';
+
+// 'openai' (default when OPENAI_API_KEY is set) or 'rules' for the offline extractor
+const INTENT_EXTRACTOR = process.env.INTENT_EXTRACTOR || (process.env.OPENAI_API_KEY ? 'openai' : 'rules');
+
+const ruleBasedExtractor = new RuleBasedIntentExtractor();
+let extractor: IntentExtractor | null = null;
+
+export function getIntentExtractor(): IntentExtractor {
+  if (!extractor) {
+    extractor = INTENT_EXTRACTOR === 'openai'
+      ? new OpenAIIntentExtractor(getChatModel())
+      : ruleBasedExtractor;
+  }
+  return extractor;
+}
+
+// Swaps the extractor, e.g. for a scripted one in tests
+export function setIntentExtractor(replacement: IntentExtractor | null): void {
+  extractor = replacement;
+}
+
+// Falls back to the rule-based extractor when the model is unavailable or answers badly
+export async function extractIntent(message: string, context: ExtractionContext): Promise<IntentResult> {
+  const primary = getIntentExtractor();
+  try {
+    return await primary.extract(message, context);
+  } catch (error) {
+    if (primary === ruleBasedExtractor) throw error;
+    console.error('Intent extraction failed, using rules instead:', error);
+    return ruleBasedExtractor.extract(message, context);
+  }
+}
@@ -0,0 +1,263 @@
+import { randomBytes } from 'crypto';
+import type { CalendarEvent } from '../types';
+import { createMeeting } from './calendarService';
+import { HTTP_PORT, escapeHtml, readBody, registerRoute, sendHtml } from './httpServer';
+import { getStateStore, StateMap } from './stateStore';
+import { getDefaultCalendar, getUserTimeZone } from './userPreferences';
+import { createKeyedQueue } from '../utils/keyedQueue';
+import { formatDate, formatTime } from '../utils/timezone';
+
+// Where people outside Telegram open voting pages; the OAuth callback lives on the same server
+const PUBLIC_URL = (process.env.PUBLIC_URL || `http://localhost:${HTTP_PORT}`).replace(/\/+$/, '');
+
+// Polls nobody booked are dropped after two weeks
+const POLL_TTL = 14 * 24 * 60 * 60 * 1000;
+const MAX_NAME_LENGTH = 60;
+// Anyone with the link can vote under any name, so the page shows who picked what and a poll
+// only takes so many votes from it in a short time
+const WEB_VOTE_LIMIT = 20;
+const WEB_VOTE_WINDOW = 10 * 60 * 1000;
+
+export interface PollVoter {
+  // 'tg:<user id>' for Telegram users, 'web:<cookie id>' for votes from the voting page
+  key: string;
+  name: string;
+}
+
+// Candidate times for a meeting, voted on when the attendees' calendars can't be checked.
+// Everyone may vote for as many options as suit them; the most votes wins.
+export interface MeetingPoll {
+  id: string;
+  organizerId: number;
+  // Chat the poll was posted in, and the message that shows it
+  chatId: number;
+  messageId?: number;
+  title: string;
+  durationMinutes: number;
+  // Emails invited once a time is picked
+  attendees: string[];
+  options: Date[];
+  // Option indexes by voter key
+  votes: Record<string, { name: string; options: number[] }>;
+  closed?: boolean;
+}
+
+export type PollBooking =
+  | { kind: 'expired' }
+  | { kind: 'not_organizer'; poll: MeetingPoll }
+  | { kind: 'closed'; poll: MeetingPoll }
+  | { kind: 'no_votes'; poll: MeetingPoll }
+  | { kind: 'failed'; poll: MeetingPoll }
+  | { kind: 'booked'; poll: MeetingPoll; option: number; meeting: CalendarEvent };
+
+export type PollVoteListener = (poll: MeetingPoll, voter: PollVoter) => void | Promise<void>;
+
+const polls = new StateMap<MeetingPoll>(getStateStore(), 'meetingPolls', POLL_TTL);
+// Every change to a poll reads it and writes it back, so votes cast together mustn't overlap
+const pollUpdates = createKeyedQueue();
+const listeners: PollVoteListener[] = [];
+// Times of recent votes from the voting page, by poll id
+const recentWebVotes = new Map<string, number[]>();
+
+// Called for votes cast on the voting page, which nobody in the chat sees happen
+export function onPollVote(listener: PollVoteListener): void {
+  listeners.push(listener);
+}
+
+async function notifyListeners(poll: MeetingPoll, voter: PollVoter): Promise<void> {
+  for (const listener of listeners) {
+    try {
+      await listener(poll, voter);
+    } catch (error) {
+      console.error('Error notifying poll listener:', error);
+    }
+  }
+}
+
+export async function createPoll(
+  organizerId: number,
+  chatId: number,
+  details: { title: string; durationMinutes: number; attendees: string[]; options: Date[] }
+): Promise<MeetingPoll> {
+  const poll: MeetingPoll = {
+    // Also the voting page's address, so it mustn't be guessable
+    id: randomBytes(8).toString('hex'),
+    organizerId,
+    chatId,
+    ...details,
+    options: [...details.options].sort((a, b) => a.getTime() - b.getTime()),
+    votes: {}
+  };
+  await polls.set(poll.id, poll);
+  return poll;
+}
+
+export function getPoll(pollId: string): Promise<MeetingPoll | undefined> {
+  return polls.get(pollId);
+}
+
+export function setPollMessage(pollId: string, messageId: number): Promise<void> {
+  return pollUpdates(pollId, async () => {
+    const poll = await polls.get(pollId);
+    if (poll) await polls.set(pollId, { ...poll, messageId });
+  });
+}
+
+export function getPollUrl(poll: MeetingPoll): string {
+  return `${PUBLIC_URL}/poll?id=${poll.id}`;
+}
+
+// Number of voters for each option, in option order
+export function tallyVotes(poll: MeetingPoll): number[] {
+  const counts = poll.options.map(() => 0);
+  for (const vote of Object.values(poll.votes)) {
+    for (const option of vote.options) counts[option]++;
+  }
+  return counts;
+}
+
+// The option with the most votes, the earliest on a tie, or null before anyone voted
+export function getLeadingOption(poll: MeetingPoll): number | null {
+  const counts = tallyVotes(poll);
+  const best = Math.max(0, ...counts);
+  return best ? counts.indexOf(best) : null;
+}
+
+export function getVoterNames(poll: MeetingPoll, option: number): string[] {
+  return Object.values(poll.votes).filter(vote => vote.options.includes(option)).map(vote => vote.name);
+}
+
+// A tap on an option's button votes for it, or takes the vote back
+export function toggleVote(pollId: string, voter: PollVoter, option: number): Promise<MeetingPoll | null> {
+  return pollUpdates(pollId, async () => {
+    const poll = await polls.get(pollId);
+    if (!poll || poll.closed || option < 0 || option >= poll.options.length) return null;
+
+    const current = poll.votes[voter.key]?.options || [];
+    const options = current.includes(option) ? current.filter(chosen => chosen !== option) : [...current, option];
+    const updated = { ...poll, votes: { ...poll.votes, [voter.key]: { name: voter.name, options } } };
+    await polls.set(pollId, updated);
+    return updated;
+  });
+}
+
+// The voting page sends all of a voter's choices at once, replacing any earlier ones
+export async function submitVotes(pollId: string, voter: PollVoter, options: number[]): Promise<MeetingPoll | null> {
+  const updated = await pollUpdates(pollId, async () => {
+    const poll = await polls.get(pollId);
+    if (!poll || poll.closed) return null;
+
+    const valid = Array.from(new Set(options)).filter(option => option >= 0 && option < poll.options.length);
+    const voted = { ...poll, votes: { ...poll.votes, [voter.key]: { name: voter.name, options: valid } } };
+    await polls.set(pollId, voted);
+    return voted;
+  });
+  if (updated) await notifyListeners(updated, voter);
+  return updated;
+}
+
+// Turns the leading option into a meeting on the organizer's default calendar and invites the attendees.
+// Queued like the votes, so a second tap on the button can't book it twice.
+export function bookPoll(pollId: string, userId: number): Promise<PollBooking> {
+  return pollUpdates(pollId, () => bookLeadingOption(pollId, userId));
+}
+
+async function bookLeadingOption(pollId: string, userId: number): Promise<PollBooking> {
+  const poll = await polls.get(pollId);
+  if (!poll) return { kind: 'expired' };
+  if (poll.organizerId !== userId) return { kind: 'not_organizer', poll };
+  if (poll.closed) return { kind: 'closed', poll };
+
+  const option = getLeadingOption(poll);
+  if (option === null) return { kind: 'no_votes', poll };
+
+  const start = poll.options[option];
+  const calendar = await getDefaultCalendar(userId);
+  const meeting = await createMeeting(
+    userId,
+    poll.title,
+    'Time picked by poll.',
+    start,
+    new Date(start.getTime() + poll.durationMinutes * 60 * 1000),
+    poll.attendees,
+    undefined,
+    { calendarId: calendar.id }
+  );
+  if (!meeting) return { kind: 'failed', poll };
+
+  const closed = { ...poll, closed: true };
+  await polls.set(pollId, closed);
+  return { kind: 'booked', poll: closed, option, meeting };
+}
+
+// Counts a vote from the page against its poll's limit; false once the poll had too many lately
+function allowWebVote(pollId: string): boolean {
+  const now = Date.now();
+  const recent = (recentWebVotes.get(pollId) || []).filter(time => now - time < WEB_VOTE_WINDOW);
+  const allowed = recent.length < WEB_VOTE_LIMIT;
+  if (allowed) recent.push(now);
+  recentWebVotes.set(pollId, recent);
+  return allowed;
+}
+
+function renderPollPage(poll: MeetingPoll, timeZone: string, notice: string = ''): string {
+  const counts = tallyVotes(poll);
+  const options = poll.options.map((option, index) => {
+    const label = `${formatDate(option, timeZone, { weekday: 'short', month: 'short', day: 'numeric' })} ` +
+      formatTime(option, timeZone);
+    const votes = counts[index] === 1 ? '1 vote' : `${counts[index]} votes`;
+    const voters = getVoterNames(poll, index);
+    return `<p><label><input type="checkbox" name="option" value="${index}"${poll.closed ? ' disabled' : ''}> ` +
+      `${escapeHtml(label)}</label> <small>(${votes}${voters.length ? `: ${escapeHtml(voters.join(', '))}` : ''})</small></p>`;
+  }).join('');
+
+  const body = poll.closed
+    ? `<p>This poll is closed.</p>${options}`
+    : `<form method="post" action="/poll?id=${poll.id}">${options}` +
+      `<p><label>Your name <input name="name" maxlength="${MAX_NAME_LENGTH}" required></label></p>` +
+      '<p><button type="submit">Vote</button></p></form>';
+
+  return `<h2>${escapeHtml(poll.title)}</h2>` +
+    `<p>${poll.durationMinutes} minutes. Times are in ${escapeHtml(timeZone)}. Tick every time that works for you.</p>` +
+    '<p><small>Names aren\'t checked, so everyone can see who picked which times.</small></p>' +
+    notice + body;
+}
+
+registerRoute('/poll', async (req, res, url) => {
+  const poll = await polls.get(url.searchParams.get('id') || '');
+  if (!poll) {
+    sendHtml(res, 404, 'This poll has ended or never existed.');
+    return;
+  }
+  const timeZone = await getUserTimeZone(poll.organizerId);
+
+  if (req.method !== 'POST') {
+    sendHtml(res, 200, renderPollPage(poll, timeZone));
+    return;
+  }
+
+  const form = new URLSearchParams(await readBody(req));
+  const name = (form.get('name') || '').trim().slice(0, MAX_NAME_LENGTH);
+  if (!name) {
+    sendHtml(res, 400, renderPollPage(poll, timeZone, '<p>Please enter your name.</p>'));
+    return;
+  }
+
+  if (!allowWebVote(poll.id)) {
+    sendHtml(res, 429, renderPollPage(poll, timeZone, '<p>Lots of people voted just now. Please try again in a few minutes.</p>'));
+    return;
+  }
+
+  // A cookie tells a returning voter apart from someone else who typed the same name
+  const cookie = (req.headers.cookie || '').match(/(?:^|;\s*)remo_voter=([0-9a-f]{32})\b/)?.[1];
+  const voterId = cookie || randomBytes(16).toString('hex');
+  if (!cookie) res.setHeader('Set-Cookie', `remo_voter=${voterId}; Path=/poll; Max-Age=${POLL_TTL / 1000}; HttpOnly; SameSite=Lax`);
+
+  const voter = { key: `web:${voterId}`, name };
+  const updated = await submitVotes(poll.id, voter, form.getAll('option').map(value => parseInt(value)));
+  if (!updated) {
+    sendHtml(res, 410, renderPollPage(poll, timeZone));
+    return;
+  }
+  sendHtml(res, 200, renderPollPage(updated, timeZone, '<p>✅ Thanks, your vote was counted!</p>'));
+});
@@ -0,0 +1,186 @@
+import type {
+  BusyInterval,
+  CalendarInfo,
+  CalendarProvider,
+  ListEventsOptions,
+  ProviderEvent,
+  SyncOptions,
+  SyncResult,
+  WriteOptions
+} from '../calendarProvider';
+import { SyncTokenExpiredError } from '../calendarProvider';
+import { getEventCacheStore, StateMap } from '../stateStore';
+import { currentTime } from '../../utils/clock';
+import { fromIsoDate } from '../../utils/timezone';
+
+type SyncingProvider = CalendarProvider & { syncEvents(options: SyncOptions): Promise<SyncResult> };
+
+// How stale a cache may be before a read triggers an incremental sync
+const MAX_AGE = parseInt(process.env.EVENT_CACHE_MAX_AGE_SECONDS || '60') * 1000;
+// Past events kept around for "what did I have last week"; older ranges go to the backend
+const HISTORY = 30 * 24 * 60 * 60 * 1000;
+// How far ahead a full sync reaches. Without a limit a recurring series with no end date would
+// expand into instances for years. Once half of it has passed the copy is synced afresh.
+const HORIZON = 365 * 24 * 60 * 60 * 1000;
+
+interface EventCache {
+  syncToken: string;
+  // Events ending before windowStart or starting after windowEnd were never fetched or have been pruned
+  windowStart: Date;
+  windowEnd: Date;
+  // The calendar's own zone, where its all-day events begin and end
+  timeZone: string;
+  syncedAt: number;
+  events: ProviderEvent[];
+}
+
+const NAMESPACE = 'eventCache';
+const caches = new StateMap<EventCache>(getEventCacheStore(), NAMESPACE);
+// Concurrent reads for the same calendar share one sync
+const syncs = new Map<string, Promise<EventCache>>();
+
+function getStart(event: ProviderEvent, timeZone: string): Date {
+  if (event.start?.date && !event.start.dateTime) return fromIsoDate(event.start.date, timeZone);
+  return new Date(event.start?.dateTime || 0);
+}
+
+function getEnd(event: ProviderEvent, timeZone: string): Date {
+  if (event.end?.date && !event.end.dateTime) return fromIsoDate(event.end.date, timeZone);
+  return event.end?.dateTime ? new Date(event.end.dateTime) : getStart(event, timeZone);
+}
+
+// Serves event listings from a per-calendar copy kept current with incremental sync tokens.
+// Writes go straight to the backend and mark the copy stale so the next read picks them up.
+export class CachedCalendarProvider implements CalendarProvider {
+  constructor(private cacheKey: string, private backend: SyncingProvider) {}
+
+  async listEvents(options: ListEventsOptions): Promise<ProviderEvent[]> {
+    const cache = await this.sync();
+    if (options.timeMin < cache.windowStart || options.timeMax > cache.windowEnd) return this.backend.listEvents(options);
+
+    return cache.events
+      .filter(event => event.status !== 'cancelled' &&
+        getEnd(event, cache.timeZone) > options.timeMin && getStart(event, cache.timeZone) < options.timeMax)
+      .sort((a, b) => getStart(a, cache.timeZone).getTime() - getStart(b, cache.timeZone).getTime())
+      .slice(0, options.maxResults || 100);
+  }
+
+  // Single lookups are usually followed by a write, so they read the live event
+  getEvent(eventId: string): Promise<ProviderEvent | null> {
+    return this.backend.getEvent(eventId);
+  }
+
+  async createEvent(event: ProviderEvent, options?: WriteOptions): Promise<ProviderEvent> {
+    const created = await this.backend.createEvent(event, options);
+    await this.invalidate();
+    return created;
+  }
+
+  async patchEvent(eventId: string, patch: ProviderEvent, options?: WriteOptions): Promise<ProviderEvent> {
+    const patched = await this.backend.patchEvent(eventId, patch, options);
+    await this.invalidate();
+    return patched;
+  }
+
+  async deleteEvent(eventId: string, options?: WriteOptions): Promise<void> {
+    await this.backend.deleteEvent(eventId, options);
+    await this.invalidate();
+  }
+
+  freeBusy(timeMin: Date, timeMax: Date, calendarIds?: string[]): Promise<Record<string, BusyInterval[]>> {
+    return this.backend.freeBusy(timeMin, timeMax, calendarIds);
+  }
+
+  getTimeZone(): Promise<string | null> {
+    return this.backend.getTimeZone();
+  }
+
+  syncEvents(options: SyncOptions): Promise<SyncResult> {
+    return this.backend.syncEvents(options);
+  }
+
+  async listCalendars(): Promise<CalendarInfo[]> {
+    return this.backend.listCalendars ? this.backend.listCalendars() : [];
+  }
+
+  private async invalidate(): Promise<void> {
+    const cache = await caches.get(this.cacheKey);
+    if (cache) await caches.set(this.cacheKey, { ...cache, syncedAt: 0 });
+  }
+
+  private sync(): Promise<EventCache> {
+    let pending = syncs.get(this.cacheKey);
+    if (!pending) {
+      pending = this.refresh().finally(() => syncs.delete(this.cacheKey));
+      syncs.set(this.cacheKey, pending);
+    }
+    return pending;
+  }
+
+  private async refresh(): Promise<EventCache> {
+    const cached = await caches.get(this.cacheKey);
+    // Copies from before the horizon or the zone were kept have no windowEnd or timeZone and are replaced too
+    const current = cached?.windowEnd && cached.timeZone && cached.windowEnd.getTime() - currentTime().getTime() > HORIZON / 2
+      ? cached
+      : undefined;
+    if (current && currentTime().getTime() - current.syncedAt < MAX_AGE) return current;
+
+    let cache: EventCache;
+    try {
+      cache = current ? await this.incrementalSync(current) : await this.fullSync();
+    } catch (error) {
+      if (!(error instanceof SyncTokenExpiredError)) throw error;
+      console.log(`Sync token for ${this.cacheKey} expired, doing a full sync`);
+      cache = await this.fullSync();
+    }
+
+    await caches.set(this.cacheKey, cache);
+    return cache;
+  }
+
+  private async fullSync(): Promise<EventCache> {
+    const windowStart = new Date(currentTime().getTime() - HISTORY);
+    const windowEnd = new Date(currentTime().getTime() + HORIZON);
+    const { events, nextSyncToken } = await this.backend.syncEvents({ timeMin: windowStart, timeMax: windowEnd });
+    return {
+      syncToken: nextSyncToken,
+      windowStart,
+      windowEnd,
+      timeZone: await this.backend.getTimeZone() || 'UTC',
+      syncedAt: currentTime().getTime(),
+      events: events.filter(event => event.status !== 'cancelled')
+    };
+  }
+
+  private async incrementalSync(cache: EventCache): Promise<EventCache> {
+    const { events: changed, nextSyncToken } = await this.backend.syncEvents({ syncToken: cache.syncToken });
+    const events = new Map(cache.events.map(event => [event.id, event]));
+    for (const event of changed) {
+      if (event.status === 'cancelled') events.delete(event.id);
+      else events.set(event.id, event);
+    }
+
+    // Drop events that fell out of the history window and move the window with them. Changes can
+    // reach past the horizon (a series given more occurrences), which isn't kept either.
+    const cutoff = new Date(currentTime().getTime() - HISTORY);
+    const windowStart = cutoff > cache.windowStart ? cutoff : cache.windowStart;
+    return {
+      syncToken: nextSyncToken,
+      windowStart,
+      windowEnd: cache.windowEnd,
+      timeZone: cache.timeZone,
+      syncedAt: currentTime().getTime(),
+      events: Array.from(events.values())
+        .filter(event => getEnd(event, cache.timeZone) > windowStart && getStart(event, cache.timeZone) < cache.windowEnd)
+    };
+  }
+}
+
+// Forgets every cached calendar of a user, e.g. when they disconnect
+export async function clearEventCache(userId: number): Promise<void> {
+  const store = getEventCacheStore();
+  const keys = await store.keys(NAMESPACE);
+  await Promise.all(keys
+    .filter(key => key.split(':')[0] === userId.toString())
+    .map(key => store.delete(NAMESPACE, key)));
+}
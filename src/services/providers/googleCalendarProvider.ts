@@ -0,0 +1,157 @@
+import { google, calendar_v3 } from 'googleapis';
+import { OAuth2Client } from 'google-auth-library';
+import type {
+  BusyInterval,
+  CalendarInfo,
+  CalendarProvider,
+  ListEventsOptions,
+  ProviderEvent,
+  SyncOptions,
+  SyncResult,
+  WriteOptions
+} from '../calendarProvider';
+import { SyncTokenExpiredError } from '../calendarProvider';
+
+export class GoogleCalendarProvider implements CalendarProvider {
+  private calendar: calendar_v3.Calendar;
+
+  constructor(auth: OAuth2Client, private calendarId: string = 'primary') {
+    this.calendar = google.calendar({ version: 'v3', auth });
+  }
+
+  async listEvents(options: ListEventsOptions): Promise<ProviderEvent[]> {
+    const response = await this.calendar.events.list({
+      calendarId: this.calendarId,
+      timeMin: options.timeMin.toISOString(),
+      timeMax: options.timeMax.toISOString(),
+      singleEvents: true,
+      orderBy: 'startTime',
+      maxResults: options.maxResults || 100
+    });
+    return response.data.items || [];
+  }
+
+  // Google rejects timeMin, timeMax and orderBy alongside a sync token, so incremental
+  // rounds repeat only the options the token was issued for
+  async syncEvents(options: SyncOptions): Promise<SyncResult> {
+    const events: ProviderEvent[] = [];
+    let pageToken: string | undefined;
+    let nextSyncToken: string | null | undefined;
+
+    do {
+      try {
+        const response = await this.calendar.events.list({
+          calendarId: this.calendarId,
+          singleEvents: true,
+          maxResults: 2500,
+          pageToken,
+          ...(options.syncToken
+            ? { syncToken: options.syncToken }
+            : { timeMin: options.timeMin?.toISOString(), timeMax: options.timeMax?.toISOString() })
+        });
+        events.push(...(response.data.items || []));
+        pageToken = response.data.nextPageToken || undefined;
+        nextSyncToken = response.data.nextSyncToken;
+      } catch (error: any) {
+        if (error?.code === 410 || error?.response?.status === 410) throw new SyncTokenExpiredError();
+        throw error;
+      }
+    } while (pageToken);
+
+    if (!nextSyncToken) throw new Error('Calendar sync finished without a sync token');
+    return { events, nextSyncToken };
+  }
+
+  async getEvent(eventId: string): Promise<ProviderEvent | null> {
+    try {
+      const response = await this.calendar.events.get({
+        calendarId: this.calendarId,
+        eventId
+      });
+      return response.data;
+    } catch (error: any) {
+      if (error?.code === 404 || error?.response?.status === 404) return null;
+      throw error;
+    }
+  }
+
+  async createEvent(event: ProviderEvent, options: WriteOptions = {}): Promise<ProviderEvent> {
+    const response = await this.calendar.events.insert({
+      calendarId: this.calendarId,
+      requestBody: event,
+      sendUpdates: options.sendUpdates || 'all',
+      // Without it Google ignores conferenceData and no Meet link is created
+      conferenceDataVersion: event.conferenceData ? 1 : undefined
+    });
+    return response.data;
+  }
+
+  async patchEvent(eventId: string, patch: ProviderEvent, options: WriteOptions = {}): Promise<ProviderEvent> {
+    const response = await this.calendar.events.patch({
+      calendarId: this.calendarId,
+      eventId,
+      requestBody: patch,
+      sendUpdates: options.sendUpdates || 'all'
+    });
+    return response.data;
+  }
+
+  async deleteEvent(eventId: string, options: WriteOptions = {}): Promise<void> {
+    await this.calendar.events.delete({
+      calendarId: this.calendarId,
+      eventId,
+      sendUpdates: options.sendUpdates || 'all'
+    });
+  }
+
+  async freeBusy(
+    timeMin: Date,
+    timeMax: Date,
+    calendarIds: string[] = [this.calendarId]
+  ): Promise<Record<string, BusyInterval[]>> {
+    const response = await this.calendar.freebusy.query({
+      requestBody: {
+        timeMin: timeMin.toISOString(),
+        timeMax: timeMax.toISOString(),
+        items: calendarIds.map(id => ({ id }))
+      }
+    });
+
+    const result: Record<string, BusyInterval[]> = {};
+    const calendars = response.data.calendars || {};
+    for (const id of calendarIds) {
+      result[id] = (calendars[id]?.busy || [])
+        .filter(slot => slot.start && slot.end)
+        .map(slot => ({ start: new Date(slot.start!), end: new Date(slot.end!) }));
+    }
+    return result;
+  }
+
+  async getTimeZone(): Promise<string | null> {
+    const response = await this.calendar.settings.get({ setting: 'timezone' });
+    return response.data.value || null;
+  }
+
+  // The primary calendar is listed under the account's email; it's reported as 'primary'
+  // so ids stored before discovery keep working
+  async listCalendars(): Promise<CalendarInfo[]> {
+    const calendars: CalendarInfo[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const response = await this.calendar.calendarList.list({ pageToken, showHidden: false });
+      for (const entry of response.data.items || []) {
+        if (!entry.id || entry.deleted) continue;
+        calendars.push({
+          id: entry.primary ? 'primary' : entry.id,
+          name: entry.summaryOverride || entry.summary || entry.id,
+          primary: !!entry.primary,
+          writable: entry.accessRole === 'owner' || entry.accessRole === 'writer'
+        });
+      }
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    return calendars;
+  }
+}
@@ -0,0 +1,181 @@
+import type { ProviderEvent } from '../calendarProvider';
+import { getZonedParts, isValidTimeZone, zonedTimeToUtc } from '../../utils/timezone';
+
+// Minimal iCalendar (RFC 5545) reader/writer covering the fields the bot uses
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\,/g, ',')
+    .replace(/\\;/g, ';')
+    .replace(/\\\\/g, '\\');
+}
+
+function toIcsDateTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Wall-clock time in the zone, e.g. 20250313T090000
+function toIcsLocalDateTime(iso: string, timeZone: string): string {
+  const parts = getZonedParts(new Date(iso), timeZone);
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  return `${pad(parts.year, 4)}${pad(parts.month)}${pad(parts.day)}T${pad(parts.hour)}${pad(parts.minute)}${pad(parts.second)}`;
+}
+
+function toIcsDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function fromIcsValue(value: string, params: Record<string, string>): { dateTime?: string; date?: string; timeZone?: string } {
+  if (params.VALUE === 'DATE' || /^\d{8}$/.test(value)) {
+    return { date: `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}` };
+  }
+
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z)?$/);
+  if (!match) return {};
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const local = `${year}-${month}-${day}T${hours}:${minutes}:${seconds}`;
+  if (utc) return { dateTime: `${local}Z` };
+  // Wall-clock time in the named zone. Zones we don't know, and times without one, stay floating.
+  const timeZone = params.TZID?.replace(/^"(.*)"$/, '$1');
+  if (!timeZone || !isValidTimeZone(timeZone)) return { dateTime: local, timeZone };
+  const [y, mo, d, h, mi, sec] = [year, month, day, hours, minutes, seconds].map(part => parseInt(part, 10));
+  const instant = zonedTimeToUtc(y, mo, d, h, mi, timeZone).getTime() + sec * 1000;
+  return { dateTime: new Date(instant).toISOString(), timeZone };
+}
+
+function formatTime(key: string, time: ProviderEvent['start']): string | null {
+  if (!time) return null;
+  if (time.date) return `${key};VALUE=DATE:${toIcsDate(time.date)}`;
+  // Times with a known zone keep it, so they read back in the same zone
+  if (time.dateTime && time.timeZone && isValidTimeZone(time.timeZone)) {
+    return `${key};TZID=${time.timeZone}:${toIcsLocalDateTime(time.dateTime, time.timeZone)}`;
+  }
+  if (time.dateTime) return `${key}:${toIcsDateTime(time.dateTime)}`;
+  return null;
+}
+
+export function serializeIcs(events: ProviderEvent[]): string {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Remo//Local Calendar//EN'];
+
+  for (const event of events) {
+    lines.push('BEGIN:VEVENT');
+    // Modified occurrences share the series UID and are told apart by RECURRENCE-ID
+    lines.push(`UID:${event.recurringEventId || event.id}`);
+    const recurrenceId = event.recurringEventId ? formatTime('RECURRENCE-ID', event.originalStartTime) : null;
+    if (recurrenceId) lines.push(recurrenceId);
+    const start = formatTime('DTSTART', event.start);
+    const end = formatTime('DTEND', event.end);
+    if (start) lines.push(start);
+    if (end) lines.push(end);
+    if (event.summary) lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    // The property Google's own calendar exports use for the Meet link
+    if (event.hangoutLink) lines.push(`X-GOOGLE-CONFERENCE:${event.hangoutLink}`);
+    if (event.status) lines.push(`STATUS:${event.status.toUpperCase()}`);
+    for (const rule of event.recurrence || []) {
+      lines.push(rule);
+    }
+    for (const attendee of event.attendees || []) {
+      const partstat = (attendee.responseStatus || 'needsAction')
+        .replace('needsAction', 'NEEDS-ACTION')
+        .toUpperCase();
+      lines.push(`ATTENDEE;PARTSTAT=${partstat}:mailto:${attendee.email}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function parseIcs(content: string): ProviderEvent[] {
+  // Unfold continuation lines before splitting into properties
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ProviderEvent[] = [];
+  let current: ProviderEvent | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = { attendees: [] };
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      if (current) {
+        if (!current.attendees?.length) delete current.attendees;
+        if (current.originalStartTime?.dateTime) {
+          current.recurringEventId = current.id;
+          current.id = `${current.id}_${toIcsDateTime(current.originalStartTime.dateTime)}`;
+        }
+        events.push(current);
+      }
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const [name, ...paramParts] = line.slice(0, separator).split(';');
+    const value = line.slice(separator + 1);
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+      const [key, paramValue] = part.split('=');
+      params[key.toUpperCase()] = paramValue;
+    }
+
+    switch (name.toUpperCase()) {
+      case 'UID':
+        current.id = value;
+        break;
+      case 'DTSTART':
+        current.start = fromIcsValue(value, params);
+        break;
+      case 'DTEND':
+        current.end = fromIcsValue(value, params);
+        break;
+      case 'RECURRENCE-ID':
+        current.originalStartTime = fromIcsValue(value, params);
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(value);
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeText(value);
+        break;
+      case 'LOCATION':
+        current.location = unescapeText(value);
+        break;
+      case 'X-GOOGLE-CONFERENCE':
+        current.hangoutLink = value;
+        break;
+      case 'STATUS':
+        current.status = value.toLowerCase();
+        break;
+      case 'RRULE':
+      case 'EXDATE':
+      case 'RDATE':
+        current.recurrence = [...(current.recurrence || []), line];
+        break;
+      case 'ATTENDEE': {
+        const partstat = (params.PARTSTAT || 'NEEDS-ACTION').toLowerCase();
+        current.attendees!.push({
+          email: value.replace(/^mailto:/i, ''),
+          responseStatus: partstat === 'needs-action' ? 'needsAction' : partstat
+        });
+        break;
+      }
+    }
+  }
+
+  return events;
+}
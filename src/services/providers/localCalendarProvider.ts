@@ -0,0 +1,236 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import type {
+  BusyInterval,
+  CalendarProvider,
+  ListEventsOptions,
+  ProviderEvent
+} from '../calendarProvider';
+import { parseIcs, serializeIcs } from './ics';
+import {
+  expandRecurrence,
+  formatRecurrenceDate,
+  getRecurrenceRule,
+  parseRecurrenceDate
+} from '../../utils/recurrence';
+import { fromIsoDate } from '../../utils/timezone';
+
+// Instances of recurring events use Google's id scheme: <series id>_<UTC start>
+const INSTANCE_ID_PATTERN = /^(.+)_(\d{8}T\d{6}Z)$/;
+
+// File-backed calendar used for staging and tests where no Google credentials exist.
+// Files ending in .ics are read and written as iCalendar, anything else as JSON.
+export class LocalCalendarProvider implements CalendarProvider {
+  constructor(private filePath: string) {}
+
+  private isIcs(): boolean {
+    return this.filePath.toLowerCase().endsWith('.ics');
+  }
+
+  private load(): ProviderEvent[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    const content = fs.readFileSync(this.filePath, 'utf8');
+    if (!content.trim()) return [];
+    return this.isIcs() ? parseIcs(content) : JSON.parse(content).events || [];
+  }
+
+  private save(events: ProviderEvent[]): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const content = this.isIcs() ? serializeIcs(events) : JSON.stringify({ events }, null, 2);
+    fs.writeFileSync(this.filePath, content);
+  }
+
+  // Recurring events are expanded into single instances, like Google's singleEvents listing
+  private expand(events: ProviderEvent[], timeMin: Date, timeMax: Date): ProviderEvent[] {
+    return events.flatMap(event => {
+      const rule = getRecurrenceRule(event.recurrence);
+      const start = getEventStart(event);
+      if (!rule || !start) return [event];
+
+      const duration = getEventDuration(event);
+      return expandRecurrence(
+        rule,
+        start,
+        getEventTimeZone(event),
+        new Date(timeMin.getTime() - duration),
+        timeMax,
+        getExcludedDates(event)
+      ).map(occurrence => toInstance(event, occurrence));
+    });
+  }
+
+  async listEvents(options: ListEventsOptions): Promise<ProviderEvent[]> {
+    const events = this.load().filter(event => event.status !== 'cancelled');
+    return this.expand(events, options.timeMin, options.timeMax)
+      .filter(event => {
+        const start = getEventStart(event);
+        const end = getEventEnd(event) || start;
+        return !!start && start < options.timeMax && end! >= options.timeMin;
+      })
+      .sort((a, b) => getEventStart(a)!.getTime() - getEventStart(b)!.getTime())
+      .slice(0, options.maxResults || 100);
+  }
+
+  async getEvent(eventId: string): Promise<ProviderEvent | null> {
+    const events = this.load();
+    const stored = events.find(event => event.id === eventId);
+    if (stored) return stored;
+
+    const match = eventId.match(INSTANCE_ID_PATTERN);
+    const series = match && events.find(event => event.id === match[1]);
+    const occurrence = match && parseRecurrenceDate(match[2]);
+    if (!series || !occurrence) return null;
+
+    const instance = this.expand([series], occurrence, occurrence)
+      .find(event => event.id === eventId);
+    return instance || null;
+  }
+
+  async createEvent(event: ProviderEvent): Promise<ProviderEvent> {
+    const events = this.load();
+    const created: ProviderEvent = {
+      ...event,
+      id: event.id || randomUUID().replace(/-/g, ''),
+      status: event.status || 'confirmed',
+      created: new Date().toISOString(),
+      updated: new Date().toISOString()
+    };
+    if (event.conferenceData?.createRequest) Object.assign(created, fakeConference());
+    events.push(created);
+    this.save(events);
+    return created;
+  }
+
+  async patchEvent(eventId: string, patch: ProviderEvent): Promise<ProviderEvent> {
+    const events = this.load();
+    const index = events.findIndex(event => event.id === eventId);
+    if (index === -1) {
+      // Changing one occurrence turns it into a stored exception to the series
+      const instance = await this.getEvent(eventId);
+      if (!instance) throw new Error(`Event ${eventId} not found`);
+
+      const exception: ProviderEvent = {
+        ...instance,
+        ...patch,
+        id: eventId,
+        recurringEventId: instance.recurringEventId,
+        originalStartTime: instance.originalStartTime,
+        updated: new Date().toISOString()
+      };
+      delete exception.recurrence;
+      excludeOccurrence(events, instance);
+      events.push(exception);
+      this.save(events);
+      return exception;
+    }
+
+    events[index] = { ...events[index], ...patch, id: eventId, updated: new Date().toISOString() };
+    this.save(events);
+    return events[index];
+  }
+
+  async deleteEvent(eventId: string): Promise<void> {
+    const events = this.load();
+    // Deleting a series also removes its modified occurrences
+    const remaining = events.filter(event => event.id !== eventId && event.recurringEventId !== eventId);
+    if (remaining.length !== events.length) {
+      this.save(remaining);
+      return;
+    }
+
+    const instance = await this.getEvent(eventId);
+    if (!instance) throw new Error(`Event ${eventId} not found`);
+    excludeOccurrence(events, instance);
+    this.save(events);
+  }
+
+  async freeBusy(
+    timeMin: Date,
+    timeMax: Date,
+    calendarIds: string[] = ['primary']
+  ): Promise<Record<string, BusyInterval[]>> {
+    const events = await this.listEvents({ timeMin, timeMax, maxResults: 2500 });
+    const busy = events
+      .filter(event => event.transparency !== 'transparent')
+      .map(event => ({ start: getEventStart(event)!, end: getEventEnd(event) || getEventStart(event)! }));
+
+    // Only the user's own calendar is known locally; other attendees look free
+    const result: Record<string, BusyInterval[]> = {};
+    for (const id of calendarIds) {
+      result[id] = id === 'primary' ? busy : [];
+    }
+    return result;
+  }
+
+  async getTimeZone(): Promise<string | null> {
+    return process.env.LOCAL_CALENDAR_TIME_ZONE || null;
+  }
+}
+
+// All-day dates begin at midnight in the event's zone, like they do in the calendar's own zone on Google
+function getEventStart(event: ProviderEvent): Date | null {
+  if (event.start?.dateTime) return new Date(event.start.dateTime);
+  return event.start?.date ? fromIsoDate(event.start.date, getEventTimeZone(event)) : null;
+}
+
+function getEventEnd(event: ProviderEvent): Date | null {
+  if (event.end?.dateTime) return new Date(event.end.dateTime);
+  return event.end?.date ? fromIsoDate(event.end.date, getEventTimeZone(event)) : null;
+}
+
+function getEventDuration(event: ProviderEvent): number {
+  const start = getEventStart(event);
+  const end = getEventEnd(event);
+  return start && end ? end.getTime() - start.getTime() : 0;
+}
+
+function getEventTimeZone(event: ProviderEvent): string {
+  return event.start?.timeZone || process.env.LOCAL_CALENDAR_TIME_ZONE || 'UTC';
+}
+
+function getExcludedDates(event: ProviderEvent): Date[] {
+  return (event.recurrence || [])
+    .filter(line => line.toUpperCase().startsWith('EXDATE'))
+    .flatMap(line => line.slice(line.indexOf(':') + 1).split(','))
+    .map(parseRecurrenceDate)
+    .filter((date): date is Date => !!date);
+}
+
+function toInstance(series: ProviderEvent, occurrence: Date): ProviderEvent {
+  const timeZone = series.start?.timeZone;
+  const instance: ProviderEvent = {
+    ...series,
+    id: `${series.id}_${formatRecurrenceDate(occurrence)}`,
+    recurringEventId: series.id,
+    originalStartTime: { dateTime: occurrence.toISOString(), timeZone },
+    start: { dateTime: occurrence.toISOString(), timeZone },
+    end: { dateTime: new Date(occurrence.getTime() + getEventDuration(series)).toISOString(), timeZone }
+  };
+  delete instance.recurrence;
+  return instance;
+}
+
+// Adds an EXDATE for the instance to its series so the occurrence is no longer generated
+function excludeOccurrence(events: ProviderEvent[], instance: ProviderEvent): void {
+  const series = events.find(event => event.id === instance.recurringEventId);
+  const originalStart = instance.originalStartTime?.dateTime;
+  if (!series || !originalStart) return;
+  series.recurrence = [...(series.recurrence || []), `EXDATE:${formatRecurrenceDate(new Date(originalStart))}`];
+  series.updated = new Date().toISOString();
+}
+
+// Stands in for the Meet link Google generates from a conferenceData.createRequest. It is shaped
+// like a Meet link but on a reserved domain, so nobody can follow it into a stranger's meeting.
+function fakeConference(): ProviderEvent {
+  const letters = randomUUID().replace(/-/g, '').slice(0, 10).replace(/[0-9a-f]/g, digit => 'abcdefghijklmnop'[parseInt(digit, 16)]);
+  const uri = `https://meet.example.invalid/${letters.slice(0, 3)}-${letters.slice(3, 7)}-${letters.slice(7)}`;
+  return {
+    hangoutLink: uri,
+    conferenceData: {
+      conferenceId: letters,
+      conferenceSolution: { key: { type: 'hangoutsMeet' }, name: 'Google Meet' },
+      entryPoints: [{ entryPointType: 'video', uri }]
+    }
+  };
+}
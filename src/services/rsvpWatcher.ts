@@ -0,0 +1,154 @@
+import type { CalendarEvent } from '../types';
+import { rethrowIfReauthorizationRequired } from './authService';
+import type { CalendarProvider, ProviderEvent } from './calendarProvider';
+import { getCalendarProvider, getConnectedUserIds, toCalendarEvent } from './calendarService';
+import { getStateStore, StateMap } from './stateStore';
+import { CalendarChoice, getDefaultCalendar, getListedCalendars, getUserTimeZone } from './userPreferences';
+import { currentTime } from '../utils/clock';
+import { parseDate, parseTime } from '../utils/dateParser';
+
+const POLL_INTERVAL = parseInt(process.env.RSVP_POLL_MINUTES || '5') * 60 * 1000;
+// Responses only matter for meetings that haven't happened yet
+const WATCH_WINDOW = 30 * 24 * 60 * 60 * 1000;
+
+export interface AttendeeResponseChange {
+  // 'proposed' is a reply whose comment suggests another time. Google shows proposals in its own
+  // UI only, so the comment attendees write with their response is the part the API exposes.
+  kind: 'declined' | 'proposed';
+  meeting: CalendarEvent;
+  attendee: string;
+  comment?: string;
+}
+
+export type AttendeeResponseListener = (userId: number, change: AttendeeResponseChange) => void | Promise<void>;
+
+interface AttendeeResponse {
+  status: string;
+  comment?: string;
+}
+
+// Last seen response per calendar id, event id and attendee email
+type ResponseSnapshot = Record<string, Record<string, Record<string, AttendeeResponse>>>;
+
+const snapshots = new StateMap<ResponseSnapshot>(getStateStore(), 'rsvpSnapshots');
+const listeners: AttendeeResponseListener[] = [];
+let timer: NodeJS.Timeout | null = null;
+let polling = false;
+
+export function onAttendeeResponse(listener: AttendeeResponseListener): void {
+  listeners.push(listener);
+}
+
+const PROPOSAL_PATTERN = /\b(propose|suggest|instead|how about|what about|could we|can we|would .* work|move it|reschedule)\b/i;
+
+function isProposal(comment: string, timeZone: string): boolean {
+  return PROPOSAL_PATTERN.test(comment) ||
+    parseTime(comment).status !== 'none' ||
+    parseDate(comment, { now: currentTime(), timeZone }).status !== 'none';
+}
+
+// Meetings are organized on the default calendar and followed on the ones merged into listings
+async function getWatchedCalendars(userId: number): Promise<CalendarChoice[]> {
+  const calendars = [await getDefaultCalendar(userId), ...await getListedCalendars(userId)];
+  return calendars.filter((calendar, index) => calendars.findIndex(other => other.id === calendar.id) === index);
+}
+
+// Compares the organizer's upcoming meetings with the previous pass. Meetings seen for the first
+// time are only recorded, so starting the watcher doesn't replay old declines.
+export async function checkAttendeeResponses(userId: number): Promise<AttendeeResponseChange[]> {
+  const previous = (await snapshots.get(userId)) || {};
+  const snapshot: ResponseSnapshot = {};
+  const changes: AttendeeResponseChange[] = [];
+
+  for (const calendar of await getWatchedCalendars(userId)) {
+    const provider = getCalendarProvider(userId, calendar.id);
+    if (!provider) return [];
+    try {
+      snapshot[calendar.id] = await compareResponses(
+        userId, calendar, await listWatchedEvents(provider), previous[calendar.id] || {}, changes
+      );
+    } catch (error) {
+      // A calendar that can't be read this time is compared on the next pass instead
+      rethrowIfReauthorizationRequired(userId, error);
+      console.error(`Error checking attendee responses on calendar ${calendar.id}:`, error);
+      if (previous[calendar.id]) snapshot[calendar.id] = previous[calendar.id];
+    }
+  }
+
+  await snapshots.set(userId, snapshot);
+  return changes;
+}
+
+function listWatchedEvents(provider: CalendarProvider): Promise<ProviderEvent[]> {
+  const now = currentTime();
+  return provider.listEvents({ timeMin: now, timeMax: new Date(now.getTime() + WATCH_WINDOW), maxResults: 250 });
+}
+
+// Adds the changes on one calendar to `changes` and returns what it saw for the next pass
+async function compareResponses(
+  userId: number,
+  calendar: CalendarChoice,
+  events: ProviderEvent[],
+  previous: Record<string, Record<string, AttendeeResponse>>,
+  changes: AttendeeResponseChange[]
+): Promise<Record<string, Record<string, AttendeeResponse>>> {
+  const timeZone = await getUserTimeZone(userId);
+  const snapshot: Record<string, Record<string, AttendeeResponse>> = {};
+
+  for (const event of events) {
+    // Meetings someone else organizes are theirs to follow up on
+    if (!event.id || event.status === 'cancelled' || (event.organizer && !event.organizer.self)) continue;
+
+    const responses: Record<string, AttendeeResponse> = {};
+    for (const attendee of event.attendees || []) {
+      if (!attendee.email || attendee.self || attendee.resource) continue;
+      const response = { status: attendee.responseStatus || 'needsAction', comment: attendee.comment || undefined };
+      responses[attendee.email] = response;
+
+      const before = previous[event.id]?.[attendee.email];
+      if (!before) continue;
+      const meeting = { ...toCalendarEvent(event, timeZone), calendarId: calendar.id, calendarName: calendar.name };
+      const change = { meeting, attendee: attendee.email, comment: response.comment };
+      if (response.status === 'declined' && before.status !== 'declined') {
+        changes.push({ kind: 'declined', ...change });
+      } else if (response.comment && response.comment !== before.comment && isProposal(response.comment, timeZone)) {
+        changes.push({ kind: 'proposed', ...change });
+      }
+    }
+    snapshot[event.id] = responses;
+  }
+  return snapshot;
+}
+
+export async function pollAttendeeResponses(): Promise<void> {
+  if (polling) return;
+  polling = true;
+  try {
+    for (const userId of getConnectedUserIds()) {
+      try {
+        for (const change of await checkAttendeeResponses(userId)) {
+          for (const listener of listeners) {
+            await Promise.resolve(listener(userId, change))
+              .catch(error => console.error('Error notifying attendee response listener:', error));
+          }
+        }
+      } catch (error) {
+        console.error(`Error checking attendee responses for user ${userId}:`, error);
+      }
+    }
+  } finally {
+    polling = false;
+  }
+}
+
+export function startRsvpWatcher(intervalMs: number = POLL_INTERVAL): void {
+  if (timer) return;
+  timer = setInterval(() => pollAttendeeResponses(), intervalMs);
+  timer.unref();
+  pollAttendeeResponses();
+}
+
+export function stopRsvpWatcher(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
@@ -0,0 +1,100 @@
+import * as path from 'path';
+import { JsonDirectoryStateStore } from './stores/jsonDirectoryStateStore';
+import { JsonFileStateStore } from './stores/jsonFileStateStore';
+import { SqliteStateStore } from './stores/sqliteStateStore';
+
+export interface StoredEntry<T> {
+  value: T;
+  updatedAt: number;
+  expiresAt: number | null;
+}
+
+export interface StateStore {
+  get<T>(namespace: string, key: string): Promise<T | undefined>;
+  getEntry<T>(namespace: string, key: string): Promise<StoredEntry<T> | undefined>;
+  // ttlMs of undefined keeps the entry until it is deleted
+  set<T>(namespace: string, key: string, value: T, ttlMs?: number): Promise<void>;
+  delete(namespace: string, key: string): Promise<void>;
+  keys(namespace: string): Promise<string[]>;
+  purgeExpired(): Promise<number>;
+}
+
+const PURGE_INTERVAL = 60 * 1000;
+
+// Dates are tagged so they come back as Date objects instead of ISO strings
+export function serializeState(value: unknown): string {
+  return JSON.stringify(value, function (this: any, key: string, current: unknown) {
+    const original = this[key];
+    if (original instanceof Date) return { __date: original.toISOString() };
+    return current;
+  });
+}
+
+export function deserializeState<T>(raw: string): T {
+  return JSON.parse(raw, (_key, current) => {
+    if (current && typeof current === 'object' && typeof current.__date === 'string') {
+      return new Date(current.__date);
+    }
+    return current;
+  });
+}
+
+export function isExpired(entry: { expiresAt: number | null }, now: number = Date.now()): boolean {
+  return entry.expiresAt !== null && entry.expiresAt <= now;
+}
+
+let sharedStore: StateStore | null = null;
+let eventCacheStore: StateStore | null = null;
+const DATA_DIR = path.join(__dirname, '../../data');
+
+// One store per process; the JSON store keeps its data in memory, so two instances would overwrite each other
+export function getStateStore(): StateStore {
+  if (!sharedStore) sharedStore = createStateStore();
+  return sharedStore;
+}
+
+// Synced calendar copies are large and rewritten often, so they're kept apart from the rest of the
+// state: a file per calendar with the JSON store, their own database with SQLite
+export function getEventCacheStore(): StateStore {
+  if (!eventCacheStore) {
+    eventCacheStore = process.env.STATE_STORE === 'sqlite'
+      ? new SqliteStateStore(process.env.EVENT_CACHE_PATH || path.join(DATA_DIR, 'event-cache.db'))
+      : new JsonDirectoryStateStore(process.env.EVENT_CACHE_PATH || path.join(DATA_DIR, 'event-cache'));
+  }
+  return eventCacheStore;
+}
+
+function createStateStore(): StateStore {
+  const type = process.env.STATE_STORE || 'json';
+
+  let store: StateStore;
+  if (type === 'sqlite') {
+    store = new SqliteStateStore(process.env.STATE_STORE_PATH || path.join(DATA_DIR, 'state.db'));
+  } else {
+    store = new JsonFileStateStore(process.env.STATE_STORE_PATH || path.join(DATA_DIR, 'state.json'));
+  }
+
+  // Single expiry sweep for every namespace; reads also skip expired entries
+  setInterval(() => {
+    store.purgeExpired().catch(error => console.error('Error purging expired state:', error));
+  }, PURGE_INTERVAL).unref();
+
+  return store;
+}
+
+// Typed view over one namespace, keyed by Telegram id
+export class StateMap<T> {
+  constructor(private store: StateStore, private namespace: string, private ttlMs?: number) {}
+
+  get(key: number | string): Promise<T | undefined> {
+    return this.store.get<T>(this.namespace, key.toString());
+  }
+
+  set(key: number | string, value: T): Promise<void> {
+    return this.store.set(this.namespace, key.toString(), value, this.ttlMs);
+  }
+
+  delete(key: number | string): Promise<void> {
+    return this.store.delete(this.namespace, key.toString());
+  }
+}
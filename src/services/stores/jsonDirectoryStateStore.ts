@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  StateStore,
+  StoredEntry,
+  deserializeState,
+  isExpired,
+  serializeState
+} from '../stateStore';
+
+// One file per key under <directory>/<namespace>/, so a write only touches its own entry.
+// Meant for a few large values, such as event caches, that would bloat a single state file.
+export class JsonDirectoryStateStore implements StateStore {
+  private loaded = new Map<string, StoredEntry<unknown>>();
+
+  constructor(private directory: string) {}
+
+  private filePath(namespace: string, key: string): string {
+    return path.join(this.directory, namespace, `${encodeURIComponent(key)}.json`);
+  }
+
+  private read(filePath: string): StoredEntry<unknown> | undefined {
+    const cached = this.loaded.get(filePath);
+    if (cached) return cached;
+    try {
+      if (!fs.existsSync(filePath)) return undefined;
+      const entry = deserializeState<StoredEntry<unknown>>(fs.readFileSync(filePath, 'utf8'));
+      this.loaded.set(filePath, entry);
+      return entry;
+    } catch (error) {
+      console.error(`Error loading state file ${filePath}:`, error);
+      return undefined;
+    }
+  }
+
+  async getEntry<T>(namespace: string, key: string): Promise<StoredEntry<T> | undefined> {
+    const entry = this.read(this.filePath(namespace, key));
+    if (!entry) return undefined;
+    if (isExpired(entry)) {
+      await this.delete(namespace, key);
+      return undefined;
+    }
+    return entry as StoredEntry<T>;
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | undefined> {
+    return (await this.getEntry<T>(namespace, key))?.value;
+  }
+
+  async set<T>(namespace: string, key: string, value: T, ttlMs?: number): Promise<void> {
+    const now = Date.now();
+    const entry: StoredEntry<T> = { value, updatedAt: now, expiresAt: ttlMs === undefined ? null : now + ttlMs };
+    const filePath = this.filePath(namespace, key);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, serializeState(entry));
+    fs.renameSync(tempPath, filePath);
+    this.loaded.set(filePath, entry);
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    const filePath = this.filePath(namespace, key);
+    this.loaded.delete(filePath);
+    fs.rmSync(filePath, { force: true });
+  }
+
+  async keys(namespace: string): Promise<string[]> {
+    return this.storedKeys(namespace).filter(key => {
+      const entry = this.read(this.filePath(namespace, key));
+      return !!entry && !isExpired(entry);
+    });
+  }
+
+  async purgeExpired(): Promise<number> {
+    if (!fs.existsSync(this.directory)) return 0;
+    let removed = 0;
+    for (const namespace of fs.readdirSync(this.directory)) {
+      for (const key of this.storedKeys(namespace)) {
+        const entry = this.read(this.filePath(namespace, key));
+        if (entry && isExpired(entry)) {
+          await this.delete(namespace, key);
+          removed++;
+        }
+      }
+    }
+    return removed;
+  }
+
+  // Every key with a file, expired or not
+  private storedKeys(namespace: string): string[] {
+    const directory = path.join(this.directory, namespace);
+    if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) return [];
+    return fs.readdirSync(directory)
+      .filter(file => file.endsWith('.json'))
+      .map(file => decodeURIComponent(file.slice(0, -'.json'.length)));
+  }
+}
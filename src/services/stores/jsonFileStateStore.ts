@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  StateStore,
+  StoredEntry,
+  deserializeState,
+  isExpired,
+  serializeState
+} from '../stateStore';
+
+type Namespaces = Record<string, Record<string, StoredEntry<unknown>>>;
+
+// Keeps everything in memory and rewrites the whole file on each change
+export class JsonFileStateStore implements StateStore {
+  private data: Namespaces = {};
+
+  constructor(private filePath: string) {
+    try {
+      if (fs.existsSync(filePath)) {
+        this.data = deserializeState<Namespaces>(fs.readFileSync(filePath, 'utf8'));
+      }
+    } catch (error) {
+      console.error('Error loading state file:', error);
+    }
+  }
+
+  private persist(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, serializeState(this.data));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  async getEntry<T>(namespace: string, key: string): Promise<StoredEntry<T> | undefined> {
+    const entry = this.data[namespace]?.[key];
+    if (!entry) return undefined;
+    if (isExpired(entry)) {
+      await this.delete(namespace, key);
+      return undefined;
+    }
+    return entry as StoredEntry<T>;
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | undefined> {
+    return (await this.getEntry<T>(namespace, key))?.value;
+  }
+
+  async set<T>(namespace: string, key: string, value: T, ttlMs?: number): Promise<void> {
+    const now = Date.now();
+    if (!this.data[namespace]) this.data[namespace] = {};
+    this.data[namespace][key] = {
+      value,
+      updatedAt: now,
+      expiresAt: ttlMs === undefined ? null : now + ttlMs
+    };
+    this.persist();
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    if (!this.data[namespace]?.[key]) return;
+    delete this.data[namespace][key];
+    this.persist();
+  }
+
+  async keys(namespace: string): Promise<string[]> {
+    const entries = this.data[namespace] || {};
+    return Object.keys(entries).filter(key => !isExpired(entries[key]));
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const entries of Object.values(this.data)) {
+      for (const [key, entry] of Object.entries(entries)) {
+        if (isExpired(entry, now)) {
+          delete entries[key];
+          removed++;
+        }
+      }
+    }
+    if (removed > 0) this.persist();
+    return removed;
+  }
+}
@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import {
+  StateStore,
+  StoredEntry,
+  deserializeState,
+  isExpired,
+  serializeState
+} from '../stateStore';
+
+interface StateRow {
+  value: string;
+  updated_at: number;
+  expires_at: number | null;
+}
+
+export class SqliteStateStore implements StateStore {
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS state (
+        namespace TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        expires_at INTEGER,
+        PRIMARY KEY (namespace, key)
+      )
+    `);
+  }
+
+  async getEntry<T>(namespace: string, key: string): Promise<StoredEntry<T> | undefined> {
+    const row = this.db
+      .prepare('SELECT value, updated_at, expires_at FROM state WHERE namespace = ? AND key = ?')
+      .get(namespace, key) as StateRow | undefined;
+    if (!row) return undefined;
+
+    const entry = { value: deserializeState<T>(row.value), updatedAt: row.updated_at, expiresAt: row.expires_at };
+    if (isExpired(entry)) {
+      await this.delete(namespace, key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | undefined> {
+    return (await this.getEntry<T>(namespace, key))?.value;
+  }
+
+  async set<T>(namespace: string, key: string, value: T, ttlMs?: number): Promise<void> {
+    const now = Date.now();
+    this.db
+      .prepare(`
+        INSERT INTO state (namespace, key, value, updated_at, expires_at) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (namespace, key) DO UPDATE SET
+          value = excluded.value, updated_at = excluded.updated_at, expires_at = excluded.expires_at
+      `)
+      .run(namespace, key, serializeState(value), now, ttlMs === undefined ? null : now + ttlMs);
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    this.db.prepare('DELETE FROM state WHERE namespace = ? AND key = ?').run(namespace, key);
+  }
+
+  async keys(namespace: string): Promise<string[]> {
+    const rows = this.db
+      .prepare('SELECT key FROM state WHERE namespace = ? AND (expires_at IS NULL OR expires_at > ?)')
+      .all(namespace, Date.now()) as Array<{ key: string }>;
+    return rows.map(row => row.key);
+  }
+
+  async purgeExpired(): Promise<number> {
+    const result = this.db
+      .prepare('DELETE FROM state WHERE expires_at IS NOT NULL AND expires_at <= ?')
+      .run(Date.now());
+    return result.changes;
+  }
+}
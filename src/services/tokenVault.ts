@@ -0,0 +1,117 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// On-disk format: the whole token map is encrypted as one AES-256-GCM blob
+interface VaultFile {
+  version: 1;
+  keyId: string;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export class TokenVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenVaultError';
+  }
+}
+
+function keyId(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex').slice(0, 16);
+}
+
+function deriveKey(secret: string, salt: Buffer): Buffer {
+  return scryptSync(secret, salt, 32);
+}
+
+export class TokenVault {
+  // secrets[0] encrypts; the rest are previous keys that can still decrypt during rotation
+  constructor(private filePath: string, private secrets: string[]) {
+    if (!secrets.length || !secrets[0]) {
+      throw new TokenVaultError('A master key is required to open the token vault');
+    }
+  }
+
+  exists(): boolean {
+    return fs.existsSync(this.filePath);
+  }
+
+  load(): Map<string, any> {
+    if (!this.exists()) return new Map();
+
+    let file: VaultFile;
+    try {
+      file = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch {
+      // A truncated write or a stray edit
+      throw new TokenVaultError('Token vault could not be read; the file is damaged');
+    }
+    const secret = this.secrets.find(candidate => keyId(candidate) === file.keyId);
+    if (!secret) {
+      throw new TokenVaultError('Token vault was encrypted with an unknown master key');
+    }
+
+    let plaintext: Buffer;
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', deriveKey(secret, Buffer.from(file.salt, 'base64')), Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+    } catch {
+      // GCM rejects any change to the file, so a failure here means it was corrupted or edited
+      throw new TokenVaultError('Token vault could not be decrypted; the file is damaged');
+    }
+    const tokens = new Map<string, any>(Object.entries(JSON.parse(plaintext.toString('utf8'))));
+
+    // Re-encrypt right away when the file still uses a previous key
+    if (secret !== this.secrets[0]) {
+      this.save(tokens);
+      console.log('Token vault re-encrypted with the current master key');
+    }
+
+    return tokens;
+  }
+
+  save(tokens: Map<string, any>): void {
+    const secret = this.secrets[0];
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', deriveKey(secret, salt), iv);
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(Object.fromEntries(tokens)), 'utf8'),
+      cipher.final()
+    ]);
+
+    const file: VaultFile = {
+      version: 1,
+      keyId: keyId(secret),
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+
+    // Write to a temp file and rename so a crash never leaves a half-written vault
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    const fd = fs.openSync(tempPath, 'w', 0o600);
+    try {
+      fs.writeSync(fd, JSON.stringify(file));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+export function getVaultSecrets(): string[] {
+  const current = process.env.TOKEN_MASTER_KEY || '';
+  const previous = (process.env.TOKEN_MASTER_KEY_PREVIOUS || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(Boolean);
+  return [current, ...previous];
+}
@@ -0,0 +1,56 @@
+import { getStateStore, StateMap } from './stateStore';
+import { getServerTimeZone } from '../utils/timezone';
+
+export interface WorkingHours {
+  start: number; // hour of day, local time
+  end: number;
+  days: number[]; // 0 = Sunday
+}
+
+// A calendar picked with /calendars. The name is kept so listings don't need the calendar list.
+export interface CalendarChoice {
+  id: string;
+  name: string;
+}
+
+export interface UserPreferences {
+  timeZone?: string;
+  workingHours?: WorkingHours;
+  minNoticeMinutes?: number;
+  // Where new meetings go unless the request names another calendar
+  defaultCalendar?: CalendarChoice;
+  // Calendars merged into meeting listings, the default calendar when unset
+  listedCalendars?: CalendarChoice[];
+}
+
+// Preferences never expire
+const preferences = new StateMap<UserPreferences>(getStateStore(), 'preferences');
+
+export const DEFAULT_TIME_ZONE = process.env.DEFAULT_TIME_ZONE || getServerTimeZone();
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = { start: 9, end: 18, days: [1, 2, 3, 4, 5] };
+export const DEFAULT_MIN_NOTICE_MINUTES = 60;
+export const PRIMARY_CALENDAR: CalendarChoice = { id: 'primary', name: 'Primary' };
+
+export async function getUserPreferences(userId: number): Promise<UserPreferences> {
+  return (await preferences.get(userId)) || {};
+}
+
+export async function updateUserPreferences(userId: number, updates: Partial<UserPreferences>): Promise<UserPreferences> {
+  const updated = { ...(await getUserPreferences(userId)), ...updates };
+  await preferences.set(userId, updated);
+  return updated;
+}
+
+export async function getUserTimeZone(userId: number): Promise<string> {
+  return (await getUserPreferences(userId)).timeZone || DEFAULT_TIME_ZONE;
+}
+
+export async function getDefaultCalendar(userId: number): Promise<CalendarChoice> {
+  return (await getUserPreferences(userId)).defaultCalendar || PRIMARY_CALENDAR;
+}
+
+export async function getListedCalendars(userId: number): Promise<CalendarChoice[]> {
+  const prefs = await getUserPreferences(userId);
+  return prefs.listedCalendars?.length ? prefs.listedCalendars : [prefs.defaultCalendar || PRIMARY_CALENDAR];
+}
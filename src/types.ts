@@ -10,13 +10,30 @@ export interface Message {
   username?: string;
 }
 
+// Start and end are always instants, so durations and overlaps work the same for every event.
+// All-day events run from midnight of their first day to midnight after their last day in the
+// user's time zone, and keep the calendar dates (end exclusive, as Google stores them) in `date`.
 export interface CalendarEvent {
   id: string;
   summary?: string;
   description?: string;
   start: {
     dateTime: string;
+    date?: string;
   };
+  end: {
+    dateTime: string;
+    date?: string;
+  };
+  allDay?: boolean;
+  location?: string;
+  // Google Meet (or other video) link
+  meetLink?: string;
+  // Set on occurrences of a recurring series
+  recurringEventId?: string;
+  // Calendar the meeting lives on, set by listings and when it's created
+  calendarId?: string;
+  calendarName?: string;
   attendees?: Array<{
     email: string;
     responseStatus?: string;
@@ -24,14 +41,66 @@ export interface CalendarEvent {
 }
 
 export interface MeetingState {
-  step: 'date' | 'time' | 'email' | 'duration' | 'description' | 'confirm' | 'confirm_cancel' | 'select_cancel';
+  step: 'date' | 'time' | 'email' | 'duration' | 'title' | 'location' | 'description' | 'confirm' | 'confirm_cancel' |
+    'select_cancel' | 'resolve_conflict' | 'pick_slot' | 'choose_scope' | 'cancel_note';
   details: {
     date: Date | null;
     time?: string;
+    // Whole-day event with no time or length; endDate is the last day when it spans several
+    allDay?: boolean;
+    endDate?: Date;
+    // Empty when the user skipped the question, so it isn't asked again
+    title?: string;
+    location?: string;
+    // Attach a Google Meet link when the meeting is created
+    conference?: boolean;
     duration?: number;
     attendees: string[];
     description?: string;
+    // Calendar the new meeting goes to, or the one holding the meeting being cancelled
+    calendarId?: string;
+    calendarName?: string;
     meetingId?: string;
     meetings?: CalendarEvent[];
+    // Free slots offered by the slot finder or when the requested time clashes with the calendar
+    alternatives?: Date[];
+    // RRULE lines for recurring meetings
+    recurrence?: string[];
+    // Set when the meeting being changed belongs to a recurring series
+    recurringEventId?: string;
+    pendingAction?: 'cancel' | 'reschedule';
+    // Message for attendees sent along with a cancellation
+    cancelNote?: string;
+    // Name from "with John" that still needs an email, and the contacts it could mean
+    contactName?: string;
+    contactOptions?: Array<{ name: string; email: string }>;
+  };
+}
+
+export type EditableField = 'title' | 'description' | 'location' | 'date' | 'time' | 'duration' | 'attendees';
+
+// Editing wizard for an existing meeting. The new* fields hold pending changes until confirmed.
+export interface UpdateMeetingState {
+  step: 'find_meeting' | 'choose_field' | 'new_title' | 'new_description' | 'new_location' | 'new_date' |
+    'new_time' | 'new_duration' | 'new_attendees' | 'confirm';
+  action: 'update' | 'reschedule' | 'cancel';
+  details: {
+    meetingId?: string;
+    currentMeeting?: CalendarEvent;
+    candidates?: CalendarEvent[];
+    // Field named in the original request, asked about once the meeting is known
+    field?: EditableField;
+    newTitle?: string;
+    newDescription?: string;
+    newLocation?: string;
+    newDate?: Date;
+    newTime?: string;
+    newDuration?: number;
+    newAttendees?: string[];
+    // Free slots offered when the new time clashes with the calendar
+    alternatives?: Date[];
   };
-} 
\ No newline at end of file
+}
+
+// Which occurrences of a recurring meeting a cancel or reschedule applies to
+export type RecurrenceScope = 'single' | 'following' | 'all'; 
\ No newline at end of file
@@ -0,0 +1,12 @@
+// The one place the bot reads the current time, so tests can pin it
+
+let clock: () => Date = () => new Date();
+
+export function currentTime(): Date {
+  return clock();
+}
+
+// Swaps the clock, e.g. for a fixed time in tests; null goes back to the system clock
+export function setClock(replacement: (() => Date) | null): void {
+  clock = replacement || (() => new Date());
+}
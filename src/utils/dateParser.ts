@@ -0,0 +1,549 @@
+import { addDays, addMonths, endOfDay, getZonedParts, startOfDay, zonedTimeToUtc } from './timezone';
+
+// Natural-language dates and times. Everything here is pure: "now" and the user's time zone are
+// passed in, so the same text always parses the same way for a given clock.
+
+export interface ParseOptions {
+  now: Date;
+  timeZone: string;
+}
+
+// 'meridiem': a bare hour like "at 4" could be AM or PM.
+// 'next-weekday': "next Friday" said early in the week could mean this Friday or the one after.
+export type AmbiguityReason = 'meridiem' | 'next-weekday';
+
+export type ParseResult<T> =
+  | { status: 'ok'; value: T }
+  | { status: 'ambiguous'; options: T[]; reason: AmbiguityReason }
+  | { status: 'none' };
+
+// Start of the first day to the end of the last, in the user's time zone
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+// 24-hour "HH:MM" wall-clock times
+export interface TimeRange {
+  start: string;
+  end: string;
+}
+
+const NONE = { status: 'none' } as const;
+
+function ok<T>(value: T): ParseResult<T> {
+  return { status: 'ok', value };
+}
+
+function ambiguous<T>(options: T[], reason: AmbiguityReason): ParseResult<T> {
+  return { status: 'ambiguous', options, reason };
+}
+
+function mapResult<T, U>(result: ParseResult<T>, map: (value: T) => U): ParseResult<U> {
+  if (result.status === 'ok') return ok(map(result.value));
+  if (result.status === 'ambiguous') return ambiguous(result.options.map(map), result.reason);
+  return NONE;
+}
+
+// The value, or the most likely reading of an ambiguous one, for callers that can't ask back
+export function bestGuess<T>(result: ParseResult<T>): T | null {
+  if (result.status === 'ok') return result.value;
+  if (result.status === 'ambiguous') return result.options[0];
+  return null;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+const WEEKDAY_NAME = '(?:mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun)(?:day|nesday|sday|urday)?';
+const MONTH_NAME = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+
+const ORDINAL_WORDS = [
+  'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth',
+  'eleventh', 'twelfth', 'thirteenth', 'fourteenth', 'fifteenth', 'sixteenth', 'seventeenth', 'eighteenth',
+  'nineteenth', 'twentieth', 'twenty-first', 'twenty-second', 'twenty-third', 'twenty-fourth', 'twenty-fifth',
+  'twenty-sixth', 'twenty-seventh', 'twenty-eighth', 'twenty-ninth', 'thirtieth', 'thirty-first'
+];
+// Longest first so "twenty-first" wins over "first"
+const ORDINAL_WORD = `(?:${[...ORDINAL_WORDS].sort((a, b) => b.length - a.length).join('|')})`;
+const ORDINAL = `(?:\\d{1,2}(?:st|nd|rd|th)?|${ORDINAL_WORD})`;
+
+// Named times of day
+const NAMED_TIMES: Record<string, string> = {
+  'early morning': '07:00',
+  'late night': '23:00',
+  'noon': '12:00',
+  'midday': '12:00',
+  'midnight': '00:00',
+  'morning': '09:00',
+  'afternoon': '14:00',
+  'evening': '18:00',
+  'tonight': '20:00',
+  'night': '20:00',
+  'dawn': '06:00',
+  'dusk': '18:00',
+  'breakfast': '08:00',
+  'brunch': '10:30',
+  'lunch': '12:00',
+  'dinner': '19:00',
+  'end of day': '17:00',
+  'eod': '17:00',      // End of day
+  'cob': '17:00',      // Close of business
+  'close of business': '17:00'
+};
+
+// Words elsewhere in the message that settle AM or PM. Not "am" itself: "I am free at 4".
+const PM_CONTEXT = /\b(afternoon|evening|tonight|night)\b/i;
+const AM_CONTEXT = /\bmorning\b/i;
+
+export function parseWeekday(name: string): number | null {
+  const match = name.trim().toLowerCase().match(new RegExp(`^${WEEKDAY_NAME}$`));
+  if (!match) return null;
+  const index = WEEKDAYS.findIndex(day => day.startsWith(match[0].slice(0, 3)));
+  return index === -1 ? null : index;
+}
+
+// 1-12, or null for anything that isn't a month name or abbreviation
+export function parseMonth(name: string): number | null {
+  const lower = name.trim().toLowerCase().replace(/\.$/, '');
+  if (!/^[a-z]{3,}$/.test(lower)) return null;
+  // The first three letters decide, so "sept" and "febuary" work too
+  const index = MONTHS.findIndex(month => month.slice(0, 3) === lower.slice(0, 3));
+  return index === -1 ? null : index + 1;
+}
+
+function parseOrdinal(text: string): number | null {
+  const lower = text.toLowerCase();
+  const numeric = lower.match(/^(\d{1,2})(?:st|nd|rd|th)?$/);
+  if (numeric) return parseInt(numeric[1]);
+  const index = ORDINAL_WORDS.indexOf(lower);
+  return index === -1 ? null : index + 1;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function calendarDay(year: number, month: number, day: number, timeZone: string): Date | null {
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+  return zonedTimeToUtc(year, month, day, 0, 0, timeZone);
+}
+
+function formatClock(hour: number, minute: number): string {
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+}
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+}
+
+// ---- Times ----
+
+interface ClockReading {
+  hour: number;
+  minute: number;
+  meridiem?: 'am' | 'pm';
+  // Written with minutes or a leading zero ("9:30", "09"), read as a 24-hour time
+  explicit: boolean;
+}
+
+function readMeridiem(text?: string): 'am' | 'pm' | undefined {
+  if (!text) return undefined;
+  return text.toLowerCase().startsWith('p') ? 'pm' : 'am';
+}
+
+const MERIDIEM = '(a\\.?m\\.?|p\\.?m\\.?)';
+
+// Forms that clearly are times; a bare number only counts after "at" or as the whole answer
+const CLOCK_PATTERNS: Array<{ pattern: RegExp; read: (match: RegExpMatchArray) => ClockReading }> = [
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})[:.](\\d{2})\\s*${MERIDIEM}?(?![\\w.])`, 'i'),
+    read: match => ({ hour: +match[1], minute: +match[2], meridiem: readMeridiem(match[3]), explicit: true })
+  },
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})\\s*${MERIDIEM}(?!\\w)`, 'i'),
+    read: match => ({ hour: +match[1], minute: 0, meridiem: readMeridiem(match[2]), explicit: false })
+  },
+  {
+    pattern: /\b(\d{1,2})\s*o['’]?\s*clock\b/i,
+    read: match => ({ hour: +match[1], minute: 0, explicit: false })
+  },
+  {
+    // Military "1530 hrs"; "2 hrs" is a duration
+    pattern: /\b([01]\d|2[0-3])([0-5]\d)\s*hrs\b/i,
+    read: match => ({ hour: +match[1], minute: +match[2], explicit: true })
+  },
+  {
+    pattern: /\bat\s+(\d{1,2})\b(?!\s*(?:min|mins|minutes?|hours?|hrs?|days?|weeks?|months?|people|[-\/]))/i,
+    read: match => ({ hour: +match[1], minute: 0, explicit: match[1].length === 2 && match[1].startsWith('0') })
+  },
+  {
+    pattern: /^\s*(\d{1,2})\s*$/,
+    read: match => ({ hour: +match[1], minute: 0, explicit: match[1].length === 2 && match[1].startsWith('0') })
+  }
+];
+
+function resolveClock(reading: ClockReading, context: string): ParseResult<string> {
+  let { hour } = reading;
+  const { minute, meridiem } = reading;
+  if (minute > 59) return NONE;
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return NONE;
+    if (meridiem === 'pm' && hour < 12) hour += 12;
+    if (meridiem === 'am' && hour === 12) hour = 0;
+    return ok(formatClock(hour, minute));
+  }
+
+  if (hour > 23) return NONE;
+  if (hour === 0 || hour >= 12) return ok(formatClock(hour, minute));
+  if (PM_CONTEXT.test(context)) return ok(formatClock(hour + 12, minute));
+  if (AM_CONTEXT.test(context) || reading.explicit) return ok(formatClock(hour, minute));
+
+  // Working hours make 7-11 likely mornings and 1-6 likely afternoons
+  const morning = formatClock(hour, minute);
+  const afternoon = formatClock(hour + 12, minute);
+  return ambiguous(hour >= 7 ? [morning, afternoon] : [afternoon, morning], 'meridiem');
+}
+
+function findNamedTime(lower: string): string | null {
+  for (const [name, time] of Object.entries(NAMED_TIMES)) {
+    if (new RegExp(`\\b${name}\\b`).test(lower)) return time;
+  }
+  return null;
+}
+
+// Start time mentioned in the text: "3pm", "15:30", "at 4", "noon", "EOD"
+export function parseTime(text: string): ParseResult<string> {
+  const lower = text.toLowerCase();
+  for (const { pattern, read } of CLOCK_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return resolveClock(read(match), lower);
+  }
+
+  const named = findNamedTime(lower);
+  return named ? ok(named) : NONE;
+}
+
+const TIME_RANGE = new RegExp(
+  `\\b(\\d{1,2})(?:[:.](\\d{2}))?\\s*${MERIDIEM}?\\s*(?:-|–|—|to|until|till|and)\\s*` +
+  `(\\d{1,2})(?:[:.](\\d{2}))?\\s*${MERIDIEM}?(?![\\w\\/-])`,
+  'i'
+);
+
+// "2–3:30pm", "from 11 to 1pm", "14:00-15:30". A meridiem on one end carries over to the other.
+export function parseTimeRange(text: string): ParseResult<TimeRange> {
+  const match = text.match(TIME_RANGE);
+  if (!match) return NONE;
+  // "between 2 and 4" needs the "between"; a bare "and" is too loose
+  if (/\band\b/i.test(match[0]) && !/\bbetween\s*$/i.test(text.slice(0, match.index))) return NONE;
+  // Dates like "3-4-2026" aren't time ranges
+  if (match.index && /[-\/]$/.test(text.slice(0, match.index))) return NONE;
+
+  const start: ClockReading = { hour: +match[1], minute: match[2] ? +match[2] : 0, meridiem: readMeridiem(match[3]), explicit: !!match[2] };
+  const end: ClockReading = { hour: +match[4], minute: match[5] ? +match[5] : 0, meridiem: readMeridiem(match[6]), explicit: !!match[5] };
+  if (!start.meridiem && !end.meridiem && !start.explicit && !end.explicit && !/\b(from|between)\b/i.test(text) &&
+      start.hour <= 12 && end.hour <= 12 && !/\d\s*(?:-|–|—)\s*\d/.test(match[0])) {
+    // "2 to 3" without any hint is more likely a count than a time range
+    return NONE;
+  }
+
+  const build = (startMeridiem?: 'am' | 'pm', endMeridiem?: 'am' | 'pm'): TimeRange | null => {
+    const from = bestGuess(resolveClock({ ...start, meridiem: startMeridiem, explicit: true }, ''));
+    const to = bestGuess(resolveClock({ ...end, meridiem: endMeridiem, explicit: true }, ''));
+    return from && to && toMinutes(to) > toMinutes(from) ? { start: from, end: to } : null;
+  };
+  const flip = (meridiem: 'am' | 'pm') => meridiem === 'am' ? 'pm' : 'am';
+
+  if (start.meridiem || end.meridiem) {
+    const endMeridiem = end.meridiem || (start.hour > 12 ? undefined : start.meridiem);
+    const startMeridiem = start.meridiem || (start.hour > 12 ? undefined : end.meridiem);
+    // "11-1pm" is 11am to 1pm
+    const range = build(startMeridiem, endMeridiem) ||
+      (!start.meridiem && startMeridiem ? build(flip(startMeridiem), endMeridiem) : null) ||
+      (!end.meridiem && endMeridiem ? build(startMeridiem, flip(endMeridiem)) : null);
+    return range ? ok(range) : NONE;
+  }
+
+  const context = text.toLowerCase();
+  if (PM_CONTEXT.test(context)) {
+    const range = build(start.hour <= 12 ? 'pm' : undefined, end.hour <= 12 ? 'pm' : undefined) ||
+      build(start.hour <= 12 ? 'am' : undefined, end.hour <= 12 ? 'pm' : undefined);
+    return range ? ok(range) : NONE;
+  }
+
+  // 24-hour ranges like "14:00-15:30" or "9:00-10:00"
+  const asWritten = build();
+  if (start.hour === 0 || start.hour >= 13 || end.hour >= 13 || AM_CONTEXT.test(context) ||
+      (start.explicit && end.explicit && asWritten)) {
+    return asWritten ? ok(asWritten) : NONE;
+  }
+
+  const options = [build('pm', 'pm'), build('am', 'am')].filter((range): range is TimeRange => !!range);
+  // Only a range like "11-1" crosses noon
+  if (!options.length) {
+    const acrossNoon = build('am', 'pm');
+    return acrossNoon ? ok(acrossNoon) : NONE;
+  }
+  if (options.length === 1) return ok(options[0]);
+  // Like single times, 7-11 starts are more likely mornings
+  if (start.hour >= 7 && start.hour < 12) options.reverse();
+  return ambiguous(options, 'meridiem');
+}
+
+// "in 2 hours", "in half an hour", "90 minutes from now"
+export function parseRelativeDateTime(text: string, options: Pick<ParseOptions, 'now'>): Date | null {
+  const lower = text.toLowerCase();
+  const match = lower.match(/\bin\s+(half an|an|a|\d+(?:\.\d+)?)\s*(minutes?|mins?|hours?|hrs?)\b/) ||
+    lower.match(/\b(half an|an|a|\d+(?:\.\d+)?)\s*(minutes?|mins?|hours?|hrs?)\s+from\s+now\b/);
+  if (!match) return null;
+
+  const amount = match[1] === 'half an' ? 0.5 : match[1] === 'an' || match[1] === 'a' ? 1 : parseFloat(match[1]);
+  const minutes = match[2].startsWith('h') ? amount * 60 : amount;
+  return new Date(options.now.getTime() + Math.round(minutes) * 60 * 1000);
+}
+
+// ---- Days ----
+
+function weekdayOffset(current: number, target: number): number {
+  const days = target - current;
+  return days <= 0 ? days + 7 : days;
+}
+
+function parseWeekdayPhrase(lower: string, today: Date, timeZone: string): ParseResult<Date> | null {
+  const match = lower.match(new RegExp(`\\b(?:(next|this|coming|last|on)\\s+)?(${WEEKDAY_NAME})\\b`));
+  if (!match) return null;
+  const target = parseWeekday(match[2]);
+  if (target === null) return NONE;
+  const current = getZonedParts(today, timeZone).weekday;
+
+  switch (match[1]) {
+    case 'next': {
+      // Always in the following week; when the day is still ahead this week it could mean either
+      const following = addDays(today, target - current + 7, timeZone);
+      if (target > current) return ambiguous([following, addDays(today, target - current, timeZone)], 'next-weekday');
+      return ok(following);
+    }
+    case 'last':
+      return ok(addDays(today, -weekdayOffset(target, current), timeZone));
+    default:
+      // Plain, "this" and "coming" all mean the next one after today
+      return ok(addDays(today, weekdayOffset(current, target), timeZone));
+  }
+}
+
+// "second Friday of next month", "last Monday of the month", "first Tuesday in March"
+function parseOrdinalWeekday(lower: string, today: Date, timeZone: string): ParseResult<Date> | null {
+  const match = lower.match(new RegExp(
+    `\\b(${ORDINAL}|last)\\s+(${WEEKDAY_NAME})\\s+(?:of|in)\\s+(this month|the month|next month|(${MONTH_NAME})(?:\\s+(\\d{4}))?)\\b`
+  ));
+  if (!match) return null;
+
+  const weekday = parseWeekday(match[2]);
+  const nth = match[1] === 'last' ? -1 : parseOrdinal(match[1]);
+  if (weekday === null || nth === null || nth > 5) return NONE;
+
+  const now = getZonedParts(today, timeZone);
+  let year = now.year;
+  let month = now.month;
+  if (match[3] === 'next month') {
+    month += 1;
+  } else if (match[4]) {
+    const named = parseMonth(match[4]);
+    if (!named) return NONE;
+    month = named;
+    if (match[5]) year = parseInt(match[5]);
+    else if (named < now.month) year += 1;
+  }
+  if (month > 12) {
+    month -= 12;
+    year += 1;
+  }
+
+  const total = daysInMonth(year, month);
+  const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  let day: number;
+  if (nth === -1) {
+    const lastWeekday = new Date(Date.UTC(year, month - 1, total)).getUTCDay();
+    day = total - ((lastWeekday - weekday + 7) % 7);
+  } else {
+    day = 1 + ((weekday - firstWeekday + 7) % 7) + (nth - 1) * 7;
+  }
+
+  const date = calendarDay(year, month, day, timeZone);
+  return date ? ok(date) : NONE;
+}
+
+// "2 feb", "2nd of February 2027", "feb 2nd", "second february". Without a year, a day that
+// already passed means next year.
+function parseDayAndMonth(lower: string, today: Date, timeZone: string): ParseResult<Date> | null {
+  const dayFirst = lower.match(new RegExp(`\\b(${ORDINAL})\\s+(?:of\\s+)?(${MONTH_NAME})\\b(?:,?\\s+(\\d{4}))?`));
+  const monthFirst = lower.match(new RegExp(`\\b(${MONTH_NAME})\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`));
+
+  if (!dayFirst && !monthFirst) return null;
+
+  let day: number | null = null;
+  let month: number | null = null;
+  let year: string | undefined;
+  if (dayFirst) {
+    day = parseOrdinal(dayFirst[1]);
+    month = parseMonth(dayFirst[2]);
+    year = dayFirst[3];
+  }
+  if ((!day || !month) && monthFirst) {
+    day = parseInt(monthFirst[2]);
+    month = parseMonth(monthFirst[1]);
+    year = monthFirst[3];
+  }
+  if (!day || !month) return NONE;
+
+  const currentYear = getZonedParts(today, timeZone).year;
+  let date = calendarDay(year ? parseInt(year) : currentYear, month, day, timeZone);
+  if (date && !year && date < today) date = calendarDay(currentYear + 1, month, day, timeZone);
+  return date ? ok(date) : NONE;
+}
+
+function parseNumericDate(lower: string, timeZone: string, today: Date): ParseResult<Date> | null {
+  const iso = lower.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) {
+    const date = calendarDay(+iso[1], +iso[2], +iso[3], timeZone);
+    return date ? ok(date) : NONE;
+  }
+
+  // dd-mm-yyyy anywhere; dd-mm and dd/mm only as the whole answer, since "2-3" is often a time range
+  const withYear = lower.match(/\b(\d{1,2})[-\/](\d{1,2})[-\/](\d{4})\b/);
+  const withoutYear = lower.trim().match(/^(\d{1,2})[-\/](\d{1,2})$/);
+  const match = withYear || withoutYear;
+  if (!match) return null;
+
+  const currentYear = getZonedParts(today, timeZone).year;
+  let date = calendarDay(match[3] ? +match[3] : currentYear, +match[2], +match[1], timeZone);
+  if (date && !match[3] && date < today) date = calendarDay(currentYear + 1, +match[2], +match[1], timeZone);
+  return date ? ok(date) : NONE;
+}
+
+function parseRelativeDay(lower: string, today: Date, timeZone: string): ParseResult<Date> | null {
+  const match = lower.match(/\bin\s+(a|an|one|\d+)\s+(days?|weeks?|months?)\b/) ||
+    lower.match(/\b(a|an|one|\d+)\s+(days?|weeks?|months?)\s+from\s+(?:now|today)\b/);
+  if (!match) return null;
+
+  const amount = /^\d+$/.test(match[1]) ? parseInt(match[1]) : 1;
+  if (match[2].startsWith('month')) return ok(addMonths(today, amount, timeZone));
+  return ok(addDays(today, amount * (match[2].startsWith('week') ? 7 : 1), timeZone));
+}
+
+// "the 15th": this month if it's still ahead, otherwise next month
+function parseDayOfMonth(lower: string, today: Date, timeZone: string): ParseResult<Date> | null {
+  const match = lower.match(/\bthe\s+(\d{1,2})(?:st|nd|rd|th)\b/);
+  if (!match) return null;
+
+  const { year, month } = getZonedParts(today, timeZone);
+  const day = parseInt(match[1]);
+  const thisMonth = calendarDay(year, month, day, timeZone);
+  if (thisMonth && thisMonth >= today) return ok(thisMonth);
+  const next = month === 12 ? calendarDay(year + 1, 1, day, timeZone) : calendarDay(year, month + 1, day, timeZone);
+  return next ? ok(next) : NONE;
+}
+
+// Each expression receives the start of today in the user's time zone
+const DAY_EXPRESSIONS: Array<[RegExp, (today: Date, timeZone: string) => Date]> = [
+  [/\bday after tomorrow\b/, (today, timeZone) => addDays(today, 2, timeZone)],
+  [/\btomorrow\b/, (today, timeZone) => addDays(today, 1, timeZone)],
+  [/\b(today|tonight)\b/, today => today],
+  [/\byesterday\b/, (today, timeZone) => addDays(today, -1, timeZone)],
+  [/\bnext week\b/, (today, timeZone) => addDays(today, 7, timeZone)],
+  [/\b(end of (the )?week|eow)\b/, (today, timeZone) => addDays(today, (5 - getZonedParts(today, timeZone).weekday + 7) % 7, timeZone)],
+  [/\bweekend\b/, (today, timeZone) => addDays(today, 6 - getZonedParts(today, timeZone).weekday, timeZone)],
+  [/\b(month end|end of (the )?month)\b/, (today, timeZone) => {
+    const { year, month } = getZonedParts(today, timeZone);
+    return zonedTimeToUtc(year, month + 1, 0, 0, 0, timeZone);
+  }],
+  [/\bnext month\b/, (today, timeZone) => addMonths(today, 1, timeZone)],
+  [/\bchristmas\b/, (today, timeZone) => zonedTimeToUtc(getZonedParts(today, timeZone).year, 12, 25, 0, 0, timeZone)],
+  [/\bnew year/, (today, timeZone) => zonedTimeToUtc(getZonedParts(today, timeZone).year + 1, 1, 1, 0, 0, timeZone)]
+];
+
+// The day the text mentions, as the start of that day in the user's time zone. Past days are
+// returned as-is; it's up to the caller whether they're acceptable.
+export function parseDate(text: string, options: ParseOptions): ParseResult<Date> {
+  const lower = text.toLowerCase().trim();
+  const today = startOfDay(options.now, options.timeZone);
+  const { timeZone } = options;
+
+  const parsers = [
+    () => parseNumericDate(lower, timeZone, today),
+    () => parseRelativeDay(lower, today, timeZone),
+    () => parseOrdinalWeekday(lower, today, timeZone),
+    () => parseDayAndMonth(lower, today, timeZone),
+    () => parseDayOfMonth(lower, today, timeZone),
+    () => parseWeekdayPhrase(lower, today, timeZone)
+  ];
+  // Each returns null when its form isn't in the text, and 'none' when it is but names no real
+  // day ("31-02", "fifth Friday of next month"), which shouldn't fall through to a looser reading
+  for (const parse of parsers) {
+    const result = parse();
+    if (result) return result;
+  }
+
+  for (const [pattern, getDate] of DAY_EXPRESSIONS) {
+    if (pattern.test(lower)) return ok(getDate(today, timeZone));
+  }
+
+  // "in 2 hours" lands on a day too
+  const relative = parseRelativeDateTime(lower, options);
+  return relative ? ok(startOfDay(relative, timeZone)) : NONE;
+}
+
+function singleDay(day: Date, timeZone: string): DateRange {
+  return { start: day, end: endOfDay(day, timeZone) };
+}
+
+// The span of days the text talks about: "this week", "next week", "Mon to Wed",
+// "from 3 nov to 7 nov", "next 3 days", or a single day
+export function parseDateRange(text: string, options: ParseOptions): ParseResult<DateRange> {
+  const lower = text.toLowerCase().trim();
+  const { timeZone } = options;
+  const today = startOfDay(options.now, timeZone);
+  const weekday = getZonedParts(today, timeZone).weekday;
+
+  const between = lower.match(/\b(?:from|between)\s+(.+?)\s+(?:to|and|until|till|through)\s+(.+?)[?.!]*$/) ||
+    lower.match(new RegExp(`\\b(${WEEKDAY_NAME})\\s*(?:-|–|to|through|till|until)\\s*(${WEEKDAY_NAME})\\b`));
+  if (between) {
+    const start = bestGuess(parseDate(between[1], options));
+    let end = bestGuess(parseDate(between[2], options));
+    if (start && end) {
+      // "Fri to Mon" wraps into the following week
+      if (end < start && parseWeekday(between[2]) !== null) end = addDays(end, 7, timeZone);
+      if (end >= start) return ok({ start, end: endOfDay(end, timeZone) });
+    }
+  }
+
+  const nextDays = lower.match(/\b(?:next|coming)\s+(\d+)\s+days\b/);
+  if (nextDays) {
+    return ok({ start: today, end: endOfDay(addDays(today, Math.max(1, parseInt(nextDays[1])) - 1, timeZone), timeZone) });
+  }
+
+  if (/\bthis week\b/.test(lower)) {
+    return ok({ start: today, end: endOfDay(addDays(today, (7 - weekday) % 7, timeZone), timeZone) });
+  }
+  if (/\bnext week\b/.test(lower)) {
+    const monday = addDays(today, 8 - (weekday || 7), timeZone);
+    return ok({ start: monday, end: endOfDay(addDays(monday, 6, timeZone), timeZone) });
+  }
+  if (/\b(this )?weekend\b/.test(lower) && !/\bnext weekend\b/.test(lower)) {
+    const saturday = weekday === 0 ? addDays(today, -1, timeZone) : addDays(today, 6 - weekday, timeZone);
+    return ok({ start: weekday === 0 ? today : saturday, end: endOfDay(addDays(saturday, 1, timeZone), timeZone) });
+  }
+
+  return mapResult(parseDate(lower, options), day => singleDay(day, timeZone));
+}
+
+// "YYYY-MM-DD" for the day in the user's time zone
+export function toIsoDate(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,40 @@
+export interface Interval {
+  start: Date;
+  end: Date;
+}
+
+export function overlaps(a: Interval, b: Interval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+export function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+  return merged;
+}
+
+// Removes `removed` from every interval, splitting intervals that contain it
+export function subtractInterval(intervals: Interval[], removed: Interval): Interval[] {
+  const result: Interval[] = [];
+  for (const interval of intervals) {
+    if (!overlaps(interval, removed)) {
+      result.push(interval);
+      continue;
+    }
+    if (interval.start < removed.start) result.push({ start: interval.start, end: removed.start });
+    if (interval.end > removed.end) result.push({ start: removed.end, end: interval.end });
+  }
+  return result;
+}
+
+export function isFree(busy: Interval[], candidate: Interval): boolean {
+  return !busy.some(interval => overlaps(interval, candidate));
+}
@@ -0,0 +1,18 @@
+export type KeyedQueue = <T>(key: string, task: () => Promise<T>) => Promise<T>;
+
+// Runs the tasks for one key one after another and different keys side by side. Read-modify-write
+// updates of a stored record go through it so two taps at the same moment can't undo each other.
+export function createKeyedQueue(): KeyedQueue {
+  const tails = new Map<string, Promise<unknown>>();
+
+  return <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const result = (tails.get(key) || Promise.resolve()).then(task);
+    // A failed task mustn't stop the ones queued after it
+    const tail = result.catch(() => undefined);
+    tails.set(key, tail);
+    tail.then(() => {
+      if (tails.get(key) === tail) tails.delete(key);
+    });
+    return result;
+  };
+}
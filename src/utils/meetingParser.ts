@@ -0,0 +1,123 @@
+import { bestGuess, parseTime, parseTimeRange } from './dateParser';
+
+// Regex-based reading of meeting details from free text
+
+// Words after "with" that are never a person's name
+export const NAME_STOPWORDS = [
+  'a', 'an', 'the', 'my', 'new', 'some', 'him', 'her', 'them', 'me', 'us', 'everyone', 'team', 'all',
+  'today', 'tomorrow', 'next', 'this', 'coming', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday',
+  'saturday', 'sunday', 'description'
+];
+
+// "block Friday off", "all-day offsite", "out of office Monday to Wednesday"
+export const ALL_DAY_PATTERN = /\b(?:block|take|mark)\b.*\boff\b|\b(?:all[- ]day|whole day|full day|days? off|out of (?:the )?office|ooo)\b/i;
+
+// Words before "calendar" that don't name one ("add it to my calendar")
+const CALENDAR_STOPWORDS = ['my', 'our', 'your', 'the', 'a', 'this', 'that', 'google'];
+
+// Returns the start of the matching day in the user's time zone
+// Training data for meeting intent recognition
+const MEETING_TRAINING_DATA = [
+  // Format: [user input, extracted info]
+  
+  // Complete requests
+  ["schedule a meeting with John at 3pm", { has: ['name', 'time'] }],
+  ["set up call with Sarah tomorrow 2:30pm", { has: ['name', 'time', 'date'] }],
+  
+  // Partial requests - missing time
+  ["schedule meeting with Alex", { has: ['name'] }],
+  ["book a call with team", { has: ['name'] }],
+  
+  // Partial requests - missing attendee
+  ["schedule meeting for 3pm", { has: ['time'] }],
+  ["set up call at 15:00", { has: ['time'] }],
+  
+  // Minimal requests
+  ["schedule a meeting", { has: [] }],
+  ["set up a call", { has: [] }],
+  
+  // Add more examples as needed...
+];
+
+export function analyzeMeetingRequest(message: string): {
+  hasTime: boolean;
+  hasName: boolean;
+  hasDate: boolean;
+  hasDuration: boolean;
+  hasEmail: boolean;
+  extractedInfo: {
+    time?: string;
+    name?: string;
+    date?: string;
+    duration?: number;
+    emails?: string[];
+    description?: string;
+    location?: string;
+    videoCall?: boolean;
+    calendar?: string;
+    allDay?: boolean;
+  };
+} {
+  const namePattern = /(?:with|for)\s+([A-Za-z]+)/i;
+  const datePattern = /\b((?:(?:next|this|coming)\s+)?(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)|day after tomorrow|tomorrow|today)\b/i;
+  // "in 2 hours" and "30 minutes from now" say when, not how long
+  const durationPattern = /(?<!\bin\s+)\b(\d+)\s*(?:min|minutes?|hrs?|hours?)\b(?!\s+from now)/i;
+  const emailPattern = /[\w\.-]+@[\w\.-]+\.\w+/g;  // Global flag to find all emails
+  const descPattern = /(?:with description|description:?|about|regarding)\s*["']?([^"']+)["']?/i;
+  // "location: 5th floor", or "in the boardroom" / "at Blue Bottle cafe" naming a kind of place
+  const locationPattern = new RegExp(
+    /\b(?:location|venue)\s*:?\s*["']?([^"',\n]+)["']?/.source + '|' +
+    /\b(?:at|in)\s+(?:the\s+)?((?:[\w'-]+\s+){0,3}?(?:room|office|cafe|café|hq|lobby|boardroom|building|restaurant|library)(?:\s+\d+\w*)?)\b/.source,
+    'i'
+  );
+  const videoPattern = /\b(google meet|meet link|video (?:call|link|conference|meeting)|online meeting|hangouts?)\b/i;
+  // "add it to the Team calendar", "what's on my Family calendar"
+  const calendarPattern = /\b(?:to|on|in|into|from)\s+(?:the\s+|my\s+|our\s+)?([\w'&-]+(?:\s+[\w'&-]+){0,2}?)\s+calendar\b/i;
+
+  // "2-3:30pm" gives both the start and the length. A bare "at 4" takes the likelier reading;
+  // the confirmation step shows it before anything is booked.
+  const timeRange = bestGuess(parseTimeRange(message));
+  const time = timeRange ? timeRange.start : bestGuess(parseTime(message));
+  // "for tomorrow with John" names John, not tomorrow
+  const nameMatch = Array.from(message.matchAll(new RegExp(namePattern, 'gi')))
+    .find(match => !NAME_STOPWORDS.includes(match[1].toLowerCase()));
+  const dateMatch = message.match(datePattern);
+  const durationMatch = message.match(durationPattern);
+  const emailMatches = message.match(emailPattern) || [];
+  const descMatch = message.match(descPattern);
+  const locationMatch = message.match(locationPattern);
+  const calendarMatch = message.match(calendarPattern);
+  const hasToday = message.toLowerCase().includes('today');
+  const noDesc = message.toLowerCase().includes('no description');
+
+  // Convert duration to minutes
+  let duration: number | undefined;
+  if (timeRange) {
+    const minutes = (time: string) => parseInt(time.slice(0, 2)) * 60 + parseInt(time.slice(3));
+    duration = minutes(timeRange.end) - minutes(timeRange.start);
+  } else if (durationMatch) {
+    const num = parseInt(durationMatch[1]);
+    const unit = durationMatch[0].toLowerCase();
+    duration = unit.includes('hour') ? num * 60 : num;
+  }
+
+  return {
+    hasTime: !!time,
+    hasName: !!nameMatch,
+    hasDate: hasToday || !!dateMatch,
+    hasDuration: !!duration,
+    hasEmail: emailMatches.length > 0,
+    extractedInfo: {
+      time: time || undefined,
+      name: nameMatch ? nameMatch[1] : undefined,
+      date: hasToday ? 'today' : dateMatch?.[1] || undefined,
+      duration,
+      emails: emailMatches,
+      description: noDesc ? undefined : descMatch?.[1],
+      location: locationMatch ? (locationMatch[1] || locationMatch[2]).trim() : undefined,
+      videoCall: videoPattern.test(message),
+      calendar: calendarMatch && !CALENDAR_STOPWORDS.includes(calendarMatch[1].toLowerCase()) ? calendarMatch[1] : undefined,
+      allDay: ALL_DAY_PATTERN.test(message)
+    }
+  };
+}
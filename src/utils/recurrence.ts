@@ -0,0 +1,253 @@
+import { addDays, addMonths, endOfDay, getZonedParts, startOfDay, zonedTimeToUtc } from './timezone';
+
+// Subset of RFC 5545 recurrence rules the bot can create and understand
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: string[]; // MO, TU, ...
+  count?: number;
+  until?: Date;
+}
+
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const WEEKDAY_CODES = ['MO', 'TU', 'WE', 'TH', 'FR'];
+const WEEKDAY_PATTERN = '(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*';
+
+// Expanding more than ten years of days is never needed for a chat bot
+const MAX_EXPANSION_DAYS = 3660;
+
+function dayCode(word: string): string | null {
+  const index = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'].indexOf(word.slice(0, 3).toLowerCase());
+  return index === -1 ? null : DAY_CODES[index];
+}
+
+// UTC "YYYYMMDDTHHMMSSZ" form used by UNTIL, EXDATE and instance ids
+export function formatRecurrenceDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Date-only values mean the end of that day
+export function parseRecurrenceDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours = '23', minutes = '59', seconds = '59'] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  else if (rule.until) parts.push(`UNTIL=${formatRecurrenceDate(rule.until)}`);
+  return `RRULE:${parts.join(';')}`;
+}
+
+export function parseRRule(line: string): RecurrenceRule | null {
+  if (!line.toUpperCase().startsWith('RRULE:')) return null;
+
+  const values: Record<string, string> = {};
+  for (const part of line.slice(6).split(';')) {
+    const [key, value] = part.split('=');
+    if (key && value) values[key.toUpperCase()] = value;
+  }
+
+  const freq = values.FREQ as Frequency;
+  if (!['DAILY', 'WEEKLY', 'MONTHLY'].includes(freq)) return null;
+
+  return {
+    freq,
+    interval: values.INTERVAL ? parseInt(values.INTERVAL) : 1,
+    byDay: values.BYDAY ? values.BYDAY.split(',').map(day => day.slice(-2)) : undefined,
+    count: values.COUNT ? parseInt(values.COUNT) : undefined,
+    until: values.UNTIL ? parseRecurrenceDate(values.UNTIL) || undefined : undefined
+  };
+}
+
+// First RRULE line of a Google-style recurrence array
+export function getRecurrenceRule(recurrence?: string[] | null): RecurrenceRule | null {
+  for (const line of recurrence || []) {
+    const rule = parseRRule(line);
+    if (rule) return rule;
+  }
+  return null;
+}
+
+export function describeRecurrence(rule: RecurrenceRule, timeZone: string): string {
+  const days = rule.byDay?.map(code => DAY_NAMES[DAY_CODES.indexOf(code)]).filter(Boolean) || [];
+  let description: string;
+
+  if (rule.freq === 'WEEKLY' && days.length === 5 && WEEKDAY_CODES.every(code => rule.byDay!.includes(code))) {
+    description = rule.interval > 1 ? `every ${rule.interval} weeks on weekdays` : 'every weekday';
+  } else if (rule.freq === 'WEEKLY') {
+    const on = days.length ? ` on ${days.join(', ')}` : '';
+    description = rule.interval === 2 ? `every other week${on}` :
+      rule.interval > 1 ? `every ${rule.interval} weeks${on}` :
+      days.length ? `every ${days.join(', ')}` : 'weekly';
+  } else if (rule.freq === 'DAILY') {
+    description = rule.interval > 1 ? `every ${rule.interval} days` : 'daily';
+  } else {
+    description = rule.interval > 1 ? `every ${rule.interval} months` : 'monthly';
+  }
+
+  if (rule.count) description += `, ${rule.count} times`;
+  else if (rule.until) description += `, until ${rule.until.toLocaleDateString(undefined, { timeZone })}`;
+  return description;
+}
+
+// Detects the repeat pattern ("every Tuesday", "daily standup on weekdays", "every 2 weeks").
+// Limits like "for 6 weeks" need a start date and are applied by applyRecurrenceLimit.
+export function parseRecurrencePattern(message: string): RecurrenceRule | null {
+  const lower = message.toLowerCase();
+  const weekdayList = new RegExp(`\\b(?:every|each|on)\\s+(${WEEKDAY_PATTERN}(?:\\s*(?:,|and|&)\\s*${WEEKDAY_PATTERN})*)`, 'i');
+  const listedDays = (text: string) => (text.match(new RegExp(WEEKDAY_PATTERN, 'gi')) || [])
+    .map(dayCode)
+    .filter((code): code is string => !!code);
+
+  if (/\b(every\s+weekday|weekdays|every\s+working\s+day|monday\s+(to|through)\s+friday|mon\s*-\s*fri)\b/.test(lower)) {
+    return { freq: 'WEEKLY', interval: 1, byDay: [...WEEKDAY_CODES] };
+  }
+
+  if (/\b(every\s+other\s+week|biweekly|bi-weekly|fortnightly)\b/.test(lower) ||
+      new RegExp(`\\bevery\\s+other\\s+${WEEKDAY_PATTERN}`).test(lower)) {
+    const days = listedDays(lower.replace(/.*every\s+other\s+/, ''));
+    return { freq: 'WEEKLY', interval: 2, byDay: days.length ? days : undefined };
+  }
+
+  const everyN = lower.match(/\bevery\s+(\d+)\s+(day|week|month)s?\b/);
+  if (everyN) {
+    const freq = ({ day: 'DAILY', week: 'WEEKLY', month: 'MONTHLY' } as const)[everyN[2] as 'day' | 'week' | 'month'];
+    return { freq, interval: Math.max(1, parseInt(everyN[1])) };
+  }
+
+  if (/\b(daily|every\s+day|each\s+day)\b/.test(lower)) {
+    return { freq: 'DAILY', interval: 1 };
+  }
+
+  const weekly = lower.match(weekdayList);
+  if (weekly && /\b(every|each)\b/.test(weekly[0])) {
+    return { freq: 'WEEKLY', interval: 1, byDay: listedDays(weekly[1]) };
+  }
+
+  if (/\b(weekly|every\s+week)\b/.test(lower)) {
+    const days = weekly ? listedDays(weekly[1]) : [];
+    return { freq: 'WEEKLY', interval: 1, byDay: days.length ? days : undefined };
+  }
+
+  if (/\b(monthly|every\s+month)\b/.test(lower)) {
+    return { freq: 'MONTHLY', interval: 1 };
+  }
+
+  return null;
+}
+
+// Applies "for 6 weeks", "10 times" or "until <date>" relative to the first occurrence
+export function applyRecurrenceLimit(
+  rule: RecurrenceRule,
+  message: string,
+  start: Date,
+  timeZone: string,
+  parseDate?: (text: string) => Date | null
+): RecurrenceRule {
+  const lower = message.toLowerCase();
+
+  const times = lower.match(/\b(\d+)\s+(times|occurrences|sessions)\b/);
+  if (times) return { ...rule, count: parseInt(times[1]), until: undefined };
+
+  const span = lower.match(/\bfor\s+(\d+)\s+(day|week|month)s?\b/);
+  if (span) {
+    const amount = parseInt(span[1]);
+    const lastDay = span[2] === 'month'
+      ? addDays(addMonths(start, amount, timeZone), -1, timeZone)
+      : addDays(start, amount * (span[2] === 'week' ? 7 : 1) - 1, timeZone);
+    return { ...rule, until: endOfDay(lastDay, timeZone), count: undefined };
+  }
+
+  const until = lower.match(/\buntil\s+(.+?)(?:\s+at\s+.*)?$/);
+  if (until && parseDate) {
+    const date = parseDate(until[1]);
+    if (date) return { ...rule, until: endOfDay(date, timeZone), count: undefined };
+  }
+
+  return rule;
+}
+
+// Moves BYDAY along when an occurrence is rescheduled to a different weekday
+export function shiftRecurrenceDays(rule: RecurrenceRule, from: Date, to: Date, timeZone: string): RecurrenceRule {
+  if (!rule.byDay?.length) return rule;
+  const delta = (getZonedParts(to, timeZone).weekday - getZonedParts(from, timeZone).weekday + 7) % 7;
+  if (!delta) return rule;
+  return { ...rule, byDay: rule.byDay.map(code => DAY_CODES[(DAY_CODES.indexOf(code) + delta) % 7]) };
+}
+
+// First day strictly after `after` that matches the rule's BYDAY (or `after` + 1 day)
+export function getFirstOccurrenceDate(rule: RecurrenceRule, after: Date, timeZone: string): Date {
+  const start = startOfDay(after, timeZone);
+  for (let offset = 1; offset <= 7; offset++) {
+    const candidate = addDays(start, offset, timeZone);
+    const code = DAY_CODES[getZonedParts(candidate, timeZone).weekday];
+    if (!rule.byDay?.length || rule.byDay.includes(code)) return candidate;
+  }
+  return addDays(start, 1, timeZone);
+}
+
+// Occurrence start times between windowStart and windowEnd, keeping the first occurrence's wall-clock time
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  firstStart: Date,
+  timeZone: string,
+  windowStart: Date,
+  windowEnd: Date,
+  excluded: Date[] = []
+): Date[] {
+  const first = getZonedParts(firstStart, timeZone);
+  const excludedTimes = new Set(excluded.map(date => date.getTime()));
+  const byDay = rule.byDay?.length ? rule.byDay : [DAY_CODES[first.weekday]];
+  // Weeks are counted from the Monday of the first occurrence (RFC 5545 default WKST=MO)
+  const firstWeekStart = Date.UTC(first.year, first.month - 1, first.day - ((first.weekday + 6) % 7));
+
+  const occurrences: Date[] = [];
+  let seen = 0;
+
+  for (let offset = 0; offset < MAX_EXPANSION_DAYS; offset++) {
+    const dayUtc = Date.UTC(first.year, first.month - 1, first.day + offset);
+    const day = new Date(dayUtc);
+    const weekday = day.getUTCDay();
+    let matches: boolean;
+
+    if (rule.freq === 'DAILY') {
+      matches = offset % rule.interval === 0;
+    } else if (rule.freq === 'WEEKLY') {
+      const week = Math.floor((dayUtc - firstWeekStart) / (7 * 24 * 60 * 60 * 1000));
+      matches = week % rule.interval === 0 && byDay.includes(DAY_CODES[weekday]);
+    } else {
+      const months = (day.getUTCFullYear() - first.year) * 12 + day.getUTCMonth() - (first.month - 1);
+      matches = day.getUTCDate() === first.day && months % rule.interval === 0;
+    }
+    if (!matches) continue;
+
+    const occurrence = zonedTimeToUtc(
+      day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), first.hour, first.minute, timeZone
+    );
+    if (occurrence < firstStart) continue;
+    if (rule.until && occurrence > rule.until) break;
+    if (occurrence > windowEnd) break;
+
+    seen++;
+    if (rule.count && seen > rule.count) break;
+    if (occurrence >= windowStart && !excludedTimes.has(occurrence.getTime())) {
+      occurrences.push(occurrence);
+    }
+  }
+
+  return occurrences;
+}
+
+// Number of occurrences strictly before `before`, used to split COUNT-limited series
+export function countOccurrencesBefore(rule: RecurrenceRule, firstStart: Date, timeZone: string, before: Date): number {
+  return expandRecurrence({ ...rule, count: undefined }, firstStart, timeZone, firstStart, new Date(before.getTime() - 1)).length;
+}
@@ -0,0 +1,141 @@
+// Time zone arithmetic on top of Intl, so wall-clock dates can be computed in the user's zone
+// regardless of where the server runs
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function getServerTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Normalizes user input like "europe/berlin" to the canonical "Europe/Berlin"
+export function normalizeTimeZone(input: string): string | null {
+  const candidate = input.trim().replace(/\s+/g, '_');
+  if (!isValidTimeZone(candidate)) return null;
+  return new Intl.DateTimeFormat('en-US', { timeZone: candidate }).resolvedOptions().timeZone;
+}
+
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: parseInt(parts.year),
+    month: parseInt(parts.month),
+    day: parseInt(parts.day),
+    hour: parseInt(parts.hour),
+    minute: parseInt(parts.minute),
+    second: parseInt(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Converts a wall-clock time in the zone to an instant. Out-of-range days/months roll over like Date.UTC.
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  let instant = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  // A second pass settles times near DST transitions
+  instant = wallClock - getTimeZoneOffset(new Date(instant), timeZone);
+  return new Date(instant);
+}
+
+// Midnight at the start of a "YYYY-MM-DD" day in the zone, e.g. the start of an all-day event
+export function fromIsoDate(isoDate: string, timeZone: string): Date {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return zonedTimeToUtc(year, month, day, 0, 0, timeZone);
+}
+
+export function startOfDay(date: Date, timeZone: string): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(year, month, day, 0, 0, timeZone);
+}
+
+export function endOfDay(date: Date, timeZone: string): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return new Date(zonedTimeToUtc(year, month, day + 1, 0, 0, timeZone).getTime() - 1);
+}
+
+export function addDays(date: Date, days: number, timeZone: string): Date {
+  const { year, month, day, hour, minute } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(year, month, day + days, hour, minute, timeZone);
+}
+
+// Days past the end of the target month land on its last day: Jan 31 + 1 month is Feb 28
+export function addMonths(date: Date, months: number, timeZone: string): Date {
+  const { year, month, day, hour, minute } = getZonedParts(date, timeZone);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return zonedTimeToUtc(year, month + months, Math.min(day, lastDay), hour, minute, timeZone);
+}
+
+// The calendar day of `date` in the zone, at the given wall-clock time
+export function atTime(date: Date, hours: number, minutes: number, timeZone: string): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(year, month, day, hours, minutes, timeZone);
+}
+
+// 24-hour "HH:MM" wall-clock time, the format the scheduling wizard stores
+export function toWallClockTime(date: Date, timeZone: string): string {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+}
+
+export function formatDate(date: Date, timeZone: string, options: Intl.DateTimeFormatOptions = {}): string {
+  return date.toLocaleDateString(undefined, { ...options, timeZone });
+}
+
+export function formatTime(date: Date, timeZone: string, options: Intl.DateTimeFormatOptions = {}): string {
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', ...options, timeZone });
+}
@@ -0,0 +1,73 @@
+import './harness/environment';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { calendarFile } from './harness/environment';
+import type { ProviderEvent } from '../src/services/calendarProvider';
+import { checkAvailability } from '../src/services/availabilityService';
+import { updateUserPreferences } from '../src/services/userPreferences';
+import { setClock } from '../src/utils/clock';
+
+const userId = 6200;
+const timeZone = 'Asia/Kolkata';
+const at = (time: string) => new Date(`2025-03-13T${time}:00+05:30`);
+const times = (dates: Date[]) => dates.map(date => date.toISOString());
+
+function meeting(id: string, start: string, end: string, extra: Partial<ProviderEvent> = {}): ProviderEvent {
+  return { id, status: 'confirmed', summary: id, start: { dateTime: at(start).toISOString() }, end: { dateTime: at(end).toISOString() }, ...extra };
+}
+
+describe('availability check', () => {
+  const log = console.log;
+  before(async () => {
+    console.log = () => undefined;
+    setClock(() => new Date('2025-03-12T10:00:00+05:30'));
+    await updateUserPreferences(userId, { timeZone });
+    fs.mkdirSync(path.dirname(calendarFile(userId)), { recursive: true });
+    fs.writeFileSync(calendarFile(userId), JSON.stringify({
+      events: [
+        meeting('standup', '10:00', '11:00'),
+        meeting('lunch', '11:30', '12:30'),
+        meeting('focus', '14:00', '15:00', { transparency: 'transparent' })
+      ]
+    }));
+    fs.writeFileSync(calendarFile(userId, 'team'), JSON.stringify({ events: [meeting('retro', '16:00', '17:00')] }));
+  });
+  after(() => {
+    console.log = log;
+    setClock(null);
+  });
+
+  test('lets a free slot through without suggestions', async () => {
+    assert.deepEqual(await checkAvailability(userId, at('15:00'), at('15:30')), { isBusy: false, conflicts: [], alternatives: [] });
+  });
+
+  test('ignores events marked as free', async () => {
+    assert.equal((await checkAvailability(userId, at('14:00'), at('14:30'))).isBusy, false);
+  });
+
+  test('names the conflicts and offers the nearest free slots of the same length', async () => {
+    const check = await checkAvailability(userId, at('10:30'), at('12:00'));
+    assert.equal(check.isBusy, true);
+    assert.deepEqual(check.conflicts.map(event => event.summary), ['standup', 'lunch']);
+    // Nothing between the two meetings is long enough; slots on either side win
+    assert.deepEqual(times(check.alternatives), times([at('08:00'), at('08:30'), at('12:30')]));
+  });
+
+  test('does not count the meeting being moved against itself', async () => {
+    assert.equal((await checkAvailability(userId, at('10:30'), at('11:00'), 'standup')).isBusy, false);
+    const check = await checkAvailability(userId, at('11:00'), at('12:00'), 'standup');
+    assert.deepEqual(check.conflicts.map(event => event.summary), ['lunch']);
+  });
+
+  test('checks every calendar it is given', async () => {
+    assert.equal((await checkAvailability(userId, at('16:00'), at('16:30'))).isBusy, false);
+    const check = await checkAvailability(userId, at('15:30'), at('16:30'), undefined, ['primary', 'team']);
+    assert.deepEqual(check.conflicts.map(event => event.summary), ['retro']);
+    assert.deepEqual(times(check.alternatives), times([at('14:00'), at('14:30'), at('15:00')]));
+
+    // A meeting on the team calendar moved within its own slot
+    assert.equal((await checkAvailability(userId, at('16:30'), at('17:00'), 'retro', ['team', 'primary'])).isBusy, false);
+  });
+});
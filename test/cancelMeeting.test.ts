@@ -0,0 +1,137 @@
+import './harness/environment';
+import { after, afterEach, before, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { calendarFile } from './harness/environment';
+import { createFakeContext, RecordedReply } from './harness/fakeContext';
+import { handleCancelCommand } from '../src/handlers/commandHandler';
+import { handleCallbackQuery, handleMessage } from '../src/handlers/messageHandler';
+import type { ProviderEvent } from '../src/services/calendarProvider';
+import { setIntentExtractor } from '../src/services/intentService';
+import { RuleBasedIntentExtractor } from '../src/services/extractors/ruleBasedIntentExtractor';
+import { LocalCalendarProvider } from '../src/services/providers/localCalendarProvider';
+import { updateUserPreferences } from '../src/services/userPreferences';
+import { setClock } from '../src/utils/clock';
+
+const userId = 6500;
+
+function meeting(id: string, time: string, attendees: string[] = []): ProviderEvent {
+  return {
+    id,
+    status: 'confirmed',
+    summary: id,
+    start: { dateTime: `2025-03-13T${time}:00+05:30` },
+    end: { dateTime: `2025-03-13T${time.replace(/^\d+/, hour => `${+hour + 1}`)}:00+05:30` },
+    attendees: attendees.map(email => ({ email }))
+  };
+}
+
+function remaining(): string[] {
+  return JSON.parse(fs.readFileSync(calendarFile(userId), 'utf8')).events.map((event: ProviderEvent) => event.summary);
+}
+
+async function say(text: string): Promise<RecordedReply[]> {
+  const replies: RecordedReply[] = [];
+  await handleMessage(createFakeContext({ userId, text }, replies));
+  return replies;
+}
+
+async function tap(data: string): Promise<RecordedReply[]> {
+  const replies: RecordedReply[] = [];
+  await handleCallbackQuery(createFakeContext({ userId, callbackData: data }, replies));
+  return replies;
+}
+
+describe('meeting cancellation', () => {
+  const log = console.log;
+  before(async () => {
+    console.log = () => undefined;
+    setClock(() => new Date('2025-03-12T10:00:00+05:30'));
+    setIntentExtractor(new RuleBasedIntentExtractor());
+    await updateUserPreferences(userId, { timeZone: 'Asia/Kolkata' });
+  });
+  beforeEach(() => {
+    fs.mkdirSync(path.dirname(calendarFile(userId)), { recursive: true });
+    fs.writeFileSync(calendarFile(userId), JSON.stringify({
+      events: [meeting('Standup', '10:00'), meeting('Design review', '15:00', ['bob@example.com'])]
+    }));
+  });
+  afterEach(() => mock.restoreAll());
+  after(() => {
+    console.log = log;
+    setClock(null);
+    setIntentExtractor(null);
+  });
+
+  test('asks which meeting when several match, then confirms before deleting', async () => {
+    const [list] = await say('cancel my meeting tomorrow');
+    assert.match(list.text, /I found 2 meetings[^]*1\. .*Standup[^]*2\. .*Design review/);
+
+    const [confirmation] = await say('3pm');
+    assert.match(confirmation.text, /Design review[^]*cancel this meeting/);
+    assert.deepEqual(remaining(), ['Standup', 'Design review']);
+
+    const [keep] = await tap(confirmation.buttons.find(button => /Keep it/.test(button.label))!.data);
+    assert.doesNotMatch(keep.text, /has been cancelled/);
+    assert.deepEqual(remaining(), ['Standup', 'Design review']);
+  });
+
+  test('sends a note to the attendees with the cancellation', async () => {
+    const patches = mock.method(LocalCalendarProvider.prototype, 'patchEvent');
+    await say('cancel my 3pm meeting tomorrow');
+    const [question] = await say('yes');
+    assert.match(question.text, /add a note for the attendees/);
+
+    const [done] = await say("Sorry, no slides yet - let's move this to next week");
+    assert.match(done.text, /Meeting has been cancelled and attendees have been notified with your note/);
+    assert.deepEqual(remaining(), ['Standup']);
+    const [, patch] = patches.mock.calls[0].arguments;
+    assert.match(patch.description!, /^Cancellation note: Sorry, no slides yet/);
+  });
+
+  test('does not ask for a note when nobody else is invited', async () => {
+    await say('cancel my 10am meeting tomorrow');
+    const [done] = await say('yes');
+    assert.match(done.text, /Meeting has been cancelled/);
+    assert.deepEqual(remaining(), ['Design review']);
+  });
+
+  test('says so when nothing matches', async () => {
+    const [reply] = await say('cancel my 6pm meeting tomorrow');
+    assert.match(reply.text, /No meetings found at 18:00/);
+  });
+
+  test('looking for a free time drops the cancellation in progress', async () => {
+    const [confirmation] = await say('cancel my 3pm meeting tomorrow');
+    assert.match(confirmation.text, /Design review[^]*cancel this meeting/);
+
+    const [slots] = await say('find a 30 minute slot tomorrow');
+    assert.match(slots.text, /Here are the best 30-minute slots on your calendar/);
+    const [summary] = await say('1');
+    assert.doesNotMatch(summary.text, /Design review|bob@example\.com/);
+    await say('yes');
+    assert.deepEqual(remaining().slice(0, 2), ['Standup', 'Design review']);
+    assert.equal(remaining().length, 3);
+  });
+
+  test('/cancel stops a wizard in progress before it cancels anything', async () => {
+    const command = async (text: string) => {
+      const replies: RecordedReply[] = [];
+      await handleCancelCommand(createFakeContext({ userId, text }, replies));
+      return replies;
+    };
+
+    const [question] = await say('schedule a meeting tomorrow');
+    assert.match(question.text, /time/i);
+    const [stopped] = await command('/cancel 3pm');
+    assert.match(stopped.text, /cancelled the meeting scheduling[^]*send \/cancel 3pm again/);
+    assert.deepEqual(remaining(), ['Standup', 'Design review']);
+
+    const [confirmation] = await command('/cancel 3pm');
+    assert.match(confirmation.text, /Design review[^]*cancel this meeting/);
+    const [left] = await command('/cancel');
+    assert.match(left.text, /leave the meeting as it is/);
+    assert.deepEqual(remaining(), ['Standup', 'Design review']);
+  });
+});
@@ -0,0 +1,74 @@
+import './harness/environment';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePollArgs, parseScheduleArgs } from '../src/handlers/commandHandler';
+
+// Wednesday 12 March 2025, 10:00 in Kolkata
+const options = { now: new Date('2025-03-12T10:00:00+05:30'), timeZone: 'Asia/Kolkata' };
+const isoTimes = (dates: Date[]) => dates.map(date => date.toISOString());
+
+describe('/schedule arguments', () => {
+  test('reads every part in any order', () => {
+    const slots = parseScheduleArgs('tomorrow 3pm 30m alice@example.com bob@example.com "Design review"', options);
+    assert.deepEqual(slots, {
+      date: '2025-03-13',
+      time: '15:00',
+      duration: 30,
+      attendees: ['alice@example.com', 'bob@example.com'],
+      title: 'Design review',
+      location: undefined,
+      conference: undefined,
+      calendar: undefined
+    });
+  });
+
+  test('reads hour and minute durations', () => {
+    assert.equal(parseScheduleArgs('friday 10am 1h30m', options).duration, 90);
+    assert.equal(parseScheduleArgs('friday 10am 2 hours', options).duration, 120);
+    assert.equal(parseScheduleArgs('friday 10am 45 min', options).duration, 45);
+  });
+
+  test('takes the duration from a time range', () => {
+    const slots = parseScheduleArgs('friday 2pm-3:30pm', options);
+    assert.equal(slots.date, '2025-03-14');
+    assert.equal(slots.time, '14:00');
+    assert.equal(slots.duration, 90);
+  });
+
+  test('keeps a contact name when no email is given', () => {
+    assert.deepEqual(parseScheduleArgs('tomorrow 4pm with john', options).attendees, ['john']);
+  });
+
+  test('leaves out what was not given', () => {
+    const slots = parseScheduleArgs('', options);
+    assert.equal(slots.date, undefined);
+    assert.equal(slots.time, undefined);
+    assert.equal(slots.attendees, undefined);
+  });
+});
+
+describe('/poll arguments', () => {
+  test('collects the title, length, attendees and candidate times', () => {
+    const request = parsePollArgs('"Design review" 45m alice@example.com; tue 3pm; wed 10am', options);
+    assert.equal(request.title, 'Design review');
+    assert.equal(request.duration, 45);
+    assert.deepEqual(request.attendees, ['alice@example.com']);
+    assert.deepEqual(isoTimes(request.times), isoTimes([
+      new Date('2025-03-18T15:00:00+05:30'),
+      new Date('2025-03-19T10:00:00+05:30')
+    ]));
+  });
+
+  test('puts a time without a day on the day before it', () => {
+    const request = parsePollArgs('fri 9am; 5pm; mon 11am', options);
+    assert.deepEqual(isoTimes(request.times), isoTimes([
+      new Date('2025-03-14T09:00:00+05:30'),
+      new Date('2025-03-14T17:00:00+05:30'),
+      new Date('2025-03-17T11:00:00+05:30')
+    ]));
+  });
+
+  test('skips times that come before any day', () => {
+    assert.deepEqual(parsePollArgs('3pm; thu 2pm', options).times.length, 1);
+  });
+});
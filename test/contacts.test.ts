@@ -0,0 +1,115 @@
+import './harness/environment';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakeContext, RecordedReply } from './harness/fakeContext';
+import { handleContactsCommand } from '../src/handlers/commandHandler';
+import { handleMessage } from '../src/handlers/messageHandler';
+import {
+  addContact,
+  getContacts,
+  learnContacts,
+  nameFromEmail,
+  removeContact,
+  resolveContact
+} from '../src/services/contacts';
+import { setIntentExtractor } from '../src/services/intentService';
+import { RuleBasedIntentExtractor } from '../src/services/extractors/ruleBasedIntentExtractor';
+import { updateUserPreferences } from '../src/services/userPreferences';
+import { setClock } from '../src/utils/clock';
+
+const emails = (contacts: Array<{ email: string }>) => contacts.map(contact => contact.email);
+
+describe('contacts book', () => {
+  const userId = 6700;
+
+  test('guesses names from email addresses', () => {
+    assert.equal(nameFromEmail('john.smith42@example.com'), 'John Smith');
+    assert.equal(nameFromEmail('42@example.com'), '42@example.com');
+  });
+
+  test('learns attendees without overriding saved contacts', async () => {
+    await addContact(userId, 'johnny', 'John@Example.com');
+    await learnContacts(userId, [
+      { email: 'john@example.com', displayName: 'John Learned' },
+      { email: 'me@example.com', self: true },
+      { email: 'room-4@resource.example.com', resource: true },
+      { email: 'priya.nair@example.com' }
+    ]);
+    assert.deepEqual(await getContacts(userId), [
+      { name: 'Johnny', email: 'john@example.com', source: 'manual' },
+      { name: 'Priya Nair', email: 'priya.nair@example.com', source: 'learned' }
+    ]);
+  });
+
+  test('resolves exact names first, then first names, surnames and emails', async () => {
+    await addContact(userId, 'John Smith', 'jsmith@example.com');
+    await addContact(userId, 'Jon Nair', 'jon@example.com');
+    assert.deepEqual(emails(await resolveContact(userId, 'john smith')), ['jsmith@example.com']);
+    assert.deepEqual(emails(await resolveContact(userId, 'john')), ['jsmith@example.com', 'john@example.com']);
+    assert.deepEqual(emails(await resolveContact(userId, 'smith')), ['jsmith@example.com']);
+    assert.deepEqual(emails(await resolveContact(userId, 'nair')), ['jon@example.com', 'priya.nair@example.com']);
+    assert.deepEqual(await resolveContact(userId, ' '), []);
+  });
+
+  test('removes by name or email', async () => {
+    assert.deepEqual(emails(await removeContact(userId, 'JON@example.com')), ['jon@example.com']);
+    assert.deepEqual(emails(await removeContact(userId, 'priya nair')), ['priya.nair@example.com']);
+    assert.deepEqual(await removeContact(userId, 'nobody'), []);
+  });
+});
+
+describe('/contacts and names in the wizard', () => {
+  const log = console.log;
+  const userId = 6701;
+
+  async function send(text: string, handler = handleMessage): Promise<string> {
+    const replies: RecordedReply[] = [];
+    await handler(createFakeContext({ userId, text }, replies));
+    return replies.map(reply => reply.text).join('\n');
+  }
+
+  // Skips the optional title, place and description questions
+  async function skipToConfirmation(): Promise<string> {
+    let reply = '';
+    for (let step = 0; step < 4 && !/confirm these meeting details/.test(reply); step++) {
+      reply = await send('skip');
+    }
+    return reply;
+  }
+
+  before(async () => {
+    console.log = () => undefined;
+    setClock(() => new Date('2025-03-12T10:00:00+05:30'));
+    setIntentExtractor(new RuleBasedIntentExtractor());
+    await updateUserPreferences(userId, { timeZone: 'Asia/Kolkata' });
+  });
+  after(() => {
+    console.log = log;
+    setClock(null);
+    setIntentExtractor(null);
+  });
+
+  test('adds, lists and removes contacts', async () => {
+    assert.match(await send('/contacts', handleContactsCommand), /contacts book is empty/);
+    assert.match(await send('/contacts add sam lee sam@example.com', handleContactsCommand), /Saved Sam Lee \(sam@example\.com\)/);
+    assert.match(await send('/contacts add sam', handleContactsCommand), /Please give a name and an email/);
+    assert.match(await send('/contacts add Sam Patel sam.patel@example.com', handleContactsCommand), /Saved Sam Patel/);
+    assert.match(await send('/contacts list', handleContactsCommand), /Your contacts \(2\):\n\n• Sam Lee - sam@example\.com\n• Sam Patel/);
+  });
+
+  test('asks which contact a shared first name means', async () => {
+    const question = await send('schedule a meeting with sam tomorrow at 3pm for 30 minutes');
+    assert.match(question, /I know 2 people called Sam[^]*1\. Sam Lee[^]*2\. Sam Patel/);
+    await send('2');
+    assert.match(await skipToConfirmation(), /confirm these meeting details[^]*sam\.patel@example\.com/);
+    await send('cancel');
+  });
+
+  test('asks for the email of someone new and remembers it', async () => {
+    assert.match(await send('schedule a meeting with dana tomorrow at 3pm for 30 minutes'), /What's Dana's email address/);
+    await send('dana@example.com');
+    assert.match(await skipToConfirmation(), /confirm these meeting details[^]*dana@example\.com/);
+    await send('cancel');
+    assert.deepEqual(emails(await resolveContact(userId, 'dana')), ['dana@example.com']);
+  });
+});
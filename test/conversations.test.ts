@@ -0,0 +1,15 @@
+import './harness/environment';
+import { after, before, describe, test } from 'node:test';
+import * as path from 'path';
+import { loadTranscripts, runTranscript } from './harness/conversation';
+
+describe('conversations', () => {
+  // The handlers log every calendar call; keep the output to the results
+  const log = console.log;
+  before(() => { console.log = () => undefined; });
+  after(() => { console.log = log; });
+
+  for (const transcript of loadTranscripts(path.join(__dirname, 'transcripts'))) {
+    test(transcript.name, () => runTranscript(transcript));
+  }
+});
@@ -0,0 +1,204 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DateRange,
+  ParseResult,
+  TimeRange,
+  parseDate,
+  parseDateRange,
+  parseMonth,
+  parseRelativeDateTime,
+  parseTime,
+  parseTimeRange,
+  toIsoDate
+} from '../src/utils/dateParser';
+import { toWallClockTime, zonedTimeToUtc } from '../src/utils/timezone';
+
+// Wednesday 12 March 2025, 10:00 in Kolkata
+const timeZone = 'Asia/Kolkata';
+const now = zonedTimeToUtc(2025, 3, 12, 10, 0, timeZone);
+const options = { now, timeZone };
+
+// Results as one readable string: "none", "2025-03-14" or "ambiguous: 16:00 | 04:00"
+function show<T>(result: ParseResult<T>, format: (value: T) => string): string {
+  if (result.status === 'none') return 'none';
+  if (result.status === 'ok') return format(result.value);
+  return `ambiguous: ${result.options.map(format).join(' | ')}`;
+}
+
+const day = (date: Date) => toIsoDate(date, timeZone);
+const days = (range: DateRange) => `${day(range.start)}..${day(range.end)}`;
+const clock = (range: TimeRange) => `${range.start}-${range.end}`;
+
+describe('parseDate', () => {
+  const cases: Array<[string, string]> = [
+    ['today', '2025-03-12'],
+    ['tomorrow', '2025-03-13'],
+    ['day after tomorrow', '2025-03-14'],
+    ['yesterday', '2025-03-11'],
+    ['friday', '2025-03-14'],
+    ['this friday', '2025-03-14'],
+    ['coming monday', '2025-03-17'],
+    ['wednesday', '2025-03-19'],
+    ['next monday', '2025-03-17'],
+    ['next wednesday', '2025-03-19'],
+    ['next friday', 'ambiguous: 2025-03-21 | 2025-03-14'],
+    ['last friday', '2025-03-07'],
+    ['in 3 days', '2025-03-15'],
+    ['in 2 weeks', '2025-03-26'],
+    ['in a month', '2025-04-12'],
+    ['2 days from now', '2025-03-14'],
+    ['next week', '2025-03-19'],
+    ['weekend', '2025-03-15'],
+    ['month end', '2025-03-31'],
+    ['end of the month', '2025-03-31'],
+    ['next month', '2025-04-12'],
+    ['christmas', '2025-12-25'],
+    ['new year', '2026-01-01'],
+    ['25-03-2025', '2025-03-25'],
+    ['25/03', '2025-03-25'],
+    ['01-03', '2026-03-01'],
+    ['2025-04-01', '2025-04-01'],
+    ['31-02-2025', 'none'],
+    ['2 feb', '2026-02-02'],
+    ['2nd february 2027', '2027-02-02'],
+    ['feb 2nd', '2026-02-02'],
+    ['second feb', '2026-02-02'],
+    ['twenty-first of march', '2025-03-21'],
+    ['march 20, 2026', '2026-03-20'],
+    ['the 15th', '2025-03-15'],
+    ['the 5th', '2025-04-05'],
+    ['second friday of next month', '2025-04-11'],
+    ['last monday of the month', '2025-03-31'],
+    ['first tuesday in june', '2025-06-03'],
+    ['fifth friday of next month', 'none'],
+    ['31 feb', 'none'],
+    ['lunch with 2 marketing folks', 'none'],
+    ['in 2 hours', '2025-03-12'],
+    ['in 20 hours', '2025-03-13'],
+    ['schedule a meeting with John tomorrow at 3pm', '2025-03-13'],
+    ['whenever suits you', 'none']
+  ];
+
+  for (const [input, expected] of cases) {
+    test(input, () => assert.equal(show(parseDate(input, options), day), expected));
+  }
+
+  test('does not read the system clock', () => {
+    const later = { now: zonedTimeToUtc(2030, 1, 1, 9, 0, timeZone), timeZone };
+    assert.equal(show(parseDate('tomorrow', later), day), '2030-01-02');
+  });
+});
+
+describe('parseTime', () => {
+  const cases: Array<[string, string]> = [
+    ['3pm', '15:00'],
+    ['3:30 pm', '15:30'],
+    ['3 p.m.', '15:00'],
+    ['12am', '00:00'],
+    ['12pm', '12:00'],
+    ['15:30', '15:30'],
+    ['15.30', '15:30'],
+    ['9:30', '09:30'],
+    ['09', '09:00'],
+    ['at 15', '15:00'],
+    ['1530 hrs', '15:30'],
+    ['noon', '12:00'],
+    ['midnight', '00:00'],
+    ['EOD', '17:00'],
+    ['close of business', '17:00'],
+    ['morning', '09:00'],
+    ['at 4', 'ambiguous: 16:00 | 04:00'],
+    ['at 9', 'ambiguous: 09:00 | 21:00'],
+    ['9', 'ambiguous: 09:00 | 21:00'],
+    ["3 o'clock", 'ambiguous: 15:00 | 03:00'],
+    ['I am free at 4', 'ambiguous: 16:00 | 04:00'],
+    ['at 4 in the afternoon', '16:00'],
+    ['tomorrow morning at 9', '09:00'],
+    ['at 8 tonight', '20:00'],
+    ['13pm', 'none'],
+    ['25:00', 'none'],
+    ['2 hrs', 'none'],
+    ['for 30 minutes', 'none'],
+    ['Q3 review', 'none']
+  ];
+
+  for (const [input, expected] of cases) {
+    test(input, () => assert.equal(show(parseTime(input), time => time), expected));
+  }
+});
+
+describe('parseTimeRange', () => {
+  const cases: Array<[string, string]> = [
+    ['2-3:30pm', '14:00-15:30'],
+    ['2–3:30pm', '14:00-15:30'],
+    ['11-1pm', '11:00-13:00'],
+    ['10am-12', '10:00-12:00'],
+    ['from 2 to 4pm', '14:00-16:00'],
+    ['14:00-15:30', '14:00-15:30'],
+    ['9:00-10:00', '09:00-10:00'],
+    ['2-3 in the afternoon', '14:00-15:00'],
+    ['between 2 and 4', 'ambiguous: 14:00-16:00 | 02:00-04:00'],
+    ['9-10', 'ambiguous: 09:00-10:00 | 21:00-22:00'],
+    ['11-12', '11:00-12:00'],
+    ['3pm-2pm', 'none'],
+    ['2 to 3 people', 'none'],
+    ['3-4-2026', 'none']
+  ];
+
+  for (const [input, expected] of cases) {
+    test(input, () => assert.equal(show(parseTimeRange(input), clock), expected));
+  }
+});
+
+describe('parseDateRange', () => {
+  const cases: Array<[string, string]> = [
+    ['tomorrow', '2025-03-13..2025-03-13'],
+    ['this week', '2025-03-12..2025-03-16'],
+    ['next week', '2025-03-17..2025-03-23'],
+    ['this weekend', '2025-03-15..2025-03-16'],
+    ['next 3 days', '2025-03-12..2025-03-14'],
+    ['mon to wed', '2025-03-17..2025-03-19'],
+    ['Friday-Monday', '2025-03-14..2025-03-17'],
+    ['from 3 nov to 7 nov', '2025-11-03..2025-11-07'],
+    ['between tomorrow and friday', '2025-03-13..2025-03-14'],
+    ['next friday', 'ambiguous: 2025-03-21..2025-03-21 | 2025-03-14..2025-03-14'],
+    ['sometime soon', 'none']
+  ];
+
+  for (const [input, expected] of cases) {
+    test(input, () => assert.equal(show(parseDateRange(input, options), days), expected));
+  }
+});
+
+describe('parseRelativeDateTime', () => {
+  const cases: Array<[string, string | null]> = [
+    ['in 2 hours', '12:00'],
+    ['in an hour', '11:00'],
+    ['in half an hour', '10:30'],
+    ['in 45 mins', '10:45'],
+    ['90 minutes from now', '11:30'],
+    ['in 3 days', null]
+  ];
+
+  for (const [input, expected] of cases) {
+    test(input, () => {
+      const result = parseRelativeDateTime(input, options);
+      assert.equal(result && toWallClockTime(result, timeZone), expected);
+    });
+  }
+});
+
+describe('parseMonth', () => {
+  const cases: Array<[string, number | null]> = [
+    ['January', 1],
+    ['sept', 9],
+    ['Dec.', 12],
+    ['ma', null],
+    ['monday', null]
+  ];
+
+  for (const [input, expected] of cases) {
+    test(input, () => assert.equal(parseMonth(input), expected));
+  }
+});
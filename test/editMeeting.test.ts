@@ -0,0 +1,138 @@
+import './harness/environment';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { calendarFile } from './harness/environment';
+import { createFakeContext, RecordedReply } from './harness/fakeContext';
+import { handleMessage } from '../src/handlers/messageHandler';
+import type { ProviderEvent } from '../src/services/calendarProvider';
+import { updateMeeting } from '../src/services/calendarService';
+import { setIntentExtractor } from '../src/services/intentService';
+import { RuleBasedIntentExtractor } from '../src/services/extractors/ruleBasedIntentExtractor';
+import { updateUserPreferences } from '../src/services/userPreferences';
+import { setClock } from '../src/utils/clock';
+
+const userId = 6600;
+
+function stored(id: string): ProviderEvent {
+  return JSON.parse(fs.readFileSync(calendarFile(userId), 'utf8')).events.find((event: ProviderEvent) => event.id === id);
+}
+
+async function say(text: string): Promise<string> {
+  const replies: RecordedReply[] = [];
+  await handleMessage(createFakeContext({ userId, text }, replies));
+  return replies.map(reply => reply.text).join('\n');
+}
+
+describe('meeting edit wizard', () => {
+  const log = console.log;
+  before(async () => {
+    console.log = () => undefined;
+    setClock(() => new Date('2025-03-12T10:00:00+05:30'));
+    setIntentExtractor(new RuleBasedIntentExtractor());
+    await updateUserPreferences(userId, { timeZone: 'Asia/Kolkata' });
+  });
+  beforeEach(() => {
+    fs.mkdirSync(path.dirname(calendarFile(userId)), { recursive: true });
+    fs.writeFileSync(calendarFile(userId), JSON.stringify({
+      events: [{
+        id: 'review',
+        status: 'confirmed',
+        summary: 'Design review',
+        description: 'Bring the mockups',
+        location: 'Room 4',
+        start: { dateTime: '2025-03-13T11:00:00+05:30' },
+        end: { dateTime: '2025-03-13T12:00:00+05:30' },
+        attendees: [{ email: 'bob@example.com' }]
+      }, {
+        id: 'lunch',
+        status: 'confirmed',
+        summary: 'Lunch',
+        start: { dateTime: '2025-03-13T13:00:00+05:30' },
+        end: { dateTime: '2025-03-13T14:00:00+05:30' }
+      }]
+    }));
+  });
+  after(() => {
+    console.log = log;
+    setClock(null);
+    setIntentExtractor(null);
+  });
+
+  test('collects several changes and shows them before and after', async () => {
+    assert.match(await say('edit my design review tomorrow'), /Editing: Design review[^]*What would you like to change/);
+    assert.match(await say('title'), /The title is "Design review"/);
+    assert.match(await say('Design sync'), /Here's what will change:\n\n📌 Title: Design review → Design sync\n/);
+
+    assert.match(await say('more'), /What would you like to change/);
+    await say('attendees');
+    const summary = await say('add carol@example.com');
+    assert.match(summary, /📌 Title: Design review → Design sync\n👥 Attendees: bob@example\.com → bob@example\.com, carol@example\.com/);
+    assert.doesNotMatch(summary, /Description|Date|Duration/);
+
+    assert.match(await say('yes'), /Meeting updated successfully/);
+    const event = stored('review');
+    assert.equal(event.summary, 'Design sync');
+    assert.equal(event.description, 'Bring the mockups');
+    assert.deepEqual(event.attendees!.map(attendee => attendee.email), ['bob@example.com', 'carol@example.com']);
+  });
+
+  test('warns when the new time clashes and offers free slots instead', async () => {
+    await say('edit my design review tomorrow');
+    await say('duration');
+    const summary = await say('3 hours');
+    assert.match(summary, /⏱️ Duration: 60 minutes → 180 minutes/);
+    assert.match(summary, /Lunch/);
+    assert.match(summary, /slot number to use it instead/);
+
+    assert.match(await say('cancel'), /leave the meeting as it is/);
+    assert.equal(stored('review').end!.dateTime, '2025-03-13T12:00:00+05:30');
+  });
+
+  test('notices when nothing would change', async () => {
+    await say('edit my design review tomorrow');
+    await say('time');
+    assert.match(await say('11am'), /same as before[^]*What would you like to change/);
+    await say('cancel');
+  });
+
+  test('reads the new time straight from a move request', async () => {
+    const summary = await say('move my design review tomorrow to 4pm');
+    assert.match(summary, /⏰ Time: 11:00 AM → 04:00 PM/);
+    await say('yes');
+    assert.equal(new Date(stored('review').start!.dateTime!).toISOString(), '2025-03-13T10:30:00.000Z');
+  });
+
+  test('clears a description when asked to', async () => {
+    await say('edit my design review tomorrow');
+    assert.match(await say('description'), /Type 'none' to remove it/);
+    assert.match(await say('none'), /Description: Bring the mockups → \(none\)/);
+    await say('yes');
+    assert.equal(stored('review').description, '');
+    assert.equal(stored('review').summary, 'Design review');
+  });
+
+  test('changes and clears the location', async () => {
+    await say('edit my design review tomorrow');
+    assert.match(await say('location'), /It's at Room 4/);
+    assert.match(await say('Board room'), /📍 Location: Room 4 → Board room/);
+    await say('yes');
+    assert.equal(stored('review').location, 'Board room');
+
+    await say('edit my design review tomorrow');
+    await say('where');
+    assert.match(await say('none'), /Location: Board room → \(none\)/);
+    await say('yes');
+    assert.equal(stored('review').location, '');
+    assert.equal(stored('review').description, 'Bring the mockups');
+  });
+
+  test('keeps the fields an update leaves out and clears empty ones', async () => {
+    assert.equal(await updateMeeting(userId, 'review', { location: '' }), true);
+    const event = stored('review');
+    assert.equal(event.location, '');
+    assert.equal(event.description, 'Bring the mockups');
+    assert.equal(event.summary, 'Design review');
+  });
+});
@@ -0,0 +1,153 @@
+import './harness/environment';
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ListEventsOptions, ProviderEvent, SyncOptions, SyncResult } from '../src/services/calendarProvider';
+import { SyncTokenExpiredError } from '../src/services/calendarProvider';
+import { CachedCalendarProvider } from '../src/services/providers/cachedCalendarProvider';
+import { setClock } from '../src/utils/clock';
+
+// Backend that records its calls and replays changes after a token like Google's sync does
+class FakeSyncBackend {
+  calls: string[] = [];
+  expireTokens = false;
+  timeZone: string | null = null;
+  private changes: ProviderEvent[] = [];
+
+  constructor(events: ProviderEvent[]) {
+    this.changes = events;
+  }
+
+  change(event: ProviderEvent): void {
+    this.changes.push(event);
+  }
+
+  async syncEvents(options: SyncOptions): Promise<SyncResult> {
+    this.calls.push(options.syncToken ? `sync ${options.syncToken}` : `full sync until ${options.timeMax?.toISOString().slice(0, 10)}`);
+    if (options.syncToken && this.expireTokens) {
+      this.expireTokens = false;
+      throw new SyncTokenExpiredError();
+    }
+    const since = options.syncToken ? parseInt(options.syncToken) : 0;
+    const latest = new Map(this.changes.map(event => [event.id, event]));
+    const events = options.syncToken
+      ? this.changes.slice(since)
+      : Array.from(latest.values())
+        .filter(event => event.status !== 'cancelled' && new Date(event.start!.dateTime || event.start!.date!) < options.timeMax!);
+    return { events, nextSyncToken: `${this.changes.length}` };
+  }
+
+  async listEvents(options: ListEventsOptions): Promise<ProviderEvent[]> {
+    this.calls.push(`list from ${options.timeMin.toISOString().slice(0, 10)}`);
+    return [];
+  }
+
+  async getEvent(): Promise<ProviderEvent | null> { return null; }
+  async createEvent(event: ProviderEvent): Promise<ProviderEvent> { this.change(event); return event; }
+  async patchEvent(_eventId: string, patch: ProviderEvent): Promise<ProviderEvent> { return patch; }
+  async deleteEvent(eventId: string): Promise<void> { this.change({ id: eventId, status: 'cancelled' }); }
+  async freeBusy() { return {}; }
+  async getTimeZone() { return this.timeZone; }
+}
+
+const event = (id: string, start: string, minutes: number = 30): ProviderEvent => ({
+  id,
+  summary: id,
+  status: 'confirmed',
+  start: { dateTime: start },
+  end: { dateTime: new Date(new Date(start).getTime() + minutes * 60000).toISOString() }
+});
+
+const march = { timeMin: new Date('2025-03-12T00:00:00Z'), timeMax: new Date('2025-03-20T00:00:00Z') };
+const ids = (events: ProviderEvent[]) => events.map(item => item.id);
+
+describe('cached calendar provider', () => {
+  let backend: FakeSyncBackend;
+  let cache: CachedCalendarProvider;
+  let nextKey = 1;
+
+  beforeEach(() => {
+    setClock(() => new Date('2025-03-12T10:00:00Z'));
+    backend = new FakeSyncBackend([
+      event('friday', '2025-03-14T09:00:00Z'),
+      event('thursday', '2025-03-13T09:00:00Z'),
+      event('april', '2025-04-02T09:00:00Z')
+    ]);
+    cache = new CachedCalendarProvider(`${3000 + nextKey++}:primary`, backend);
+  });
+
+  test('serves listings from one full sync', async () => {
+    assert.deepEqual(ids(await cache.listEvents(march)), ['thursday', 'friday']);
+    assert.deepEqual(ids(await cache.listEvents({ ...march, timeMax: new Date('2025-04-30T00:00:00Z') })),
+      ['thursday', 'friday', 'april']);
+    assert.deepEqual(backend.calls, ['full sync until 2026-03-12']);
+  });
+
+  test('picks up its own writes with an incremental sync', async () => {
+    await cache.listEvents(march);
+    await cache.createEvent(event('wednesday', '2025-03-12T15:00:00Z'));
+    await cache.deleteEvent('friday');
+
+    assert.deepEqual(ids(await cache.listEvents(march)), ['wednesday', 'thursday']);
+    assert.deepEqual(backend.calls, ['full sync until 2026-03-12', 'sync 3']);
+  });
+
+  test('resyncs when the token has expired', async () => {
+    await cache.listEvents(march);
+    await cache.createEvent(event('wednesday', '2025-03-12T15:00:00Z'));
+    backend.expireTokens = true;
+
+    assert.deepEqual(ids(await cache.listEvents(march)), ['wednesday', 'thursday', 'friday']);
+    assert.deepEqual(backend.calls, ['full sync until 2026-03-12', 'sync 3', 'full sync until 2026-03-12']);
+  });
+
+  test('syncs again once its copy is a minute old', async () => {
+    await cache.listEvents(march);
+    await cache.listEvents(march);
+    setClock(() => new Date('2025-03-12T10:02:00Z'));
+    await cache.listEvents(march);
+    assert.deepEqual(backend.calls, ['full sync until 2026-03-12', 'sync 3']);
+  });
+
+  test('places all-day events in the calendar zone', async () => {
+    backend.timeZone = 'Asia/Kolkata';
+    backend.change({ id: 'holiday', status: 'confirmed', start: { date: '2025-03-13' }, end: { date: '2025-03-14' } });
+    // The day runs from 18:30 UTC on the 12th to 18:30 UTC on the 13th
+    const lateOn12th = { timeMin: new Date('2025-03-12T19:00:00Z'), timeMax: new Date('2025-03-12T20:00:00Z') };
+    const lateOn13th = { timeMin: new Date('2025-03-13T19:00:00Z'), timeMax: new Date('2025-03-13T20:00:00Z') };
+    assert.deepEqual(ids(await cache.listEvents(lateOn12th)), ['holiday']);
+    assert.deepEqual(ids(await cache.listEvents(lateOn13th)), []);
+  });
+
+  test('asks the backend for ranges older than the cache', async () => {
+    await cache.listEvents({ timeMin: new Date('2025-01-01T00:00:00Z'), timeMax: march.timeMax });
+    assert.deepEqual(backend.calls, ['full sync until 2026-03-12', 'list from 2025-01-01']);
+  });
+
+  test('asks the backend for ranges past the synced horizon', async () => {
+    backend.change(event('next-year', '2026-06-01T09:00:00Z'));
+    const later = { timeMin: new Date('2026-05-01T00:00:00Z'), timeMax: new Date('2026-07-01T00:00:00Z') };
+    await cache.listEvents(later);
+    assert.deepEqual(backend.calls, ['full sync until 2026-03-12', 'list from 2026-05-01']);
+  });
+
+  test('syncs afresh once half of the horizon has passed', async () => {
+    await cache.listEvents(march);
+    setClock(() => new Date('2025-09-20T10:00:00Z'));
+    await cache.listEvents({ timeMin: new Date('2025-09-20T00:00:00Z'), timeMax: new Date('2025-09-30T00:00:00Z') });
+    assert.deepEqual(backend.calls, ['full sync until 2026-03-12', 'full sync until 2026-09-20']);
+  });
+
+  test('keeps its copy out of the shared state file', async () => {
+    await cache.listEvents(march);
+    const state = fs.existsSync(process.env.STATE_STORE_PATH!) ? fs.readFileSync(process.env.STATE_STORE_PATH!, 'utf8') : '';
+    assert.doesNotMatch(state, /eventCache/);
+    assert.ok(fs.readdirSync(path.join(process.env.EVENT_CACHE_PATH!, 'eventCache')).length > 0);
+  });
+
+  test('shares one sync between concurrent reads', async () => {
+    await Promise.all([cache.listEvents(march), cache.listEvents(march), cache.listEvents(march)]);
+    assert.deepEqual(backend.calls, ['full sync until 2026-03-12']);
+  });
+});
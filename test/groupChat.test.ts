@@ -0,0 +1,176 @@
+import './harness/environment';
+import { after, afterEach, before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { calendarFile } from './harness/environment';
+import { BOT_USERNAME, createFakeContext, RecordedReply } from './harness/fakeContext';
+import { handleCallbackQuery, handleMessage } from '../src/handlers/messageHandler';
+import type { ProviderEvent } from '../src/services/calendarProvider';
+import { LocalCalendarProvider } from '../src/services/providers/localCalendarProvider';
+import { setIntentExtractor } from '../src/services/intentService';
+import { RuleBasedIntentExtractor } from '../src/services/extractors/ruleBasedIntentExtractor';
+import { updateUserPreferences } from '../src/services/userPreferences';
+import { setClock } from '../src/utils/clock';
+
+const chat = { id: -100, type: 'group' as const, title: 'Launch crew' };
+const members = [
+  { userId: 3000, firstName: 'Asha' },
+  { userId: 3001, firstName: 'Ben' },
+  { userId: 3002, firstName: 'Chen' }
+];
+const [asha, ben, chen] = members;
+
+function busy(userId: number, start: string, end: string): void {
+  const events: ProviderEvent[] = [{
+    id: `busy-${userId}`,
+    status: 'confirmed',
+    summary: 'Busy',
+    start: { dateTime: start },
+    end: { dateTime: end }
+  }];
+  fs.mkdirSync(path.dirname(calendarFile(userId)), { recursive: true });
+  fs.writeFileSync(calendarFile(userId), JSON.stringify({ events }));
+}
+
+function readEvents(userId: number): ProviderEvent[] {
+  return JSON.parse(fs.readFileSync(calendarFile(userId), 'utf8')).events;
+}
+
+async function say(member: typeof asha, text: string, inGroup: boolean = true): Promise<RecordedReply[]> {
+  const replies: RecordedReply[] = [];
+  await handleMessage(createFakeContext({ ...member, text, chat: inGroup ? chat : undefined }, replies));
+  return replies;
+}
+
+async function tap(member: typeof asha, data: string, messageId?: number): Promise<RecordedReply[]> {
+  const replies: RecordedReply[] = [];
+  await handleCallbackQuery(createFakeContext({ ...member, callbackData: data, messageId, chat }, replies));
+  return replies;
+}
+
+describe('group chats', () => {
+  const log = console.log;
+  before(async () => {
+    console.log = () => undefined;
+    setClock(() => new Date('2025-03-12T10:00:00+05:30'));
+    setIntentExtractor(new RuleBasedIntentExtractor());
+    for (const member of members) {
+      await updateUserPreferences(member.userId, { timeZone: 'Asia/Kolkata' });
+    }
+    busy(asha.userId, '2025-03-13T14:00:00+05:30', '2025-03-13T15:00:00+05:30');
+    busy(ben.userId, '2025-03-13T09:00:00+05:30', '2025-03-13T12:00:00+05:30');
+    busy(chen.userId, '2025-03-13T16:00:00+05:30', '2025-03-13T18:00:00+05:30');
+  });
+  afterEach(() => mock.restoreAll());
+  after(() => {
+    console.log = log;
+    setClock(null);
+    setIntentExtractor(null);
+  });
+
+  test('ignores messages that are not meant for the bot', async () => {
+    assert.deepEqual(await say(ben, 'find us 30 minutes tomorrow'), []);
+  });
+
+  test('asks for other members before looking for a time', async () => {
+    const [reply] = await say(asha, `@${BOT_USERNAME} find us 30 minutes tomorrow`);
+    assert.match(reply.text, /don't know anyone else here/);
+  });
+
+  test('proposes a time everyone is free and books it once all confirm', async () => {
+    await say(ben, `hi @${BOT_USERNAME}`);
+    await say(chen, `@${BOT_USERNAME} hello`);
+
+    const [proposal] = await say(asha, `@${BOT_USERNAME} find us 30 minutes tomorrow`);
+    assert.match(proposal.text, /How about Thu.*13.*01:30 PM–02:00 PM/);
+    assert.match(proposal.text, /Asha ✅, Ben ⏳, Chen ⏳/);
+    const [accept, decline] = proposal.buttons.map(button => button.data);
+
+    // Only the people listed can answer
+    assert.deepEqual(await tap({ userId: 3009, firstName: 'Dev' }, accept), []);
+
+    const [moved] = await tap(ben, decline);
+    assert.equal(moved.edited, true);
+    assert.match(moved.text, /Ben can't make it/);
+    assert.match(moved.text, /01:00 PM–01:30 PM/);
+    assert.match(moved.text, /Asha ✅, Ben ⏳, Chen ⏳/);
+
+    const [waiting] = await tap(ben, accept);
+    assert.match(waiting.text, /Asha ✅, Ben ✅, Chen ⏳/);
+
+    const [booked] = await tap(chen, accept);
+    assert.match(booked.text, /Everyone's in! "Launch crew meeting" is booked/);
+    assert.deepEqual(booked.buttons, []);
+    for (const member of members) {
+      const event = readEvents(member.userId).find(candidate => candidate.summary === 'Launch crew meeting');
+      assert.equal(new Date(event!.start!.dateTime!).toISOString(), '2025-03-13T07:30:00.000Z');
+    }
+
+    const [expired] = await tap(chen, accept);
+    assert.equal(expired, undefined);
+  });
+
+  test('counts answers that arrive at the same moment', async () => {
+    const [proposal] = await say(asha, `@${BOT_USERNAME} find us 30 minutes tomorrow`);
+    const [accept] = proposal.buttons.map(button => button.data);
+
+    const answers = await Promise.all([tap(ben, accept), tap(chen, accept)]);
+    assert.equal(answers.filter(([reply]) => /Everyone's in!/.test(reply.text)).length, 1);
+    for (const member of members) {
+      const booked = readEvents(member.userId).filter(event => event.summary === 'Launch crew meeting');
+      assert.equal(booked.length, 2);
+    }
+  });
+
+  test('keeps the proposal until the meeting is on every calendar', async () => {
+    mock.method(console, 'error', () => undefined);
+    const createEvent = mock.method(LocalCalendarProvider.prototype, 'createEvent');
+    // Asha's and Ben's calendars take it, Chen's doesn't
+    createEvent.mock.mockImplementationOnce(async () => {
+      throw new Error('Calendar unavailable');
+    }, 2);
+
+    const [proposal] = await say(asha, `@${BOT_USERNAME} find us 30 minutes tomorrow`);
+    const [accept] = proposal.buttons.map(button => button.data);
+    await tap(ben, accept);
+    const [partly] = await tap(chen, accept);
+    assert.match(partly.text, /couldn't add it to Chen's calendar\. Tap below to try again/);
+    assert.deepEqual(partly.buttons.map(button => button.label), ['🔁 Try again']);
+    const countBooked = (userId: number) =>
+      readEvents(userId).filter(event => event.summary === 'Launch crew meeting').length;
+    assert.deepEqual(members.map(member => countBooked(member.userId)), [3, 3, 2]);
+
+    const [retried] = await tap(chen, partly.buttons[0].data);
+    assert.match(retried.text, /It's on all your calendars/);
+    assert.deepEqual(retried.buttons, []);
+    assert.deepEqual(members.map(member => countBooked(member.userId)), [3, 3, 3]);
+    const [expired] = await tap(chen, accept);
+    assert.equal(expired, undefined);
+  });
+
+  test('keeps a wizard started in the group out of the private chat', async () => {
+    const [question] = await say(asha, `@${BOT_USERNAME} schedule a meeting tomorrow`);
+    assert.match(question.text, /time/i);
+
+    const [privateReply] = await say(asha, 'hi', false);
+    assert.doesNotMatch(privateReply.text, /time/i);
+
+    const [answer] = await say(asha, `@${BOT_USERNAME} 4pm`);
+    assert.doesNotMatch(answer.text, /what time/i);
+  });
+
+  test("doesn't let another member answer someone's wizard", async () => {
+    const [question] = await say(chen, `@${BOT_USERNAME} schedule a meeting tomorrow`);
+    await say(ben, `@${BOT_USERNAME} schedule a meeting tomorrow`);
+    const fourPm = question.buttons.find(button => button.label === '16:00')!.data;
+
+    // Ben has a wizard of his own, but these buttons are Chen's
+    assert.deepEqual(await tap(ben, fourPm, question.messageId), []);
+
+    const [answer] = await tap(chen, fourPm, question.messageId);
+    assert.match(answer.text, /attendee/);
+    const [benQuestion] = await say(ben, `@${BOT_USERNAME} 5pm`);
+    assert.match(benQuestion.text, /attendee/);
+  });
+});
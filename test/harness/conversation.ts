@@ -0,0 +1,151 @@
+import './environment';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { calendarFile } from './environment';
+import { createFakeContext, RecordedReply } from './fakeContext';
+import { FakeChatModel } from './fakeLlm';
+import { handleCallbackQuery, handleMessage } from '../../src/handlers/messageHandler';
+import { COMMANDS } from '../../src/handlers/commandHandler';
+import type { ProviderEvent } from '../../src/services/calendarProvider';
+import type { IntentResult } from '../../src/services/intentExtractor';
+import { setChatModel } from '../../src/services/chatModel';
+import { setIntentExtractor } from '../../src/services/intentService';
+import { OpenAIIntentExtractor } from '../../src/services/extractors/openAIIntentExtractor';
+import { updateUserPreferences } from '../../src/services/userPreferences';
+import { setClock } from '../../src/utils/clock';
+
+// One turn: the user either sends text (a slash command included) or taps a button of the latest keyboard.
+// `expect` patterns must each match one of the bot's replies to the turn, `reject` none of them.
+export interface TranscriptStep {
+  user?: string;
+  tap?: string;
+  // Scripted model answers for this turn; intents default to the rule-based reading
+  intent?: IntentResult;
+  chat?: string;
+  expect?: string[];
+  reject?: string[];
+}
+
+export interface ExpectedEvent {
+  summary?: string;
+  start?: string;
+  attendees?: string[];
+}
+
+export interface Transcript {
+  name: string;
+  // ISO instant the bot's clock is frozen at
+  now: string;
+  timeZone: string;
+  calendar?: ProviderEvent[];
+  // The user's other calendars by id, e.g. { "team": [...] } for a calendar named Team
+  otherCalendars?: Record<string, ProviderEvent[]>;
+  steps: TranscriptStep[];
+  // The events left on the calendar afterwards, compared as a whole
+  calendarAfter?: ExpectedEvent[];
+  otherCalendarsAfter?: Record<string, ExpectedEvent[]>;
+}
+
+// Replies that mean a handler crashed fail every transcript
+const ALWAYS_REJECT = ['encountered an error', 'Something went wrong'];
+
+let nextUserId = 1000;
+
+export function loadTranscripts(directory: string): Transcript[] {
+  return fs.readdirSync(directory)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8')));
+}
+
+export async function runTranscript(transcript: Transcript): Promise<void> {
+  const userId = nextUserId++;
+  const now = new Date(transcript.now);
+  const model = new FakeChatModel(() => ({ now, timeZone: transcript.timeZone }));
+
+  setClock(() => new Date(now));
+  setChatModel(model);
+  setIntentExtractor(new OpenAIIntentExtractor(model));
+  await updateUserPreferences(userId, { timeZone: transcript.timeZone });
+  seedCalendar(userId, transcript.calendar || []);
+  for (const [calendarId, events] of Object.entries(transcript.otherCalendars || {})) {
+    seedCalendar(userId, events, calendarId);
+  }
+
+  try {
+    let keyboard: RecordedReply['buttons'] = [];
+    for (const [index, step] of transcript.steps.entries()) {
+      const label = `step ${index + 1} (${step.user ?? `tap ${step.tap}`})`;
+      const replies: RecordedReply[] = [];
+      model.nextIntent = step.intent || null;
+      model.nextChat = step.chat || null;
+
+      if (step.tap !== undefined) {
+        const pattern = new RegExp(step.tap, 'i');
+        const button = keyboard.find(candidate => pattern.test(candidate.label));
+        assert.ok(button, `${label}: no button matching /${step.tap}/ in [${keyboard.map(b => b.label).join(', ')}]`);
+        await handleCallbackQuery(createFakeContext({ userId, callbackData: button.data }, replies));
+      } else if (step.user?.startsWith('/')) {
+        const name = step.user.slice(1).split(/\s/)[0];
+        const command = COMMANDS.find(candidate => candidate.command === name);
+        assert.ok(command, `${label}: unknown command /${name}`);
+        await command.handle(createFakeContext({ userId, text: step.user }, replies));
+      } else {
+        await handleMessage(createFakeContext({ userId, text: step.user ?? '' }, replies));
+      }
+
+      checkReplies(label, replies, step);
+      const lastKeyboard = [...replies].reverse().find(reply => reply.buttons.length);
+      if (lastKeyboard) keyboard = lastKeyboard.buttons;
+    }
+
+    if (transcript.calendarAfter) {
+      checkCalendar(userId, transcript.calendarAfter);
+    }
+    for (const [calendarId, expected] of Object.entries(transcript.otherCalendarsAfter || {})) {
+      checkCalendar(userId, expected, calendarId);
+    }
+  } finally {
+    setClock(null);
+    setChatModel(null);
+    setIntentExtractor(null);
+  }
+}
+
+function checkReplies(label: string, replies: RecordedReply[], step: TranscriptStep): void {
+  const transcript = replies.map(reply => reply.text).join('\n---\n');
+  for (const pattern of step.expect || []) {
+    assert.ok(replies.some(reply => new RegExp(pattern, 'i').test(reply.text)),
+      `${label}: expected a reply matching /${pattern}/, got:\n${transcript}`);
+  }
+  for (const pattern of [...ALWAYS_REJECT, ...(step.reject || [])]) {
+    assert.ok(!replies.some(reply => new RegExp(pattern, 'i').test(reply.text)),
+      `${label}: unexpected reply matching /${pattern}/:\n${transcript}`);
+  }
+}
+
+function seedCalendar(userId: number, events: ProviderEvent[], calendarId?: string): void {
+  const file = calendarFile(userId, calendarId);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const prefix = calendarId ? `${calendarId}-` : 'seed-';
+  const seeded = events.map((event, index) => ({ id: `${prefix}${index + 1}`, status: 'confirmed', ...event }));
+  fs.writeFileSync(file, JSON.stringify({ events: seeded }, null, 2));
+}
+
+function checkCalendar(userId: number, expected: ExpectedEvent[], calendarId?: string): void {
+  const name = calendarId ? `calendar ${calendarId}` : 'calendar';
+  const events: ProviderEvent[] = JSON.parse(fs.readFileSync(calendarFile(userId, calendarId), 'utf8')).events
+    .filter((event: ProviderEvent) => event.status !== 'cancelled');
+  const describe = (event: ProviderEvent) => `${event.summary} @ ${event.start?.dateTime || event.start?.date}`;
+
+  assert.equal(events.length, expected.length,
+    `${name}: expected ${expected.length} events, found [${events.map(describe).join(', ')}]`);
+  for (const want of expected) {
+    const match = events.find(event =>
+      (!want.summary || new RegExp(want.summary, 'i').test(event.summary || '')) &&
+      (!want.start || new Date(event.start?.dateTime || event.start?.date || '').getTime() === new Date(want.start).getTime()) &&
+      (want.attendees || []).every(email => event.attendees?.some(attendee => attendee.email === email)));
+    assert.ok(match, `${name}: no event like ${JSON.stringify(want)} in [${events.map(describe).join(', ')}]`);
+  }
+}
@@ -0,0 +1,21 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Imported before any bot module: state, tokens and calendars go to a throwaway directory and
+// the file-backed calendar stands in for Google
+export const TEST_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'remo-test-'));
+
+process.env.STATE_STORE = 'json';
+process.env.STATE_STORE_PATH = path.join(TEST_DATA_DIR, 'state.json');
+process.env.EVENT_CACHE_PATH = path.join(TEST_DATA_DIR, 'event-cache');
+process.env.TOKEN_VAULT_PATH = path.join(TEST_DATA_DIR, 'tokens.vault');
+process.env.TOKEN_MASTER_KEY = process.env.TOKEN_MASTER_KEY || 'test-master-key';
+process.env.CALENDAR_PROVIDER = 'local';
+process.env.LOCAL_CALENDAR_DIR = path.join(TEST_DATA_DIR, 'calendars');
+process.env.LOCAL_CALENDAR_FORMAT = 'json';
+
+// The user's primary calendar, or another of their calendars by id
+export function calendarFile(userId: number, calendarId?: string): string {
+  return path.join(process.env.LOCAL_CALENDAR_DIR!, calendarId ? `${userId}.${calendarId}.json` : `${userId}.json`);
+}
@@ -0,0 +1,69 @@
+import type { BotContext } from '../../src/types';
+
+export interface RecordedReply {
+  text: string;
+  // Inline keyboard buttons, flattened in reading order
+  buttons: Array<{ label: string; data: string }>;
+  // Set when the bot changed the message a button was tapped on instead of sending a new one
+  edited?: boolean;
+  // Id of a newly sent message, for taps on its buttons
+  messageId?: number;
+}
+
+interface FakeUpdate {
+  userId: number;
+  text?: string;
+  callbackData?: string;
+  firstName?: string;
+  // The message whose button was tapped
+  messageId?: number;
+  // Group chats; private chats share the user's id
+  chat?: { id: number; type: 'group' | 'supergroup'; title: string };
+}
+
+export const BOT_USERNAME = 'remo_bot';
+
+// Unique across contexts, like Telegram's ids within a chat
+let nextMessageId = 1;
+
+function recordReply(replies: RecordedReply[], text: string, extra?: any, edited?: boolean): void {
+  const keyboard: any[][] = extra?.reply_markup?.inline_keyboard || [];
+  replies.push({
+    text,
+    buttons: keyboard.flat().map(button => ({ label: button.text, data: button.callback_data })),
+    ...(edited ? { edited } : {})
+  });
+}
+
+// Just enough of a Telegraf context for the handlers: replies are recorded instead of sent
+export function createFakeContext(update: FakeUpdate, replies: RecordedReply[]): BotContext {
+  const ctx = {
+    from: { id: update.userId, is_bot: false, first_name: update.firstName || 'Test' },
+    chat: update.chat || { id: update.userId, type: 'private' },
+    botInfo: { id: 1, is_bot: true, first_name: 'Remo', username: BOT_USERNAME },
+    message: update.text !== undefined ? { message_id: 1, date: 0, text: update.text } : undefined,
+    callbackQuery: update.callbackData !== undefined
+      ? { id: '1', data: update.callbackData, ...(update.messageId ? { message: { message_id: update.messageId } } : {}) }
+      : undefined,
+    reply: async (text: string, extra?: any) => {
+      recordReply(replies, text, extra);
+      const messageId = nextMessageId++;
+      replies[replies.length - 1].messageId = messageId;
+      return { message_id: messageId };
+    },
+    editMessageText: async (text: string, extra?: any) => {
+      recordReply(replies, text, extra, true);
+      return true;
+    },
+    // Edits of a message other than the one tapped, e.g. a poll booked from a notification
+    telegram: {
+      editMessageText: async (_chatId: number, _messageId: number, _inline: undefined, text: string, extra?: any) => {
+        recordReply(replies, text, extra, true);
+        return true;
+      }
+    },
+    answerCbQuery: async () => true,
+    editMessageReplyMarkup: async () => true
+  };
+  return ctx as unknown as BotContext;
+}
@@ -0,0 +1,49 @@
+import type { ChatModel } from '../../src/services/chatModel';
+import type { ExtractionContext, IntentResult } from '../../src/services/intentExtractor';
+import { RuleBasedIntentExtractor } from '../../src/services/extractors/ruleBasedIntentExtractor';
+
+const rules = new RuleBasedIntentExtractor();
+
+// Stands in for OpenAI. Intent extraction answers with a scripted result when the transcript
+// gives one and otherwise with what the rule-based extractor finds, so the real function-calling
+// path is exercised. Chat answers come from the script or a fixed placeholder.
+export class FakeChatModel implements ChatModel {
+  nextIntent: IntentResult | null = null;
+  nextChat: string | null = null;
+  requests: any[] = [];
+
+  constructor(private context: () => ExtractionContext) {}
+
+  async createChatCompletion(request: any): Promise<any> {
+    this.requests.push(request);
+    const userMessage = [...request.messages].reverse().find((message: any) => message.role === 'user')?.content || '';
+
+    if (request.functions?.length) {
+      const { intent, slots } = this.nextIntent || await rules.extract(userMessage, this.context());
+      this.nextIntent = null;
+      const args = {
+        intent,
+        date: slots.date,
+        time: slots.time,
+        duration_minutes: slots.duration,
+        attendees: slots.attendees,
+        title: slots.title,
+        location: slots.location,
+        video_call: slots.conference,
+        calendar: slots.calendar,
+        all_day: slots.allDay,
+        end_date: slots.endDate,
+        description: slots.description
+      };
+      return respond({ role: 'assistant', content: null, function_call: { name: request.functions[0].name, arguments: JSON.stringify(args) } });
+    }
+
+    const content = this.nextChat || 'This is a chat reply.';
+    this.nextChat = null;
+    return respond({ role: 'assistant', content });
+  }
+}
+
+function respond(message: unknown) {
+  return { data: { choices: [{ index: 0, message, finish_reason: 'stop' }] } };
+}
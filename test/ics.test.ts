@@ -0,0 +1,38 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseIcs, serializeIcs } from '../src/services/providers/ics';
+
+function calendar(...lines: string[]): string {
+  return ['BEGIN:VCALENDAR', 'BEGIN:VEVENT', 'UID:standup', ...lines, 'END:VEVENT', 'END:VCALENDAR'].join('\r\n');
+}
+
+describe('iCalendar files', () => {
+  test('reads times in the zone named by TZID', () => {
+    const [event] = parseIcs(calendar(
+      'DTSTART;TZID=America/New_York:20250313T090000',
+      'DTEND;TZID="America/New_York":20250313T093000'
+    ));
+    assert.deepEqual(event.start, { dateTime: '2025-03-13T13:00:00.000Z', timeZone: 'America/New_York' });
+    assert.deepEqual(event.end, { dateTime: '2025-03-13T13:30:00.000Z', timeZone: 'America/New_York' });
+  });
+
+  test('keeps UTC, all-day and floating times as written', () => {
+    const [utc] = parseIcs(calendar('DTSTART:20250313T090000Z'));
+    assert.deepEqual(utc.start, { dateTime: '2025-03-13T09:00:00Z' });
+    const [allDay] = parseIcs(calendar('DTSTART;VALUE=DATE:20250313'));
+    assert.deepEqual(allDay.start, { date: '2025-03-13' });
+    const [unknown] = parseIcs(calendar('DTSTART;TZID=Eastern Standard Time:20250313T090000'));
+    assert.deepEqual(unknown.start, { dateTime: '2025-03-13T09:00:00', timeZone: 'Eastern Standard Time' });
+  });
+
+  test('reads back what it writes', () => {
+    const [event] = parseIcs(serializeIcs(parseIcs(calendar(
+      'SUMMARY:Standup\\, daily',
+      'DTSTART;TZID=Europe/Berlin:20250313T090000',
+      'DTEND;TZID=Europe/Berlin:20250313T091500'
+    ))));
+    assert.equal(event.summary, 'Standup, daily');
+    assert.deepEqual(event.start, { dateTime: '2025-03-13T08:00:00.000Z', timeZone: 'Europe/Berlin' });
+    assert.deepEqual(event.end, { dateTime: '2025-03-13T08:15:00.000Z', timeZone: 'Europe/Berlin' });
+  });
+});
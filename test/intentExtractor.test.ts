@@ -0,0 +1,107 @@
+import './harness/environment';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ChatModel } from '../src/services/chatModel';
+import type { Intent } from '../src/services/intentExtractor';
+import { extractIntent, setIntentExtractor } from '../src/services/intentService';
+import { OpenAIIntentExtractor } from '../src/services/extractors/openAIIntentExtractor';
+import { RuleBasedIntentExtractor } from '../src/services/extractors/ruleBasedIntentExtractor';
+
+const context = { now: new Date('2025-03-12T10:00:00+05:30'), timeZone: 'Asia/Kolkata' };
+
+// Answers every request with the given function arguments, or fails like an unreachable API
+function modelAnswering(args: object | Error): ChatModel & { requests: any[] } {
+  const requests: any[] = [];
+  return {
+    requests,
+    async createChatCompletion(request: any) {
+      requests.push(request);
+      if (args instanceof Error) throw args;
+      const call = { name: request.functions[0].name, arguments: JSON.stringify(args) };
+      return { data: { choices: [{ message: { role: 'assistant', content: null, function_call: call } }] } };
+    }
+  } as unknown as ChatModel & { requests: any[] };
+}
+
+describe('rule-based intent extractor', () => {
+  const rules = new RuleBasedIntentExtractor();
+  const cases: Array<[string, Intent]> = [
+    ['schedule a meeting with bob tomorrow at 3pm', 'create'],
+    ['block friday off', 'create'],
+    ['what do i have on my calendar today', 'list'],
+    ['show my meetings this week', 'list'],
+    ['move my 3pm to 4pm', 'reschedule'],
+    ['rename the design review', 'update'],
+    ['cancel my meeting tomorrow', 'cancel'],
+    ["I can't move today", 'chat'],
+    ['I have a meeting with Bob', 'chat'],
+    ['call mom', 'chat']
+  ];
+  for (const [message, intent] of cases) {
+    test(`reads "${message}" as ${intent}`, async () => {
+      assert.equal((await rules.extract(message, context)).intent, intent);
+    });
+  }
+
+  test('pulls out the meeting details', async () => {
+    const { slots } = await rules.extract('schedule a meeting with alice@example.com tomorrow at 3pm for 45 minutes called Roadmap', context);
+    assert.equal(slots.date, '2025-03-13');
+    assert.equal(slots.time, '15:00');
+    assert.equal(slots.duration, 45);
+    assert.deepEqual(slots.attendees, ['alice@example.com']);
+    assert.equal(slots.title, 'Roadmap');
+  });
+});
+
+describe('OpenAI intent extractor', () => {
+  const log = console.error;
+  before(() => { console.error = () => undefined; });
+  after(() => {
+    console.error = log;
+    setIntentExtractor(null);
+  });
+
+  test('asks for a function call with the current time and keeps only valid values', async () => {
+    const model = modelAnswering({
+      intent: 'create',
+      date: 'next friday',
+      time: '25:00',
+      duration_minutes: -5,
+      attendees: ['  bob ', ''],
+      title: ' Roadmap ',
+      video_call: 'yes'
+    });
+    const result = await new OpenAIIntentExtractor(model).extract('set up a roadmap call with bob', context);
+
+    assert.deepEqual(result, {
+      intent: 'create',
+      slots: {
+        date: undefined,
+        time: undefined,
+        duration: undefined,
+        attendees: ['bob'],
+        title: 'Roadmap',
+        location: undefined,
+        conference: undefined,
+        calendar: undefined,
+        allDay: undefined,
+        endDate: undefined,
+        description: undefined
+      }
+    });
+    const [request] = model.requests;
+    assert.equal(request.function_call.name, 'extract_meeting_intent');
+    assert.match(request.messages[0].content, /Wednesday, March 12, 2025 10:00 AM \(Asia\/Kolkata\)/);
+  });
+
+  test('rejects intents it does not know', async () => {
+    await assert.rejects(new OpenAIIntentExtractor(modelAnswering({ intent: 'dance' })).extract('hi', context), /Unknown intent/);
+  });
+
+  test('falls back to the rules when the model fails', async () => {
+    setIntentExtractor(new OpenAIIntentExtractor(modelAnswering(new Error('ENOTFOUND'))));
+    const result = await extractIntent('cancel my meeting tomorrow', context);
+    assert.equal(result.intent, 'cancel');
+    assert.equal(result.slots.date, '2025-03-13');
+  });
+});
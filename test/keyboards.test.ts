@@ -0,0 +1,84 @@
+import './harness/environment';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  calendarKeyboard,
+  calendarRef,
+  choiceKeyboard,
+  durationKeyboard,
+  meetingActionKeyboard,
+  parseCallbackData,
+  timeSlotKeyboard
+} from '../src/handlers/keyboards';
+import { setClock } from '../src/utils/clock';
+
+type Keyboard = ReturnType<typeof choiceKeyboard>;
+const rows = (keyboard: Keyboard) =>
+  keyboard.reply_markup.inline_keyboard.map(row => row.map(button => 'callback_data' in button ? button.callback_data : ''));
+const labels = (keyboard: Keyboard) => keyboard.reply_markup.inline_keyboard.map(row => row.map(button => button.text));
+
+describe('callback data', () => {
+  test('reads every kind of button', () => {
+    assert.deepEqual(parseCallbackData('in:14:30'), { type: 'input', input: '14:30' });
+    assert.deepEqual(parseCallbackData('cal:2025-4'), { type: 'month', year: 2025, month: 4 });
+    assert.deepEqual(parseCallbackData('mtg:r:abc_20250325T043000Z'), {
+      type: 'meeting', action: 'reschedule', meetingId: 'abc_20250325T043000Z', calendarRef: undefined
+    });
+    assert.deepEqual(parseCallbackData('mtg:c:abc:0af3b2c1'), { type: 'meeting', action: 'cancel', meetingId: 'abc', calendarRef: '0af3b2c1' });
+    assert.deepEqual(parseCallbackData('grp:n:p1'), { type: 'proposal', accepted: false, proposalId: 'p1' });
+    assert.deepEqual(parseCallbackData('poll:v:0af3:2'), { type: 'poll', action: 'vote', pollId: '0af3', option: 2 });
+    assert.deepEqual(parseCallbackData('poll:b:0af3'), { type: 'poll', action: 'book', pollId: '0af3' });
+  });
+
+  test('ignores buttons it does not know', () => {
+    for (const data of ['noop', 'cal:2025-april', 'mtg:x:abc', 'poll:v:zz:1', '']) {
+      assert.deepEqual(parseCallbackData(data), { type: 'noop' });
+    }
+  });
+
+  test('names the calendar of a meeting by a short hash', () => {
+    const calendarId = 'c_0123456789abcdef0123456789abcdef@group.calendar.google.com';
+    const [[primary], [team]] = [undefined, calendarId].map(id => rows(meetingActionKeyboard('abc', id))[0]);
+    assert.equal(primary, 'mtg:r:abc');
+    assert.equal(team, `mtg:r:abc:${calendarRef(calendarId)}`);
+    assert.equal(rows(meetingActionKeyboard('abc', 'primary'))[0][0], 'mtg:r:abc');
+  });
+
+  test('stays within the 64 bytes Telegram allows', () => {
+    const eventId = `${'a'.repeat(26)}_20250325T043000Z`;
+    const meeting = rows(meetingActionKeyboard(eventId, 'c_0123456789abcdef@group.calendar.google.com'))[0][1];
+    for (const data of [meeting, 'in:cancel', 'cal:2025-12']) {
+      assert.ok(Buffer.byteLength(data) <= 64, data);
+    }
+  });
+});
+
+describe('keyboards', () => {
+  before(() => setClock(() => new Date('2025-03-12T10:00:00+05:30')));
+  after(() => setClock(null));
+
+  test('numbers choices and answers with the number', () => {
+    assert.deepEqual(labels(choiceKeyboard(['Standup', 'Review'])), [['1. Standup'], ['2. Review'], ['❌ Cancel']]);
+    assert.deepEqual(rows(choiceKeyboard(['Standup', 'Review'])), [['in:1'], ['in:2'], ['in:cancel']]);
+  });
+
+  test('offers durations and half-hour times', () => {
+    assert.deepEqual(labels(durationKeyboard())[1], ['1 h', '90 min', '2 h']);
+    assert.deepEqual(rows(timeSlotKeyboard(9, 11)), [['in:09:00', 'in:09:30', 'in:10:00', 'in:10:30'], ['in:cancel']]);
+  });
+
+  test('lays out a month from Monday and blanks the days already gone', () => {
+    const keyboard = calendarKeyboard(2025, 3, 'Asia/Kolkata');
+    const [header, weekdays, firstWeek, , thirdWeek] = labels(keyboard);
+    assert.equal(header[2], '›');
+    assert.equal(rows(keyboard)[0][0], 'noop');
+    assert.deepEqual(weekdays, ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su']);
+    // 1 March 2025 is a Saturday
+    assert.deepEqual(firstWeek, [' ', ' ', ' ', ' ', ' ', '·', '·']);
+    assert.deepEqual(thirdWeek, ['·', '·', '12', '13', '14', '15', '16']);
+    assert.equal(rows(keyboard)[4][2], 'in:12-3-2025');
+
+    // Later months can go back a month
+    assert.equal(rows(calendarKeyboard(2025, 4, 'Asia/Kolkata'))[0][0], 'cal:2025-3');
+  });
+});
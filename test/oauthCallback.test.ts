@@ -0,0 +1,101 @@
+import './harness/environment';
+import { after, afterEach, before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import type { AddressInfo } from 'net';
+import { OAuth2Client } from 'google-auth-library';
+import { onAuthorizationComplete, startAuthProcess, userTokens } from '../src/services/authService';
+import { startHttpServer, stopHttpServer } from '../src/services/httpServer';
+import { getEventCacheStore } from '../src/services/stateStore';
+
+const userId = 5000;
+
+describe('OAuth callback', () => {
+  const log = console.log;
+  let baseUrl = '';
+  const results: Array<{ userId: number; success: boolean; reason?: string }> = [];
+
+  before(async () => {
+    console.log = () => undefined;
+    const server = await startHttpServer(0);
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    onAuthorizationComplete((user, _chatId, result) => {
+      results.push({ userId: user, ...result });
+    });
+  });
+  afterEach(() => mock.restoreAll());
+  after(() => {
+    console.log = log;
+    stopHttpServer();
+  });
+
+  // The parameters Google would send back to the redirect URI
+  async function authorize(user: number = userId): Promise<{ state: string; challenge: string }> {
+    const url = new URL(await startAuthProcess(user));
+    return { state: url.searchParams.get('state')!, challenge: url.searchParams.get('code_challenge')! };
+  }
+
+  function callback(state: string, code: string = 'auth-code'): Promise<Response> {
+    return fetch(`${baseUrl}/oauth2callback?state=${encodeURIComponent(state)}&code=${code}`);
+  }
+
+  test('exchanges the code with the verifier behind the challenge', async () => {
+    const getToken = mock.method(OAuth2Client.prototype, 'getToken', async () => ({ tokens: { refresh_token: 'refresh' } }));
+    const { state, challenge } = await authorize();
+
+    const response = await callback(state);
+    assert.equal(response.status, 200);
+    const { code, codeVerifier } = (getToken.mock.calls[0].arguments as any)[0];
+    assert.equal(code, 'auth-code');
+    assert.equal(createHash('sha256').update(codeVerifier).digest('base64url'), challenge);
+    assert.deepEqual(userTokens.get(userId.toString()), { refresh_token: 'refresh' });
+    assert.deepEqual(results[results.length - 1], { userId, success: true, reason: undefined });
+
+    // A link works once
+    assert.equal((await callback(state)).status, 410);
+  });
+
+  test('rejects a state that was tampered with', async () => {
+    const getToken = mock.method(OAuth2Client.prototype, 'getToken', async () => ({ tokens: {} }));
+    const { state } = await authorize(userId + 1);
+    const [payload, signature] = state.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), u: 1 }))
+      .toString('base64url');
+
+    assert.equal((await callback(`${forged}.${signature}`)).status, 400);
+    assert.equal((await callback(`${payload}.${signature.slice(0, -2)}xx`)).status, 400);
+    assert.equal((await callback(payload)).status, 400);
+    assert.equal(getToken.mock.callCount(), 0);
+  });
+
+  test('rejects a link once it has expired', async () => {
+    const getToken = mock.method(OAuth2Client.prototype, 'getToken', async () => ({ tokens: {} }));
+    const { state } = await authorize(userId + 2);
+    const now = Date.now();
+    mock.method(Date, 'now', () => now + 11 * 60 * 1000);
+
+    assert.equal((await callback(state)).status, 410);
+    assert.equal(getToken.mock.callCount(), 0);
+  });
+
+  test('keeps only the latest link for a user', async () => {
+    mock.method(OAuth2Client.prototype, 'getToken', async () => ({ tokens: {} }));
+    const first = await authorize(userId + 3);
+    const second = await authorize(userId + 3);
+
+    assert.equal((await callback(first.state)).status, 410);
+    assert.equal((await callback(second.state)).status, 200);
+  });
+
+  test('drops the cached calendars of an account that is linked again', async () => {
+    mock.method(OAuth2Client.prototype, 'getToken', async () => ({ tokens: { refresh_token: 'other-account' } }));
+    const store = getEventCacheStore();
+    await store.set('eventCache', `${userId + 4}:primary`, { events: [] });
+    await store.set('eventCache', `${userId + 5}:primary`, { events: [] });
+
+    assert.equal((await callback((await authorize(userId + 4)).state)).status, 200);
+    const keys = await store.keys('eventCache');
+    assert.ok(!keys.includes(`${userId + 4}:primary`));
+    assert.ok(keys.includes(`${userId + 5}:primary`));
+  });
+});
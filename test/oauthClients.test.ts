@@ -0,0 +1,68 @@
+import './harness/environment';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ReauthorizationRequiredError,
+  getUserOAuthClient,
+  logoutUser,
+  rethrowIfReauthorizationRequired,
+  userTokens
+} from '../src/services/authService';
+import { TokenVault, getVaultSecrets } from '../src/services/tokenVault';
+
+const [alice, bob] = [6000, 6001];
+const storedTokens = () => new TokenVault(process.env.TOKEN_VAULT_PATH!, getVaultSecrets()).load();
+
+describe('per-user OAuth clients', () => {
+  const log = console.log;
+  before(() => {
+    console.log = () => undefined;
+    userTokens.set(alice.toString(), { access_token: 'alice-access', refresh_token: 'alice-refresh' });
+    userTokens.set(bob.toString(), { access_token: 'bob-access', refresh_token: 'bob-refresh' });
+  });
+  after(() => {
+    console.log = log;
+  });
+
+  test('gives every user a client of their own', () => {
+    const aliceClient = getUserOAuthClient(alice)!;
+    const bobClient = getUserOAuthClient(bob)!;
+    assert.notEqual(aliceClient, bobClient);
+    assert.equal(getUserOAuthClient(alice), aliceClient);
+    assert.equal(aliceClient.credentials.access_token, 'alice-access');
+    assert.equal(bobClient.credentials.access_token, 'bob-access');
+    assert.equal(getUserOAuthClient(6999), null);
+  });
+
+  test('keeps the refresh token when Google sends only a new access token', () => {
+    getUserOAuthClient(alice)!.emit('tokens', { access_token: 'alice-access-2' });
+
+    const expected = { access_token: 'alice-access-2', refresh_token: 'alice-refresh' };
+    assert.deepEqual(userTokens.get(alice.toString()), expected);
+    assert.deepEqual(storedTokens().get(alice.toString()), expected);
+    assert.equal(userTokens.get(bob.toString()).access_token, 'bob-access');
+  });
+
+  test('drops the credentials of a revoked grant and asks for a new link', () => {
+    const revoked = { response: { data: { error: 'invalid_grant' } } };
+    assert.throws(() => rethrowIfReauthorizationRequired(bob, revoked), ReauthorizationRequiredError);
+    assert.equal(userTokens.has(bob.toString()), false);
+    assert.equal(storedTokens().has(bob.toString()), false);
+    assert.equal(getUserOAuthClient(bob), null);
+
+    // Other failures are left to the caller
+    assert.doesNotThrow(() => rethrowIfReauthorizationRequired(alice, new Error('timeout')));
+    assert.ok(userTokens.has(alice.toString()));
+  });
+
+  test('starts a fresh client after logging out', () => {
+    const previous = getUserOAuthClient(alice);
+    assert.equal(logoutUser(alice), true);
+    assert.equal(logoutUser(alice), false);
+
+    userTokens.set(alice.toString(), { access_token: 'alice-access-3' });
+    const current = getUserOAuthClient(alice)!;
+    assert.notEqual(current, previous);
+    assert.equal(current.credentials.access_token, 'alice-access-3');
+  });
+});
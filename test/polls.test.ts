@@ -0,0 +1,108 @@
+import './harness/environment';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import { buildPollVoteNotification } from '../src/handlers/notifications';
+import { startHttpServer, stopHttpServer } from '../src/services/httpServer';
+import { MeetingPoll, PollVoter, createPoll, getPoll, onPollVote, tallyVotes, toggleVote } from '../src/services/pollService';
+import { updateUserPreferences } from '../src/services/userPreferences';
+
+const organizerId = 4000;
+
+describe('meeting polls', () => {
+  const log = console.log;
+  let baseUrl = '';
+  const votes: Array<{ poll: MeetingPoll; voter: PollVoter }> = [];
+
+  before(async () => {
+    console.log = () => undefined;
+    await updateUserPreferences(organizerId, { timeZone: 'Asia/Kolkata' });
+    const server = await startHttpServer(0);
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    onPollVote((poll, voter) => {
+      votes.push({ poll, voter });
+    });
+  });
+  after(() => {
+    console.log = log;
+    stopHttpServer();
+  });
+
+  function newPoll(): Promise<MeetingPoll> {
+    return createPoll(organizerId, organizerId, {
+      title: 'Review <draft>',
+      durationMinutes: 45,
+      attendees: ['alice@example.com'],
+      options: [new Date('2025-03-18T15:00:00+05:30'), new Date('2025-03-13T10:00:00+05:30')]
+    });
+  }
+
+  function vote(poll: MeetingPoll, form: string, cookie?: string): Promise<Response> {
+    return fetch(`${baseUrl}/poll?id=${poll.id}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...(cookie ? { Cookie: cookie } : {}) },
+      body: form
+    });
+  }
+
+  test('shows the candidate times on the voting page', async () => {
+    const poll = await newPoll();
+    const page = await (await fetch(`${baseUrl}/poll?id=${poll.id}`)).text();
+    assert.match(page, /Review &lt;draft&gt;/);
+    assert.match(page, /Thu[^]*13[^]*10:00 AM[^]*Tue[^]*18[^]*03:00 PM/);
+
+    const missing = await fetch(`${baseUrl}/poll?id=0000`);
+    assert.equal(missing.status, 404);
+  });
+
+  test('counts votes from the page and tells the organizer', async () => {
+    const poll = await newPoll();
+    const response = await vote(poll, 'name=Alice&option=1');
+    assert.equal(response.status, 200);
+    assert.match(await response.text(), /your vote was counted/);
+    const cookie = response.headers.get('set-cookie')!.split(';')[0];
+
+    // The same browser changes its vote rather than adding another
+    await vote(poll, 'name=Alice&option=0&option=1', cookie);
+    await vote(poll, 'name=Bob&option=0');
+    const votesFor = Object.values((await getPoll(poll.id))!.votes).map(entry => [entry.name, entry.options]);
+    assert.deepEqual(votesFor, [['Alice', [0, 1]], ['Bob', [0]]]);
+
+    const { poll: latest, voter } = votes[votes.length - 1];
+    const notification = await buildPollVoteNotification(latest, voter);
+    assert.match(notification.text, /Bob voted on "Review <draft>": Thu.*10:00 AM\./);
+    assert.match(notification.text, /Leading: Thu.*10:00 AM with 2 votes/);
+    assert.ok(notification.keyboard);
+  });
+
+  test('keeps every vote cast at the same moment', async () => {
+    const poll = await newPoll();
+    await Promise.all([
+      toggleVote(poll.id, { key: 'tg:1', name: 'Dana' }, 0),
+      toggleVote(poll.id, { key: 'tg:2', name: 'Eli' }, 1),
+      vote(poll, 'name=Fay&option=1')
+    ]);
+    assert.deepEqual(tallyVotes((await getPoll(poll.id))!), [1, 2]);
+  });
+
+  test('shows who voted for what and slows down a flood of votes', async () => {
+    const poll = await newPoll();
+    await vote(poll, 'name=Gus&option=0');
+    await vote(poll, 'name=Hana <3&option=0&option=1');
+    const page = await (await fetch(`${baseUrl}/poll?id=${poll.id}`)).text();
+    assert.match(page, /10:00 AM<\/label> <small>\(2 votes: Gus, Hana &lt;3\)/);
+    assert.match(page, /03:00 PM<\/label> <small>\(1 vote: Hana &lt;3\)/);
+
+    for (let index = 2; index < 20; index++) await vote(poll, `name=Voter ${index}&option=1`);
+    const refused = await vote(poll, 'name=Ivy&option=1');
+    assert.equal(refused.status, 429);
+    assert.equal(tallyVotes((await getPoll(poll.id))!)[1], 19);
+  });
+
+  test('asks for a name', async () => {
+    const poll = await newPoll();
+    const response = await vote(poll, 'option=0');
+    assert.equal(response.status, 400);
+    assert.deepEqual((await getPoll(poll.id))!.votes, {});
+  });
+});
@@ -0,0 +1,150 @@
+import './harness/environment';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { calendarFile } from './harness/environment';
+import { LocalCalendarProvider } from '../src/services/providers/localCalendarProvider';
+import { cancelMeeting, rescheduleMeeting } from '../src/services/calendarService';
+import { updateUserPreferences } from '../src/services/userPreferences';
+import {
+  RecurrenceRule,
+  applyRecurrenceLimit,
+  describeRecurrence,
+  expandRecurrence,
+  formatRRule,
+  parseRRule,
+  parseRecurrencePattern
+} from '../src/utils/recurrence';
+import { setClock } from '../src/utils/clock';
+
+const timeZone = 'Asia/Kolkata';
+const at = (date: string, time: string = '10:00') => new Date(`${date}T${time}:00+05:30`);
+const isoTimes = (dates: Date[]) => dates.map(date => date.toISOString());
+
+describe('recurrence patterns', () => {
+  const cases: Array<[string, RecurrenceRule | null]> = [
+    ['daily standup at 9', { freq: 'DAILY', interval: 1 }],
+    ['sync every weekday at 10', { freq: 'WEEKLY', interval: 1, byDay: ['MO', 'TU', 'WE', 'TH', 'FR'] }],
+    ['1:1 every tuesday and thursday', { freq: 'WEEKLY', interval: 1, byDay: ['TU', 'TH'] }],
+    ['review every other friday', { freq: 'WEEKLY', interval: 2, byDay: ['FR'] }],
+    ['planning every 3 weeks', { freq: 'WEEKLY', interval: 3 }],
+    ['retro monthly', { freq: 'MONTHLY', interval: 1 }],
+    ['lunch on friday', null]
+  ];
+  for (const [message, expected] of cases) {
+    test(`reads "${message}"`, () => {
+      assert.deepEqual(parseRecurrencePattern(message), expected);
+    });
+  }
+
+  test('round-trips RRULE lines', () => {
+    const rule: RecurrenceRule = { freq: 'WEEKLY', interval: 2, byDay: ['MO', 'WE'], count: undefined, until: new Date('2025-04-30T18:29:59Z') };
+    assert.equal(formatRRule(rule), 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20250430T182959Z');
+    assert.deepEqual(parseRRule(formatRRule(rule)), rule);
+    // Google writes ordinal days like 1MO; only the day is kept
+    assert.deepEqual(parseRRule('RRULE:FREQ=MONTHLY;BYDAY=1MO;COUNT=3')!.byDay, ['MO']);
+    assert.equal(parseRRule('RRULE:FREQ=YEARLY'), null);
+  });
+
+  test('describes rules in words', () => {
+    assert.equal(describeRecurrence({ freq: 'WEEKLY', interval: 1, byDay: ['MO', 'TU', 'WE', 'TH', 'FR'] }, timeZone), 'every weekday');
+    assert.equal(describeRecurrence({ freq: 'WEEKLY', interval: 2, byDay: ['FR'], count: 4 }, timeZone), 'every other week on Friday, 4 times');
+  });
+});
+
+describe('recurrence limits', () => {
+  const weekly: RecurrenceRule = { freq: 'WEEKLY', interval: 1, byDay: ['TU'] };
+  const start = at('2025-03-18');
+
+  test('counts occurrences', () => {
+    assert.deepEqual(applyRecurrenceLimit(weekly, 'every tuesday, 10 times', start, timeZone), { ...weekly, count: 10, until: undefined });
+  });
+
+  test('ends a span on its last day in the user zone', () => {
+    const limited = applyRecurrenceLimit(weekly, 'every tuesday for 6 weeks', start, timeZone);
+    assert.equal(limited.until!.toISOString(), '2025-04-28T18:29:59.999Z');
+    assert.equal(expandRecurrence(limited, start, timeZone, start, at('2025-12-31')).length, 6);
+  });
+
+  test('stops at a named date', () => {
+    const parseDate = (text: string) => text === 'april 1' ? at('2025-04-01', '00:00') : null;
+    const limited = applyRecurrenceLimit(weekly, 'every tuesday until april 1', start, timeZone, parseDate);
+    assert.deepEqual(isoTimes(expandRecurrence(limited, start, timeZone, start, at('2025-12-31'))),
+      isoTimes([at('2025-03-18'), at('2025-03-25'), at('2025-04-01')]));
+    assert.deepEqual(applyRecurrenceLimit(weekly, 'every tuesday until whenever', start, timeZone, parseDate), weekly);
+  });
+
+  test('keeps the wall-clock time, skips excluded dates and honours intervals', () => {
+    // Fortnightly at 9:00 in New York from 3 March, across the switch to daylight saving time on 9 March
+    const first = new Date('2025-03-03T14:00:00Z');
+    const skipped = new Date('2025-03-17T13:00:00Z');
+    const occurrences = expandRecurrence({ freq: 'WEEKLY', interval: 2, count: 3 }, first, 'America/New_York', first, new Date('2025-12-31'), [skipped]);
+    assert.deepEqual(isoTimes(occurrences), ['2025-03-03T14:00:00.000Z', '2025-03-31T13:00:00.000Z']);
+  });
+});
+
+describe('recurring meeting scopes', () => {
+  const log = console.log;
+  const userId = 6400;
+  const calendar = () => new LocalCalendarProvider(calendarFile(userId));
+  const upcoming = async () => (await calendar().listEvents({ timeMin: at('2025-03-01'), timeMax: at('2025-06-01') }))
+    .map(event => new Date(event.start!.dateTime!).toISOString());
+  const instance = (date: string) => `standup_${at(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`;
+
+  before(async () => {
+    console.log = () => undefined;
+    setClock(() => at('2025-03-12'));
+    await updateUserPreferences(userId, { timeZone });
+  });
+  beforeEach(() => {
+    fs.mkdirSync(path.dirname(calendarFile(userId)), { recursive: true });
+    fs.writeFileSync(calendarFile(userId), JSON.stringify({
+      events: [{
+        id: 'standup',
+        status: 'confirmed',
+        summary: 'Standup',
+        start: { dateTime: at('2025-03-18').toISOString(), timeZone },
+        end: { dateTime: at('2025-03-18', '10:30').toISOString(), timeZone },
+        recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=TU;COUNT=4']
+      }]
+    }));
+  });
+  after(() => {
+    console.log = log;
+    setClock(null);
+  });
+
+  test('cancels one occurrence', async () => {
+    assert.equal(await cancelMeeting(userId, instance('2025-03-25'), 'single'), true);
+    assert.deepEqual(await upcoming(), isoTimes([at('2025-03-18'), at('2025-04-01'), at('2025-04-08')]));
+  });
+
+  test('cancels an occurrence and the ones after it', async () => {
+    assert.equal(await cancelMeeting(userId, instance('2025-04-01'), 'following', 'Moving to Thursdays'), true);
+    assert.deepEqual(await upcoming(), isoTimes([at('2025-03-18'), at('2025-03-25')]));
+    assert.equal((await calendar().getEvent('standup'))!.description, 'Cancellation note: Moving to Thursdays');
+  });
+
+  test('cancels the whole series', async () => {
+    assert.equal(await cancelMeeting(userId, instance('2025-04-01'), 'all'), true);
+    assert.deepEqual(await upcoming(), []);
+  });
+
+  test('moves the whole series to another day', async () => {
+    assert.equal(await rescheduleMeeting(userId, instance('2025-03-25'), at('2025-03-26', '11:00'), 'all'), true);
+    assert.deepEqual(await upcoming(),
+      isoTimes([at('2025-03-19', '11:00'), at('2025-03-26', '11:00'), at('2025-04-02', '11:00'), at('2025-04-09', '11:00')]));
+  });
+
+  test('splits the series when moving an occurrence and the ones after it', async () => {
+    assert.equal(await rescheduleMeeting(userId, instance('2025-04-01'), at('2025-04-03', '09:00'), 'following'), true);
+    assert.deepEqual(await upcoming(),
+      isoTimes([at('2025-03-18'), at('2025-03-25'), at('2025-04-03', '09:00'), at('2025-04-10', '09:00')]));
+  });
+
+  test('moves a single occurrence without touching the rest', async () => {
+    assert.equal(await rescheduleMeeting(userId, instance('2025-03-25'), at('2025-03-27'), 'single'), true);
+    assert.deepEqual(await upcoming(), isoTimes([at('2025-03-18'), at('2025-03-27'), at('2025-04-01'), at('2025-04-08')]));
+  });
+});
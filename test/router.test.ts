@@ -0,0 +1,114 @@
+import './harness/environment';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakeContext } from './harness/fakeContext';
+import { MessageRouter, Route, hasInterruptCue } from '../src/handlers/router';
+import type { Intent, IntentResult } from '../src/services/intentExtractor';
+
+// The intent is the first route name the message mentions; the log records what ran
+function buildRouter(log: string[], freeText: boolean = false) {
+  let wizardOpen = false;
+  const classified: string[] = [];
+  const router = new MessageRouter(async message => {
+    classified.push(message.text);
+    const intent = (['create', 'list', 'cancel'] as Intent[]).find(name => message.text.includes(name));
+    return { intent: intent || 'chat', slots: {} };
+  });
+
+  const routeFor = (intent: Intent, priority: number, extra: Partial<Route> = {}): Route => ({
+    name: intent,
+    priority,
+    matches: async request => (await request.intent()).intent === intent,
+    handle: async request => { log.push(`${intent}: ${request.text}`); },
+    ...extra
+  });
+
+  router
+    .register(routeFor('chat', 0))
+    .register(routeFor('list', 10, { duringWizard: 'interrupt' }))
+    .register(routeFor('cancel', 20, {
+      duringWizard: 'take-over',
+      handle: async request => {
+        wizardOpen = false;
+        log.push(`cancel: ${request.text}`);
+      }
+    }))
+    .register({
+      name: 'create',
+      priority: 30,
+      matches: async request => wizardOpen || (await request.intent()).intent === 'create',
+      handle: async request => {
+        wizardOpen = true;
+        log.push(`create: ${request.text}`);
+      },
+      wizard: {
+        acceptsFreeText: async () => freeText,
+        resume: async () => { log.push('create: resumed'); }
+      }
+    });
+  return { router, classified };
+}
+
+const message = (text: string) => ({ ctx: createFakeContext({ userId: 1, text }, []), userId: 1, text });
+
+describe('message router', () => {
+  const consoleLog = console.log;
+  before(() => { console.log = () => undefined; });
+  after(() => { console.log = consoleLog; });
+
+  test('sends a message to the route for its intent', async () => {
+    const log: string[] = [];
+    const { router } = buildRouter(log);
+    await router.route(message('list today'));
+    await router.route(message('hello'));
+    assert.deepEqual(log, ['list: list today', 'chat: hello']);
+  });
+
+  test('lets a request cut into a wizard and then resumes it', async () => {
+    const log: string[] = [];
+    const { router } = buildRouter(log);
+    await router.route(message('create a meeting'));
+    await router.route(message('list tomorrow'));
+    await router.route(message('3pm'));
+    assert.deepEqual(log, ['create: create a meeting', 'list: list tomorrow', 'create: resumed', 'create: 3pm']);
+  });
+
+  test('leaves the conversation to a route that takes over', async () => {
+    const log: string[] = [];
+    const { router } = buildRouter(log);
+    await router.route(message('create a meeting'));
+    await router.route(message('cancel it'));
+    await router.route(message('list today'));
+    assert.deepEqual(log, ['create: create a meeting', 'cancel: cancel it', 'list: list today']);
+  });
+
+  test('keeps free-text answers in the wizard unless they open with a cue', async () => {
+    const log: string[] = [];
+    const { router } = buildRouter(log, true);
+    await router.route(message('create a meeting'));
+    await router.route(message('list the agenda items'));
+    await router.route(message('actually, list today'));
+    assert.deepEqual(log, [
+      'create: create a meeting',
+      'create: list the agenda items',
+      'list: actually, list today',
+      'create: resumed'
+    ]);
+  });
+
+  test('treats a known intent as explicit and skips classifying it', async () => {
+    const log: string[] = [];
+    const { router, classified } = buildRouter(log, true);
+    await router.route(message('create a meeting'));
+    const known: IntentResult = { intent: 'list', slots: {} };
+    await router.route(message('/today'), known);
+    assert.deepEqual(log, ['create: create a meeting', 'list: /today', 'create: resumed']);
+    assert.deepEqual(classified, ['create a meeting']);
+  });
+
+  test('recognises interrupt cues', () => {
+    assert.ok(hasInterruptCue('wait, what do I have on Friday?'));
+    assert.ok(hasInterruptCue('show my meetings first'));
+    assert.ok(!hasInterruptCue('waiting room 4'));
+  });
+});
@@ -0,0 +1,122 @@
+import './harness/environment';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { calendarFile } from './harness/environment';
+import { createFakeContext, RecordedReply } from './harness/fakeContext';
+import { handleCallbackQuery, handleMessage } from '../src/handlers/messageHandler';
+import { buildAttendeeResponseNotification } from '../src/handlers/notifications';
+import type { ProviderEvent } from '../src/services/calendarProvider';
+import { checkAttendeeResponses } from '../src/services/rsvpWatcher';
+import { updateUserPreferences } from '../src/services/userPreferences';
+import { setClock } from '../src/utils/clock';
+
+const userId = 2000;
+
+function writeCalendar(attendees: ProviderEvent['attendees'], calendarId?: string): void {
+  fs.mkdirSync(path.dirname(calendarFile(userId)), { recursive: true });
+  fs.writeFileSync(calendarFile(userId, calendarId), JSON.stringify({
+    events: [{
+      id: 'roadmap',
+      status: 'confirmed',
+      summary: 'Roadmap chat',
+      start: { dateTime: '2025-03-14T14:00:00+05:30' },
+      end: { dateTime: '2025-03-14T15:00:00+05:30' },
+      attendees
+    }]
+  }));
+}
+
+describe('attendee response watcher', () => {
+  const log = console.log;
+  before(async () => {
+    console.log = () => undefined;
+    setClock(() => new Date('2025-03-12T10:00:00+05:30'));
+    await updateUserPreferences(userId, { timeZone: 'Asia/Kolkata' });
+  });
+  after(() => {
+    console.log = log;
+    setClock(null);
+  });
+
+  test('reports declines and suggested times once', async () => {
+    writeCalendar([
+      { email: 'alice@example.com', responseStatus: 'needsAction' },
+      { email: 'bob@example.com', responseStatus: 'accepted' }
+    ]);
+    // The first pass only records what it sees
+    assert.deepEqual(await checkAttendeeResponses(userId), []);
+
+    writeCalendar([
+      { email: 'alice@example.com', responseStatus: 'declined' },
+      { email: 'bob@example.com', responseStatus: 'tentative', comment: 'Could we do 4pm instead?' }
+    ]);
+    const changes = await checkAttendeeResponses(userId);
+    assert.deepEqual(changes.map(change => [change.kind, change.attendee]), [
+      ['declined', 'alice@example.com'],
+      ['proposed', 'bob@example.com']
+    ]);
+
+    assert.deepEqual(await checkAttendeeResponses(userId), []);
+  });
+
+  test('ignores comments that do not suggest a time', async () => {
+    writeCalendar([{ email: 'carol@example.com', responseStatus: 'accepted' }]);
+    await checkAttendeeResponses(userId);
+    writeCalendar([{ email: 'carol@example.com', responseStatus: 'accepted', comment: 'Looking forward to it' }]);
+    assert.deepEqual(await checkAttendeeResponses(userId), []);
+  });
+
+  test('the notification buttons open the cancel and reschedule flows', async () => {
+    writeCalendar([{ email: 'alice@example.com', responseStatus: 'declined' }]);
+    const { text, keyboard } = await buildAttendeeResponseNotification(userId, {
+      kind: 'declined',
+      attendee: 'alice@example.com',
+      meeting: {
+        id: 'roadmap',
+        summary: 'Roadmap chat',
+        start: { dateTime: '2025-03-14T14:00:00+05:30' },
+        end: { dateTime: '2025-03-14T14:30:00+05:30' }
+      }
+    });
+    assert.match(text, /alice@example\.com declined "Roadmap chat"/);
+
+    const buttons = keyboard.reply_markup.inline_keyboard.flat() as Array<{ text: string; callback_data: string }>;
+    const tap = async (label: RegExp) => {
+      const replies: RecordedReply[] = [];
+      const button = buttons.find(candidate => label.test(candidate.text))!;
+      await handleCallbackQuery(createFakeContext({ userId, callbackData: button.callback_data }, replies));
+      return replies.map(reply => reply.text).join('\n');
+    };
+
+    assert.match(await tap(/Cancel meeting/), /cancel this meeting/);
+    assert.match(await tap(/Reschedule/), /Which day should it move to/);
+  });
+
+  test('watches the calendars merged into listings too', async () => {
+    const team = { id: 'team', name: 'Team' };
+    await updateUserPreferences(userId, { listedCalendars: [{ id: 'primary', name: 'Primary' }, team] });
+    writeCalendar([{ email: 'dan@example.com', responseStatus: 'accepted' }], team.id);
+    await checkAttendeeResponses(userId);
+    writeCalendar([{ email: 'dan@example.com', responseStatus: 'declined' }], team.id);
+
+    const [change] = await checkAttendeeResponses(userId);
+    assert.equal(change.attendee, 'dan@example.com');
+    assert.equal(change.meeting.calendarId, team.id);
+
+    // The button finds the meeting on the Team calendar, not the primary one
+    const { keyboard } = await buildAttendeeResponseNotification(userId, change);
+    const cancel = (keyboard.reply_markup.inline_keyboard.flat() as Array<{ text: string; callback_data: string }>)
+      .find(button => /Cancel meeting/.test(button.text))!;
+    fs.rmSync(calendarFile(userId));
+    const replies: RecordedReply[] = [];
+    await handleCallbackQuery(createFakeContext({ userId, callbackData: cancel.callback_data }, replies));
+    assert.match(replies[0].text, /Roadmap chat[^]*cancel this meeting/);
+
+    for (const answer of ['yes', 'skip']) {
+      await handleMessage(createFakeContext({ userId, text: answer }, []));
+    }
+    assert.deepEqual(JSON.parse(fs.readFileSync(calendarFile(userId, team.id), 'utf8')).events, []);
+  });
+});
@@ -0,0 +1,88 @@
+import './harness/environment';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { calendarFile } from './harness/environment';
+import type { ProviderEvent } from '../src/services/calendarProvider';
+import { findMeetingSlots } from '../src/services/availabilityService';
+import { updateUserPreferences } from '../src/services/userPreferences';
+import { setClock } from '../src/utils/clock';
+
+const [userId, memberId] = [6300, 6301];
+const timeZone = 'Asia/Kolkata';
+const at = (day: number, time: string) => new Date(`2025-03-${day}T${time}:00+05:30`);
+const starts = (slots: Array<{ start: Date }>) => slots.map(slot => slot.start.toISOString());
+
+function writeCalendar(owner: number, busy: Array<[Date, Date]>, calendarId?: string): void {
+  const events: ProviderEvent[] = busy.map(([start, end], index) => ({
+    id: `busy-${index}`,
+    status: 'confirmed',
+    summary: 'Busy',
+    start: { dateTime: start.toISOString() },
+    end: { dateTime: end.toISOString() }
+  }));
+  fs.mkdirSync(path.dirname(calendarFile(owner)), { recursive: true });
+  fs.writeFileSync(calendarFile(owner, calendarId), JSON.stringify({ events }));
+}
+
+describe('meeting slot finder', () => {
+  const log = console.log;
+  // Wednesday 12 March, 10:00 in Kolkata
+  const search = { attendees: ['alice@example.com'], durationMinutes: 60, rangeStart: at(12, '00:00'), rangeEnd: at(17, '23:59') };
+
+  before(async () => {
+    console.log = () => undefined;
+    setClock(() => at(12, '10:00'));
+    await updateUserPreferences(userId, { timeZone });
+    writeCalendar(userId, [[at(13, '09:00'), at(13, '12:00')]]);
+    writeCalendar(memberId, [[at(13, '13:00'), at(13, '16:00')]]);
+  });
+  after(() => {
+    console.log = log;
+    setClock(null);
+  });
+
+  test('spreads the best slots over the coming working days', async () => {
+    const slots = await findMeetingSlots(userId, { ...search, count: 6 });
+    assert.deepEqual(starts(slots), starts([
+      { start: at(12, '14:00') }, { start: at(12, '13:30') },
+      { start: at(13, '14:00') }, { start: at(13, '13:30') },
+      { start: at(14, '10:00') }, { start: at(14, '14:00') }
+    ]));
+    // Saturday and Sunday are outside the default working days
+    assert.ok(slots.every(slot => slot.start < at(15, '00:00')));
+    assert.ok(slots.every(slot => slot.end.getTime() - slot.start.getTime() === 60 * 60 * 1000));
+  });
+
+  test('respects working hours and the minimum notice', async () => {
+    await updateUserPreferences(userId, { workingHours: { start: 10, end: 12, days: [1, 2, 3, 4, 5] }, minNoticeMinutes: 120 });
+    try {
+      const slots = await findMeetingSlots(userId, { ...search, rangeEnd: at(13, '23:59') });
+      // 12 March 10:00 plus two hours of notice leaves nothing that day; the 13th is busy until noon
+      assert.deepEqual(slots, []);
+    } finally {
+      await updateUserPreferences(userId, { workingHours: undefined, minNoticeMinutes: undefined });
+    }
+  });
+
+  test('keeps clear of the busy times of other members', async () => {
+    const slots = await findMeetingSlots(userId, { ...search, rangeStart: at(13, '00:00'), rangeEnd: at(13, '23:59'), members: [memberId] });
+    assert.deepEqual(starts(slots), starts([{ start: at(13, '12:00') }, { start: at(13, '16:00') }]));
+  });
+
+  test('keeps clear of every calendar the user has listed', async () => {
+    writeCalendar(userId, [[at(13, '12:00'), at(13, '17:00')]], 'team');
+    await updateUserPreferences(userId, { listedCalendars: [{ id: 'primary', name: 'Main' }, { id: 'team', name: 'Team' }] });
+    try {
+      const slots = await findMeetingSlots(userId, { ...search, rangeStart: at(13, '00:00'), rangeEnd: at(13, '23:59') });
+      assert.deepEqual(starts(slots), starts([{ start: at(13, '17:00') }]));
+    } finally {
+      await updateUserPreferences(userId, { listedCalendars: undefined });
+    }
+  });
+
+  test('finds nothing in a range that has already passed', async () => {
+    assert.deepEqual(await findMeetingSlots(userId, { ...search, rangeStart: at(11, '09:00'), rangeEnd: at(12, '10:30') }), []);
+  });
+});
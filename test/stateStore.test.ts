@@ -0,0 +1,68 @@
+import './harness/environment';
+import { afterEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { TEST_DATA_DIR } from './harness/environment';
+import { StateMap, StateStore } from '../src/services/stateStore';
+import { JsonDirectoryStateStore } from '../src/services/stores/jsonDirectoryStateStore';
+import { JsonFileStateStore } from '../src/services/stores/jsonFileStateStore';
+import { SqliteStateStore } from '../src/services/stores/sqliteStateStore';
+
+const stores: Array<[string, (filePath: string) => StateStore]> = [
+  ['json file', filePath => new JsonFileStateStore(`${filePath}.json`)],
+  ['json directory', filePath => new JsonDirectoryStateStore(filePath)],
+  ['sqlite', filePath => new SqliteStateStore(`${filePath}.db`)]
+];
+let nextFile = 1;
+
+for (const [name, open] of stores) {
+  describe(`${name} state store`, () => {
+    let filePath = '';
+    const newStore = () => open(filePath = path.join(TEST_DATA_DIR, `store-${nextFile++}`));
+
+    afterEach(() => mock.restoreAll());
+
+    test('keeps values, dates included, across restarts', async () => {
+      const meeting = { title: 'Standup', start: new Date('2025-03-13T04:30:00Z'), attendees: ['a@example.com'] };
+      await newStore().set('wizards', '42', meeting);
+
+      const reopened = open(filePath);
+      assert.deepEqual(await reopened.get('wizards', '42'), meeting);
+      assert.ok((await reopened.get<typeof meeting>('wizards', '42'))!.start instanceof Date);
+      assert.equal(await reopened.get('other', '42'), undefined);
+    });
+
+    test('forgets entries once their time to live has passed', async () => {
+      const store = newStore();
+      const now = Date.now();
+      await store.set('conversations', '1', 'short', 1000);
+      await store.set('conversations', '2', 'kept');
+      assert.deepEqual((await store.keys('conversations')).sort(), ['1', '2']);
+
+      mock.method(Date, 'now', () => now + 2000);
+      assert.deepEqual(await store.keys('conversations'), ['2']);
+      assert.equal(await store.get('conversations', '1'), undefined);
+      assert.equal(await store.get('conversations', '2'), 'kept');
+    });
+
+    test('purges expired entries in every namespace', async () => {
+      const store = newStore();
+      const now = Date.now();
+      await store.set('a', '1', 1, 1000);
+      await store.set('b', '1', 1, 1000);
+      await store.set('b', '2', 2);
+
+      mock.method(Date, 'now', () => now + 2000);
+      assert.equal(await store.purgeExpired(), 2);
+      assert.deepEqual(await open(filePath).keys('b'), ['2']);
+    });
+
+    test('deletes through a typed map keyed by user id', async () => {
+      const map = new StateMap<{ step: string }>(newStore(), 'wizards');
+      await map.set(7, { step: 'time' });
+      assert.deepEqual(await map.get('7'), { step: 'time' });
+      await map.delete(7);
+      assert.equal(await map.get(7), undefined);
+    });
+  });
+}
@@ -0,0 +1,100 @@
+import './harness/environment';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakeContext, RecordedReply } from './harness/fakeContext';
+import { getTimeZoneOnboardingMessage, handleTimezoneCommand } from '../src/handlers/commandHandler';
+import { getUserPreferences, getUserTimeZone, updateUserPreferences } from '../src/services/userPreferences';
+import { setClock } from '../src/utils/clock';
+import {
+  addDays,
+  addMonths,
+  endOfDay,
+  getZonedParts,
+  normalizeTimeZone,
+  startOfDay,
+  toWallClockTime,
+  zonedTimeToUtc
+} from '../src/utils/timezone';
+
+describe('time zone helpers', () => {
+  test('converts wall-clock times in a zone to instants', () => {
+    assert.equal(zonedTimeToUtc(2025, 3, 13, 10, 0, 'Asia/Kolkata').toISOString(), '2025-03-13T04:30:00.000Z');
+    // Either side of the spring-forward change in New York
+    assert.equal(zonedTimeToUtc(2025, 3, 8, 9, 0, 'America/New_York').toISOString(), '2025-03-08T14:00:00.000Z');
+    assert.equal(zonedTimeToUtc(2025, 3, 10, 9, 0, 'America/New_York').toISOString(), '2025-03-10T13:00:00.000Z');
+  });
+
+  test('keeps the wall-clock time when stepping over a DST change', () => {
+    const saturday = zonedTimeToUtc(2025, 3, 8, 9, 0, 'America/New_York');
+    const monday = addDays(saturday, 2, 'America/New_York');
+    assert.equal(toWallClockTime(monday, 'America/New_York'), '09:00');
+    assert.equal(monday.getTime() - saturday.getTime(), 47 * 60 * 60 * 1000);
+  });
+
+  test('stays within the target month when adding months', () => {
+    const day = (date: Date) => date.toLocaleDateString('en-CA', { timeZone: 'Europe/Berlin' });
+    const january31 = zonedTimeToUtc(2025, 1, 31, 9, 0, 'Europe/Berlin');
+    assert.equal(day(addMonths(january31, 1, 'Europe/Berlin')), '2025-02-28');
+    assert.equal(day(addMonths(zonedTimeToUtc(2024, 1, 30, 9, 0, 'Europe/Berlin'), 1, 'Europe/Berlin')), '2024-02-29');
+    assert.equal(day(addMonths(january31, 3, 'Europe/Berlin')), '2025-04-30');
+    assert.equal(day(addMonths(january31, -2, 'Europe/Berlin')), '2024-11-30');
+    assert.equal(day(addMonths(january31, 12, 'Europe/Berlin')), '2026-01-31');
+    assert.equal(getZonedParts(addMonths(january31, 1, 'Europe/Berlin'), 'Europe/Berlin').hour, 9);
+  });
+
+  test('finds the bounds of a day in the zone, not on the server', () => {
+    const instant = new Date('2025-03-12T20:00:00Z');
+    assert.equal(startOfDay(instant, 'Asia/Kolkata').toISOString(), '2025-03-12T18:30:00.000Z');
+    assert.equal(endOfDay(instant, 'Asia/Kolkata').toISOString(), '2025-03-13T18:29:59.999Z');
+    assert.equal(getZonedParts(instant, 'Asia/Kolkata').day, 13);
+    assert.equal(getZonedParts(instant, 'America/Los_Angeles').day, 12);
+  });
+
+  test('normalizes zone names typed by users', () => {
+    assert.equal(normalizeTimeZone('europe/berlin'), 'Europe/Berlin');
+    assert.equal(normalizeTimeZone('America/New York'), 'America/New_York');
+    assert.equal(normalizeTimeZone('Mars/Olympus'), null);
+  });
+});
+
+describe('/timezone', () => {
+  const log = console.log;
+  const userId = 6100;
+
+  before(() => {
+    console.log = () => undefined;
+    setClock(() => new Date('2025-03-12T10:00:00Z'));
+  });
+  after(() => {
+    console.log = log;
+    setClock(null);
+    delete process.env.LOCAL_CALENDAR_TIME_ZONE;
+  });
+
+  async function send(text: string, user: number = userId): Promise<string> {
+    const replies: RecordedReply[] = [];
+    await handleTimezoneCommand(createFakeContext({ userId: user, text }, replies));
+    return replies[0].text;
+  }
+
+  test('sets the zone the user names', async () => {
+    assert.match(await send('/timezone europe/berlin'), /Time zone set to Europe\/Berlin\. It's 11:00 AM there/);
+    assert.equal(await getUserTimeZone(userId), 'Europe/Berlin');
+    assert.match(await send('/timezone'), /Your time zone is Europe\/Berlin/);
+  });
+
+  test('turns down names it does not know', async () => {
+    assert.match(await send('/timezone Atlantis'), /don't recognise "Atlantis"/);
+    assert.equal(await getUserTimeZone(userId), 'Europe/Berlin');
+  });
+
+  test('adopts the calendar zone on first link only', async () => {
+    process.env.LOCAL_CALENDAR_TIME_ZONE = 'America/Chicago';
+    assert.match((await getTimeZoneOnboardingMessage(userId + 1))!, /uses America\/Chicago/);
+    assert.equal((await getUserPreferences(userId + 1)).timeZone, 'America/Chicago');
+
+    await updateUserPreferences(userId + 2, { timeZone: 'Asia/Tokyo' });
+    assert.equal(await getTimeZoneOnboardingMessage(userId + 2), null);
+    assert.equal(await getUserTimeZone(userId + 2), 'Asia/Tokyo');
+  });
+});
@@ -0,0 +1,87 @@
+import './harness/environment';
+import { after, before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TEST_DATA_DIR } from './harness/environment';
+import { TokenVault, TokenVaultError } from '../src/services/tokenVault';
+
+const tokens = () => new Map<string, any>([['42', { refresh_token: 'refresh-42' }]]);
+let nextFile = 1;
+
+describe('token vault', () => {
+  const log = console.log;
+  let filePath = '';
+
+  before(() => {
+    console.log = () => undefined;
+  });
+  after(() => {
+    console.log = log;
+  });
+
+  function vaultFile(): string {
+    filePath = path.join(TEST_DATA_DIR, `vault-${nextFile++}.vault`);
+    return filePath;
+  }
+
+  test('keeps tokens encrypted on disk', () => {
+    new TokenVault(vaultFile(), ['current']).save(tokens());
+    assert.doesNotMatch(fs.readFileSync(filePath, 'utf8'), /refresh-42/);
+    assert.deepEqual(new TokenVault(filePath, ['current']).load(), tokens());
+  });
+
+  test('reads a vault written under the previous key and re-encrypts it under the current one', () => {
+    new TokenVault(vaultFile(), ['old']).save(tokens());
+    const previousKeyId = JSON.parse(fs.readFileSync(filePath, 'utf8')).keyId;
+
+    assert.deepEqual(new TokenVault(filePath, ['new', 'old']).load(), tokens());
+    assert.notEqual(JSON.parse(fs.readFileSync(filePath, 'utf8')).keyId, previousKeyId);
+    // The previous key is no longer needed
+    assert.deepEqual(new TokenVault(filePath, ['new']).load(), tokens());
+  });
+
+  test('refuses a key it was not written with', () => {
+    new TokenVault(vaultFile(), ['current']).save(tokens());
+    assert.throws(() => new TokenVault(filePath, ['wrong']).load(), TokenVaultError);
+    assert.throws(() => new TokenVault(filePath, ['']), TokenVaultError);
+  });
+
+  test('reports a damaged file instead of returning garbage', () => {
+    new TokenVault(vaultFile(), ['current']).save(tokens());
+    const file = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    const data = Buffer.from(file.data, 'base64');
+    data[0] ^= 1;
+    fs.writeFileSync(filePath, JSON.stringify({ ...file, data: data.toString('base64') }));
+
+    assert.throws(() => new TokenVault(filePath, ['current']).load(), /could not be decrypted/);
+  });
+
+  test('reports a truncated or unreadable file the same way', () => {
+    new TokenVault(vaultFile(), ['current']).save(tokens());
+    const content = fs.readFileSync(filePath, 'utf8');
+    for (const damaged of [content.slice(0, content.length / 2), 'not json', '']) {
+      fs.writeFileSync(filePath, damaged);
+      assert.throws(() => new TokenVault(filePath, ['current']).load(), TokenVaultError);
+    }
+  });
+});
+
+describe('token vault at startup', () => {
+  test('leaves a vault it could not open alone', async () => {
+    const vaultPath = process.env.TOKEN_VAULT_PATH!;
+    new TokenVault(vaultPath, ['a key from another deployment']).save(tokens());
+    const stored = fs.readFileSync(vaultPath, 'utf8');
+    mock.method(console, 'error', () => undefined);
+
+    // Loaded only now, so it opens the vault written above
+    const auth = await import('../src/services/authService');
+    assert.match(auth.getTokenVaultError()!.message, /unknown master key/);
+    assert.equal(auth.userTokens.size, 0);
+
+    auth.userTokens.set('7', { refresh_token: 'refresh-7' });
+    auth.saveTokens();
+    assert.equal(fs.readFileSync(vaultPath, 'utf8'), stored);
+    mock.restoreAll();
+  });
+});